@@ -3,6 +3,7 @@ import path from "path";
 import routerv1 from "./routes/v1/router";
 import morgan from "morgan";
 import { errorHandler } from "./shared/middlewares/error-handler.middleware";
+import { requestContextMiddleware } from "./shared/middlewares/request-context.middleware";
 import { stream } from "./shared/logger";
 import { APP_SETTINGS } from "./shared/app-settings";
 import publicRouter from "./routes/v1/public-router";
@@ -12,12 +13,20 @@ const app: Express = express();
 
 app.set("trust proxy", 1);
 
+app.use(requestContextMiddleware);
+
 app.use(morgan(APP_SETTINGS.IS_PRODUCTION ? "combined" : "dev", { stream }));
 
 app.use(
   express.json({
     limit: "10mb",
     strict: true,
+    type: [
+      "application/json",
+      "application/merge-patch+json",
+      "application/json-patch+json",
+      "application/geo+json",
+    ],
   }),
 );
 
@@ -8,6 +8,11 @@ import os from "os";
 import { initializeKafka, startKafkaConsumers, shutdownKafka } from "./shared/kafka/kafka-init";
 import { kafkaClient } from "./shared/kafka/kafka-client";
 import { logger } from "./shared/logger";
+import { ensureSearchIndexes } from "./shared/db/search-indexes";
+import { ensureDialCodes } from "./shared/db/dial-codes";
+import { ensureCurrencies } from "./shared/db/currencies";
+import { ensureChangeLog } from "./shared/db/change-log";
+import { ensureAdminDivisions } from "./shared/db/admin-divisions";
 
 const gracefulShutdown = (server: http.Server) => {
   const signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT", "SIGUSR2"];
@@ -73,6 +78,12 @@ async function startServer() {
       await startKafkaConsumers();
     }
 
+    await ensureSearchIndexes();
+    await ensureDialCodes();
+    await ensureCurrencies();
+    await ensureChangeLog();
+    await ensureAdminDivisions();
+
     const server = http.createServer(app);
 
     setupHealthCheck(server);
@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { validateAddressService } from "./address.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { validateAddressSchema } from "./address.validation";
+
+// POST /addresses/validate
+export const validateAddress = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { body } = validateRequest(req, { body: validateAddressSchema });
+    const validation = await validateAddressService(body);
+    success(res, validation, "Address validated successfully");
+  },
+);
@@ -0,0 +1,113 @@
+import { db } from "../../../shared/db";
+import {
+  TB_cities,
+  TB_countries,
+  TB_states,
+  type City,
+  type State,
+} from "../../../shared/db/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { matches, score } from "../search/search.repo";
+
+export interface AddressSuggestion {
+  entity: "country" | "state" | "city";
+  id: number;
+  name: string;
+  score: number;
+}
+
+const SUGGESTION_LIMIT = 3;
+
+export const suggestCountriesRepo = async (
+  term: string,
+): Promise<AddressSuggestion[]> => {
+  const rank = score(TB_countries.name, term);
+  const rows = await db
+    .select({ id: TB_countries.id, name: TB_countries.name, score: rank })
+    .from(TB_countries)
+    .where(
+      and(matches(TB_countries.name, term), isNull(TB_countries.deletedAt)),
+    )
+    .orderBy(desc(rank), TB_countries.name)
+    .limit(SUGGESTION_LIMIT);
+  return rows.map((row) => ({
+    entity: "country",
+    ...row,
+    score: Number(row.score),
+  }));
+};
+
+export const suggestStatesRepo = async (
+  term: string,
+  countryId?: number,
+): Promise<AddressSuggestion[]> => {
+  const rank = score(TB_states.name, term);
+  const rows = await db
+    .select({ id: TB_states.id, name: TB_states.name, score: rank })
+    .from(TB_states)
+    .where(
+      and(
+        matches(TB_states.name, term),
+        countryId === undefined
+          ? undefined
+          : eq(TB_states.countryId, countryId),
+        isNull(TB_states.deletedAt),
+      ),
+    )
+    .orderBy(desc(rank), TB_states.name)
+    .limit(SUGGESTION_LIMIT);
+  return rows.map((row) => ({
+    entity: "state",
+    ...row,
+    score: Number(row.score),
+  }));
+};
+
+export const suggestCitiesRepo = async (
+  term: string,
+  { stateId, countryId }: { stateId?: number; countryId?: number },
+): Promise<AddressSuggestion[]> => {
+  const rank = score(TB_cities.name, term);
+  const rows = await db
+    .select({ id: TB_cities.id, name: TB_cities.name, score: rank })
+    .from(TB_cities)
+    .innerJoin(TB_states, eq(TB_states.id, TB_cities.stateId))
+    .where(
+      and(
+        matches(TB_cities.name, term),
+        stateId === undefined ? undefined : eq(TB_cities.stateId, stateId),
+        countryId === undefined
+          ? undefined
+          : eq(TB_states.countryId, countryId),
+        isNull(TB_cities.deletedAt),
+        isNull(TB_states.deletedAt),
+      ),
+    )
+    .orderBy(desc(rank), TB_cities.name)
+    .limit(SUGGESTION_LIMIT);
+  return rows.map((row) => ({
+    entity: "city",
+    ...row,
+    score: Number(row.score),
+  }));
+};
+
+// Live cities with exactly this name anywhere in the country
+export const findCitiesInCountryRepo = async (
+  name: string,
+  countryId: number,
+): Promise<{ city: City; state: State }[]> => {
+  return await db
+    .select({ city: TB_cities, state: TB_states })
+    .from(TB_cities)
+    .innerJoin(TB_states, eq(TB_states.id, TB_cities.stateId))
+    .where(
+      and(
+        sql`lower(${TB_cities.name}) = lower(${name})`,
+        eq(TB_states.countryId, countryId),
+        isNull(TB_cities.deletedAt),
+        isNull(TB_states.deletedAt),
+      ),
+    )
+    .orderBy(TB_states.name);
+};
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { validateAddress } from "./address.controller";
+import { validateAddressSchema } from "./address.validation";
+
+const addressRouter: Router = Router();
+
+// Apply auth middleware to all routes
+addressRouter.use(authMiddleware);
+
+// POST /addresses/validate - Check a free-form or structured address, suggest fixes and format it
+addressRouter.post(
+  "/validate",
+  validate({
+    body: validateAddressSchema,
+  }),
+  validateAddress,
+);
+
+export { addressRouter };
@@ -0,0 +1,218 @@
+import { z } from "zod";
+import { validateAddressSchema } from "./address.validation";
+import {
+  type AddressSuggestion,
+  findCitiesInCountryRepo,
+  suggestCitiesRepo,
+  suggestCountriesRepo,
+  suggestStatesRepo,
+} from "./address.repo";
+import {
+  findCountriesByNameRepo,
+  findCountryByAnyCodeRepo,
+} from "../country/country.repo";
+import { findStatesByNameRepo } from "../state/state.repo";
+import { findCityByNameRepo } from "../city/city.repo";
+import { type City, type Country, type State } from "../../../shared/db/schema";
+import {
+  type AddressParts,
+  DEFAULT_ADDRESS_FORMAT,
+  formatAddress,
+  parseAddressText,
+} from "../../../shared/utils/address.util";
+import {
+  matchesPostalCodeFormat,
+  normalizePostalCode,
+} from "../../../shared/utils/postal-code.util";
+import {
+  BadRequestError,
+  HttpError,
+} from "../../../shared/utils/http-errors.util";
+
+export type ValidateAddressInput = z.infer<typeof validateAddressSchema>;
+
+export type AddressIssueCode =
+  "required" | "not_found" | "mismatch" | "ambiguous" | "invalid_format";
+
+export interface AddressIssue {
+  field: keyof AddressParts;
+  code: AddressIssueCode;
+  message: string;
+  suggestions: AddressSuggestion[];
+}
+
+export interface AddressValidation {
+  valid: boolean;
+  address: AddressParts & { countryCode?: string };
+  issues: AddressIssue[];
+  formatted: string;
+}
+
+const asSuggestion = (
+  entity: AddressSuggestion["entity"],
+  { id, name }: { id: number; name: string },
+): AddressSuggestion => ({ entity, id, name, score: 1 });
+
+// Country names are matched after codes, so "US" and "United States" both work
+const resolveCountry = async (term: string): Promise<Country | null> => {
+  const byCode = await findCountryByAnyCodeRepo(term);
+  if (byCode) return byCode;
+  const byName = await findCountriesByNameRepo(term);
+  return byName.length === 1 ? byName[0] : null;
+};
+
+/**
+ * Resolves each part to a live record and checks that the city lies in the
+ * state and the state in the country. Parts that don't resolve come back as
+ * issues with the closest names as suggestions; the state is inferred when
+ * the city name is unique within the country.
+ */
+export const validateAddressService = async ({
+  text,
+  ...structured
+}: ValidateAddressInput): Promise<AddressValidation> => {
+  try {
+    const parts: AddressParts = text ? parseAddressText(text) : structured;
+    const issues: AddressIssue[] = [];
+
+    let country: Country | null = null;
+    if (!parts.country) {
+      issues.push({
+        field: "country",
+        code: "required",
+        message: "Country is required",
+        suggestions: [],
+      });
+    } else {
+      country = await resolveCountry(parts.country);
+      if (!country) {
+        issues.push({
+          field: "country",
+          code: "not_found",
+          message: `Country '${parts.country}' does not exist`,
+          suggestions: await suggestCountriesRepo(parts.country),
+        });
+      }
+    }
+
+    let state: State | null = null;
+    if (parts.state) {
+      const states = await findStatesByNameRepo(parts.state, country?.id);
+      if (states.length === 1) {
+        state = states[0];
+      } else if (states.length > 1) {
+        issues.push({
+          field: "state",
+          code: "ambiguous",
+          message: `State '${parts.state}' exists in several countries`,
+          suggestions: states.map((match) => asSuggestion("state", match)),
+        });
+      } else {
+        const elsewhere = country
+          ? await findStatesByNameRepo(parts.state)
+          : [];
+        issues.push({
+          field: "state",
+          code: elsewhere.length ? "mismatch" : "not_found",
+          message: elsewhere.length
+            ? `State '${parts.state}' is not in ${country?.name}`
+            : `State '${parts.state}' does not exist`,
+          suggestions: await suggestStatesRepo(parts.state, country?.id),
+        });
+      }
+    }
+
+    let city: City | null = null;
+    if (!parts.city) {
+      issues.push({
+        field: "city",
+        code: "required",
+        message: "City is required",
+        suggestions: [],
+      });
+    } else if (state) {
+      city = await findCityByNameRepo(state.id, parts.city);
+      if (!city) {
+        const elsewhere = await findCitiesInCountryRepo(
+          parts.city,
+          state.countryId,
+        );
+        issues.push({
+          field: "city",
+          code: elsewhere.length ? "mismatch" : "not_found",
+          message: elsewhere.length
+            ? `City '${parts.city}' is not in ${state.name}`
+            : `City '${parts.city}' does not exist in ${state.name}`,
+          suggestions: elsewhere.length
+            ? elsewhere.map((match) => asSuggestion("state", match.state))
+            : await suggestCitiesRepo(parts.city, { stateId: state.id }),
+        });
+      }
+    } else if (country && !parts.state) {
+      const matches = await findCitiesInCountryRepo(parts.city, country.id);
+      if (matches.length === 1) {
+        ({ city, state } = matches[0]);
+      } else {
+        issues.push(
+          matches.length
+            ? {
+                field: "state",
+                code: "ambiguous",
+                message: `City '${parts.city}' exists in several states, state is required`,
+                suggestions: matches.map((match) =>
+                  asSuggestion("state", match.state),
+                ),
+              }
+            : {
+                field: "city",
+                code: "not_found",
+                message: `City '${parts.city}' does not exist in ${country.name}`,
+                suggestions: await suggestCitiesRepo(parts.city, {
+                  countryId: country.id,
+                }),
+              },
+        );
+      }
+    }
+
+    const postalCode = parts.postalCode
+      ? normalizePostalCode(parts.postalCode)
+      : undefined;
+    if (
+      postalCode &&
+      country?.postalCodeRegex &&
+      !matchesPostalCodeFormat(postalCode, country.postalCodeRegex)
+    ) {
+      issues.push({
+        field: "postalCode",
+        code: "invalid_format",
+        message: `Postal code '${postalCode}' does not match the format of ${country.name}`,
+        suggestions: [],
+      });
+    }
+
+    const address = {
+      line1: parts.line1,
+      line2: parts.line2,
+      city: city?.name ?? parts.city,
+      state: state?.name ?? parts.state,
+      postalCode,
+      country: country?.name ?? parts.country,
+      countryCode: country?.code,
+    };
+    return {
+      valid: issues.length === 0,
+      address,
+      issues,
+      formatted: formatAddress(
+        country?.addressFormat ?? DEFAULT_ADDRESS_FORMAT,
+        address,
+      ),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to validate address", error);
+  }
+};
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+const v_part = (label: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} must not be empty`)
+    .max(max, `${label} must not exceed ${max} characters`)
+    .optional();
+
+const PART_FIELDS = [
+  "line1",
+  "line2",
+  "city",
+  "state",
+  "postalCode",
+  "country",
+] as const;
+
+// Either one free-form `text` or the structured parts
+export const validateAddressSchema = z
+  .object({
+    text: v_part("Text", 1000),
+    line1: v_part("Line 1", 255),
+    line2: v_part("Line 2", 255),
+    city: v_part("City", 255),
+    state: v_part("State", 255),
+    postalCode: v_part("Postal code", 20),
+    country: v_part("Country", 255),
+  })
+  .refine(
+    (value) =>
+      !!value.text !== PART_FIELDS.some((field) => value[field] !== undefined),
+    { message: "Send either free-form text or address parts, not both" },
+  );
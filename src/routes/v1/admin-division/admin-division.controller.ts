@@ -0,0 +1,88 @@
+import { Request, Response } from "express";
+import {
+  createDivisionService,
+  deleteDivisionService,
+  getDivisionAncestorsService,
+  getDivisionByIdService,
+  getDivisionDescendantsService,
+  getDivisionsService,
+  updateDivisionService,
+} from "./admin-division.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  createDivisionSchema,
+  divisionDescendantsQuerySchema,
+  divisionListFiltersSchema,
+  updateDivisionSchema,
+} from "./admin-division.validation";
+
+// GET /admin-divisions
+export const getDivisions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, {
+      query: divisionListFiltersSchema,
+    });
+    const divisions = await getDivisionsService(query);
+    success(res, divisions, "Divisions retrieved successfully");
+  },
+);
+
+// GET /admin-divisions/:id
+export const getDivisionById = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const division = await getDivisionByIdService(Number(id));
+    success(res, division, "Division retrieved successfully");
+  },
+);
+
+// GET /admin-divisions/:id/ancestors
+export const getDivisionAncestors = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const ancestors = await getDivisionAncestorsService(Number(id));
+    success(res, ancestors, "Division ancestors retrieved successfully");
+  },
+);
+
+// GET /admin-divisions/:id/descendants
+export const getDivisionDescendants = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { query } = validateRequest(req, {
+      query: divisionDescendantsQuerySchema,
+    });
+    const descendants = await getDivisionDescendantsService(Number(id), query);
+    success(res, descendants, "Division descendants retrieved successfully");
+  },
+);
+
+// POST /admin-divisions
+export const createDivision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { body } = validateRequest(req, { body: createDivisionSchema });
+    const division = await createDivisionService(body);
+    success(res, division, "Division created successfully");
+  },
+);
+
+// PUT /admin-divisions/:id
+export const updateDivision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { body } = validateRequest(req, { body: updateDivisionSchema });
+    const division = await updateDivisionService(Number(id), body);
+    success(res, division, "Division updated successfully");
+  },
+);
+
+// DELETE /admin-divisions/:id
+export const deleteDivision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const division = await deleteDivisionService(Number(id));
+    success(res, division, "Division deleted successfully");
+  },
+);
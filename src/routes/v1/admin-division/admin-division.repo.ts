@@ -0,0 +1,212 @@
+import {
+  db,
+  type DbClient,
+  type FindOptions,
+  type UpdateOptions,
+} from "../../../shared/db";
+import {
+  TB_adminDivisions,
+  type AdminDivision,
+  type AdminDivisionLevel,
+  type NewAdminDivision,
+} from "../../../shared/db/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { type ListQueryConfig } from "../../../shared/db/list-query";
+import {
+  paginate,
+  type Page,
+  type PaginateOptions,
+} from "../../../shared/db/paginate";
+
+export const divisionListConfig: ListQueryConfig = {
+  columns: {
+    id: TB_adminDivisions.id,
+    countryId: TB_adminDivisions.countryId,
+    stateId: TB_adminDivisions.stateId,
+    cityId: TB_adminDivisions.cityId,
+    parentId: TB_adminDivisions.parentId,
+    level: TB_adminDivisions.level,
+    name: TB_adminDivisions.name,
+    code: TB_adminDivisions.code,
+    createdAt: TB_adminDivisions.createdAt,
+    updatedAt: TB_adminDivisions.updatedAt,
+    deletedAt: TB_adminDivisions.deletedAt,
+    version: TB_adminDivisions.version,
+  },
+  filterable: [
+    "id",
+    "countryId",
+    "stateId",
+    "cityId",
+    "parentId",
+    "level",
+    "name",
+    "code",
+    "createdAt",
+    "updatedAt",
+    "deletedAt",
+  ],
+  sortable: ["id", "name", "level", "createdAt", "updatedAt"],
+  defaultSort: { field: "name", direction: "asc" },
+};
+
+export type DivisionListOptions = PaginateOptions & {
+  includeDeleted?: boolean;
+};
+
+export interface DivisionNode extends AdminDivision {
+  // Steps away from the division the walk started at
+  depth: number;
+}
+
+export interface DescendantOptions {
+  maxDepth?: number;
+  level?: AdminDivisionLevel;
+}
+
+// Stops a walk over corrupted parent links from looping forever
+const MAX_DEPTH = 100;
+
+const nodeColumns = sql`
+  id, country_id as "countryId", state_id as "stateId", city_id as "cityId",
+  parent_id as "parentId", level, name, code, created_at as "createdAt",
+  updated_at as "updatedAt", deleted_at as "deletedAt", version, depth
+`;
+
+const notDeleted = (includeDeleted?: boolean) =>
+  includeDeleted ? undefined : isNull(TB_adminDivisions.deletedAt);
+
+export const findDivisionByIdRepo = async (
+  id: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<AdminDivision | null> => {
+  const [division] = await client
+    .select()
+    .from(TB_adminDivisions)
+    .where(and(eq(TB_adminDivisions.id, id), notDeleted(includeDeleted)))
+    .limit(1);
+  return division || null;
+};
+
+export const findDivisionsRepo = async (
+  options: DivisionListOptions = {},
+): Promise<Page<Partial<AdminDivision>>> => {
+  const { includeDeleted, ...listOptions } = options;
+
+  return await paginate<Partial<AdminDivision>>({
+    table: TB_adminDivisions,
+    idColumn: TB_adminDivisions.id,
+    config: divisionListConfig,
+    options: listOptions,
+    where: notDeleted(includeDeleted),
+  });
+};
+
+export const createDivisionRepo = async (
+  data: NewAdminDivision,
+  client: DbClient = db,
+): Promise<AdminDivision> => {
+  const [division] = await client
+    .insert(TB_adminDivisions)
+    .values(data)
+    .returning();
+  return division;
+};
+
+export const updateDivisionRepo = async (
+  id: number,
+  data: Partial<NewAdminDivision>,
+  { client = db, version }: UpdateOptions = {},
+): Promise<AdminDivision | null> => {
+  const [division] = await client
+    .update(TB_adminDivisions)
+    .set({
+      ...data,
+      updatedAt: new Date(),
+      version: sql`${TB_adminDivisions.version} + 1`,
+    })
+    .where(
+      and(
+        eq(TB_adminDivisions.id, id),
+        version === undefined
+          ? undefined
+          : eq(TB_adminDivisions.version, version),
+      ),
+    )
+    .returning();
+  return division || null;
+};
+
+export const reparentChildDivisionsRepo = async (
+  fromId: number,
+  toId: number,
+  client: DbClient = db,
+): Promise<void> => {
+  await client
+    .update(TB_adminDivisions)
+    .set({
+      parentId: toId,
+      updatedAt: new Date(),
+      version: sql`${TB_adminDivisions.version} + 1`,
+    })
+    .where(eq(TB_adminDivisions.parentId, fromId));
+};
+
+export const purgeDivisionRepo = async (
+  id: number,
+  client: DbClient = db,
+): Promise<AdminDivision> => {
+  const [division] = await client
+    .delete(TB_adminDivisions)
+    .where(eq(TB_adminDivisions.id, id))
+    .returning();
+  return division;
+};
+
+// Parent chain of a division, root (its state) first
+export const findDivisionAncestorsRepo = async (
+  id: number,
+): Promise<DivisionNode[]> => {
+  const { rows } = await db.execute<Record<string, unknown>>(sql`
+    with recursive chain as (
+      select admin_divisions.*, 0 as depth
+      from admin_divisions
+      where id = ${id}
+      union all
+      select parent.*, chain.depth + 1
+      from admin_divisions parent
+      join chain on parent.id = chain.parent_id
+      where chain.depth < ${MAX_DEPTH}
+    )
+    select ${nodeColumns} from chain
+    where depth > 0
+    order by depth desc
+  `);
+  return rows as unknown as DivisionNode[];
+};
+
+/**
+ * Every live division below this one, closest first. A deleted division hides
+ * its whole branch, the way a deleted state hides its cities.
+ */
+export const findDivisionDescendantsRepo = async (
+  id: number,
+  { maxDepth = MAX_DEPTH, level }: DescendantOptions = {},
+): Promise<DivisionNode[]> => {
+  const { rows } = await db.execute<Record<string, unknown>>(sql`
+    with recursive tree as (
+      select admin_divisions.*, 1 as depth
+      from admin_divisions
+      where parent_id = ${id} and deleted_at is null
+      union all
+      select child.*, tree.depth + 1
+      from admin_divisions child
+      join tree on child.parent_id = tree.id
+      where child.deleted_at is null and tree.depth < ${maxDepth}
+    )
+    select ${nodeColumns} from tree
+    ${level ? sql`where level = ${level}` : sql``}
+    order by depth, name, id
+  `);
+  return rows as unknown as DivisionNode[];
+};
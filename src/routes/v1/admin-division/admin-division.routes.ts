@@ -0,0 +1,93 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { guardIncludeDeleted } from "../../../shared/middlewares/soft-delete.middleware";
+import {
+  createDivision,
+  deleteDivision,
+  getDivisionAncestors,
+  getDivisionById,
+  getDivisionDescendants,
+  getDivisions,
+  updateDivision,
+} from "./admin-division.controller";
+import {
+  createDivisionSchema,
+  divisionDescendantsQuerySchema,
+  divisionListFiltersSchema,
+  updateDivisionSchema,
+} from "./admin-division.validation";
+import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+
+const adminDivisionRouter: Router = Router();
+
+// Apply auth middleware to all routes
+adminDivisionRouter.use(authMiddleware);
+
+// GET /admin-divisions - List divisions, filterable by country, state, city or level
+adminDivisionRouter.get(
+  "/",
+  validate({
+    query: divisionListFiltersSchema,
+  }),
+  guardIncludeDeleted,
+  getDivisions,
+);
+
+// POST /admin-divisions - Add a county, district or municipality below a division
+adminDivisionRouter.post(
+  "/",
+  validate({
+    body: createDivisionSchema,
+  }),
+  createDivision,
+);
+
+// GET /admin-divisions/:id/ancestors - Parent chain up to the state
+adminDivisionRouter.get(
+  "/:id/ancestors",
+  validate({
+    params: idParamSchema,
+  }),
+  getDivisionAncestors,
+);
+
+// GET /admin-divisions/:id/descendants - Every division below, closest first
+adminDivisionRouter.get(
+  "/:id/descendants",
+  validate({
+    params: idParamSchema,
+    query: divisionDescendantsQuerySchema,
+  }),
+  getDivisionDescendants,
+);
+
+// GET /admin-divisions/:id - A single division
+adminDivisionRouter.get(
+  "/:id",
+  validate({
+    params: idParamSchema,
+  }),
+  getDivisionById,
+);
+
+// PUT /admin-divisions/:id - Rename or move a division
+adminDivisionRouter.put(
+  "/:id",
+  validate({
+    params: idParamSchema,
+    body: updateDivisionSchema,
+  }),
+  updateDivision,
+);
+
+// DELETE /admin-divisions/:id - Remove a division, its children move up
+adminDivisionRouter.delete(
+  "/:id",
+  validate({
+    params: idParamSchema,
+  }),
+  deleteDivision,
+);
+
+export { adminDivisionRouter };
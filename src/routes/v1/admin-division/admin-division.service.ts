@@ -0,0 +1,236 @@
+import { z } from "zod";
+import {
+  createDivisionRepo,
+  findDivisionAncestorsRepo,
+  findDivisionByIdRepo,
+  findDivisionDescendantsRepo,
+  findDivisionsRepo,
+  purgeDivisionRepo,
+  reparentChildDivisionsRepo,
+  updateDivisionRepo,
+  type DescendantOptions,
+  type DivisionListOptions,
+  type DivisionNode,
+} from "./admin-division.repo";
+import {
+  createDivisionSchema,
+  updateDivisionSchema,
+} from "./admin-division.validation";
+import { recordAuditService } from "../audit/audit.service";
+import { db } from "../../../shared/db";
+import { type AdminDivision } from "../../../shared/db/schema";
+import { type Page } from "../../../shared/db/paginate";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+  PreconditionFailedError,
+} from "../../../shared/utils/http-errors.util";
+
+export type CreateDivisionInput = z.infer<typeof createDivisionSchema>;
+export type UpdateDivisionInput = z.infer<typeof updateDivisionSchema>;
+
+const getDivisionOrThrow = async (id: number): Promise<AdminDivision> => {
+  const division = await findDivisionByIdRepo(id);
+  if (!division) {
+    throw new NotFoundError(`Division with ID ${id} not found`);
+  }
+  return division;
+};
+
+// A new parent has to be live, able to hold children and in the same state
+const getParentOrThrow = async (
+  parentId: number,
+  stateId?: number,
+): Promise<AdminDivision> => {
+  const parent = await findDivisionByIdRepo(parentId);
+  if (!parent) {
+    throw new BadRequestError(`Division with ID ${parentId} does not exist.`);
+  }
+  if (parent.level === "city") {
+    throw new BadRequestError("Cities cannot contain other divisions.");
+  }
+  if (stateId !== undefined && parent.stateId !== stateId) {
+    throw new BadRequestError("Divisions cannot move to another state.");
+  }
+  return parent;
+};
+
+export const getDivisionsService = async (
+  options?: DivisionListOptions,
+): Promise<Page<Partial<AdminDivision>>> => {
+  try {
+    return await findDivisionsRepo(options);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to fetch divisions", error);
+  }
+};
+
+export const getDivisionByIdService = async (
+  id: number,
+): Promise<AdminDivision> => {
+  return await getDivisionOrThrow(id);
+};
+
+export const getDivisionAncestorsService = async (
+  id: number,
+): Promise<DivisionNode[]> => {
+  await getDivisionOrThrow(id);
+  try {
+    return await findDivisionAncestorsRepo(id);
+  } catch (error) {
+    throw new BadRequestError("Failed to fetch division ancestors", error);
+  }
+};
+
+export const getDivisionDescendantsService = async (
+  id: number,
+  options: DescendantOptions = {},
+): Promise<DivisionNode[]> => {
+  await getDivisionOrThrow(id);
+  try {
+    return await findDivisionDescendantsRepo(id, options);
+  } catch (error) {
+    throw new BadRequestError("Failed to fetch division descendants", error);
+  }
+};
+
+export const createDivisionService = async (
+  data: CreateDivisionInput,
+): Promise<AdminDivision> => {
+  const parent = await getParentOrThrow(data.parentId);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const division = await createDivisionRepo(
+        { ...data, countryId: parent.countryId, stateId: parent.stateId },
+        tx,
+      );
+      await recordAuditService(
+        {
+          entity: "division",
+          entityId: division.id,
+          action: "create",
+          after: division,
+        },
+        tx,
+      );
+      return division;
+    });
+  } catch (error) {
+    throw new BadRequestError("Failed to create division", error);
+  }
+};
+
+/**
+ * State and city rows mirror the states and cities tables, so only the
+ * position of a city can change here; everything else goes through /states
+ * and /city.
+ */
+export const updateDivisionService = async (
+  id: number,
+  data: UpdateDivisionInput,
+): Promise<AdminDivision> => {
+  const existingDivision = await getDivisionOrThrow(id);
+
+  if (existingDivision.level === "state") {
+    throw new BadRequestError(
+      `Division with ID ${id} is a state, update it through /states.`,
+    );
+  }
+  if (
+    existingDivision.level === "city" &&
+    Object.keys(data).some((field) => field !== "parentId")
+  ) {
+    throw new BadRequestError(
+      `Division with ID ${id} is a city, only its parent can change here.`,
+    );
+  }
+
+  if (
+    data.parentId !== undefined &&
+    data.parentId !== existingDivision.parentId
+  ) {
+    await getParentOrThrow(data.parentId, existingDivision.stateId);
+    const ancestors = await findDivisionAncestorsRepo(data.parentId);
+    if (
+      data.parentId === id ||
+      ancestors.some((ancestor) => ancestor.id === id)
+    ) {
+      throw new BadRequestError(
+        "A division cannot be moved below one of its own descendants.",
+      );
+    }
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      // Guards against a concurrent write landing after the checks above
+      const division = await updateDivisionRepo(id, data, {
+        client: tx,
+        version: existingDivision.version,
+      });
+      if (!division) {
+        throw new PreconditionFailedError(
+          `Division with ID ${id} has been modified, fetch it again before updating`,
+        );
+      }
+      await recordAuditService(
+        {
+          entity: "division",
+          entityId: id,
+          action: "update",
+          before: existingDivision,
+          after: division,
+        },
+        tx,
+      );
+      return division;
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to update division", error);
+  }
+};
+
+// Children of a removed division move up to its parent
+export const deleteDivisionService = async (
+  id: number,
+): Promise<AdminDivision> => {
+  const existingDivision = await getDivisionOrThrow(id);
+  if (existingDivision.level === "state") {
+    throw new BadRequestError(
+      `Division with ID ${id} is a state, delete it through /states.`,
+    );
+  }
+  if (existingDivision.level === "city") {
+    throw new BadRequestError(
+      `Division with ID ${id} is a city, delete it through /city.`,
+    );
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      await reparentChildDivisionsRepo(id, existingDivision.parentId!, tx);
+      const division = await purgeDivisionRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "division",
+          entityId: id,
+          action: "delete",
+          before: existingDivision,
+          after: null,
+        },
+        tx,
+      );
+      return division;
+    });
+  } catch (error) {
+    throw new BadRequestError("Failed to delete division", error);
+  }
+};
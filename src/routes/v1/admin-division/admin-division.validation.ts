@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { ADMIN_DIVISION_LEVELS } from "../../../shared/db/schema";
+import { v_list_filters } from "../../../shared/utils/_zod-utils/v-list-filters";
+
+// States and cities are created through their own endpoints
+export const INTERMEDIATE_DIVISION_LEVELS = [
+  "county",
+  "district",
+  "municipality",
+] as const;
+
+// Filter on `stateId` or `cityId` to find the division of a state or city
+export const divisionListFiltersSchema = v_list_filters;
+
+export const createDivisionSchema = z.object({
+  parentId: z.number().int("Parent ID must be an integer"),
+  level: z.enum(INTERMEDIATE_DIVISION_LEVELS),
+  name: z
+    .string()
+    .min(2, "Name must be at least 2 characters")
+    .max(255, "Name must not exceed 255 characters")
+    .trim(),
+  code: z
+    .string()
+    .max(20, "Code must not exceed 20 characters")
+    .trim()
+    .optional(),
+});
+
+export const updateDivisionSchema = createDivisionSchema.partial();
+
+export const divisionDescendantsQuerySchema = z.object({
+  maxDepth: z.coerce
+    .number()
+    .int("Depth must be an integer")
+    .min(1, "Depth must be at least 1")
+    .max(50, "Depth must not exceed 50")
+    .optional(),
+  level: z.enum(ADMIN_DIVISION_LEVELS).optional(),
+});
@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { getAuditLogsService } from "./audit.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { auditQuerySchema } from "./audit.validation";
+
+// GET /audit
+export const getAuditLogs = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, { query: auditQuerySchema });
+    const entries = await getAuditLogsService(query);
+    success(res, entries, "Audit log retrieved successfully");
+  },
+);
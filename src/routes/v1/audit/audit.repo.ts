@@ -0,0 +1,106 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_auditLog,
+  type AuditLog,
+  type NewAuditLog,
+} from "../../../shared/db/schema";
+import { and, eq, type SQL } from "drizzle-orm";
+import { type ListQueryConfig } from "../../../shared/db/list-query";
+import {
+  paginate,
+  type Page,
+  type PaginateOptions,
+} from "../../../shared/db/paginate";
+
+export interface AuditFilters extends PaginateOptions {
+  entity?: string;
+  entityId?: number;
+  action?: string;
+  actorId?: string;
+  requestId?: string;
+}
+
+export const auditListConfig: ListQueryConfig = {
+  columns: {
+    id: TB_auditLog.id,
+    entity: TB_auditLog.entity,
+    entityId: TB_auditLog.entityId,
+    action: TB_auditLog.action,
+    actorId: TB_auditLog.actorId,
+    actor: TB_auditLog.actor,
+    diff: TB_auditLog.diff,
+    requestId: TB_auditLog.requestId,
+    createdAt: TB_auditLog.createdAt,
+  },
+  filterable: [
+    "id",
+    "entity",
+    "entityId",
+    "action",
+    "actorId",
+    "requestId",
+    "createdAt",
+  ],
+  sortable: ["id", "createdAt"],
+  defaultSort: { field: "createdAt", direction: "desc" },
+};
+
+const buildAuditConditions = (filters: AuditFilters): SQL[] => {
+  const conditions: SQL[] = [];
+
+  if (filters.entity) {
+    conditions.push(eq(TB_auditLog.entity, filters.entity));
+  }
+  if (filters.entityId !== undefined) {
+    conditions.push(eq(TB_auditLog.entityId, filters.entityId));
+  }
+  if (filters.action) {
+    conditions.push(eq(TB_auditLog.action, filters.action));
+  }
+  if (filters.actorId) {
+    conditions.push(eq(TB_auditLog.actorId, filters.actorId));
+  }
+  if (filters.requestId) {
+    conditions.push(eq(TB_auditLog.requestId, filters.requestId));
+  }
+
+  return conditions;
+};
+
+export const createAuditLogRepo = async (
+  data: NewAuditLog,
+  client: DbClient = db,
+): Promise<AuditLog> => {
+  const [entry] = await client.insert(TB_auditLog).values(data).returning();
+  return entry;
+};
+
+// Seven parameters per row keeps a full batch far below Postgres' 65535
+const INSERT_BATCH_SIZE = 1000;
+
+export const createAuditLogsRepo = async (
+  data: NewAuditLog[],
+  client: DbClient = db,
+): Promise<void> => {
+  for (let start = 0; start < data.length; start += INSERT_BATCH_SIZE) {
+    await client
+      .insert(TB_auditLog)
+      .values(data.slice(start, start + INSERT_BATCH_SIZE));
+  }
+};
+
+export const findAuditLogsRepo = async (
+  filters: AuditFilters = {},
+): Promise<Page<Partial<AuditLog>>> => {
+  const { entity, entityId, action, actorId, requestId, ...options } = filters;
+
+  return await paginate<Partial<AuditLog>>({
+    table: TB_auditLog,
+    idColumn: TB_auditLog.id,
+    config: auditListConfig,
+    options,
+    where: and(
+      ...buildAuditConditions({ entity, entityId, action, actorId, requestId }),
+    ),
+  });
+};
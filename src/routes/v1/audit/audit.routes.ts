@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import {
+  authMiddleware,
+  requireRole,
+} from "../../../shared/middlewares/auth.middleware";
+import { getAuditLogs } from "./audit.controller";
+import { auditQuerySchema } from "./audit.validation";
+
+const auditRouter: Router = Router();
+
+// The audit trail is only readable by auditors and admins
+auditRouter.use(authMiddleware, requireRole("admin", "auditor"));
+
+// GET /audit - List audit entries, filterable by entity, entity id and actor
+auditRouter.get(
+  "/",
+  validate({
+    query: auditQuerySchema,
+  }),
+  getAuditLogs,
+);
+
+export { auditRouter };
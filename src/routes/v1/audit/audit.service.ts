@@ -0,0 +1,147 @@
+import {
+  createAuditLogRepo,
+  createAuditLogsRepo,
+  findAuditLogsRepo,
+  type AuditFilters,
+} from "./audit.repo";
+import { type AuditLog, type NewAuditLog } from "../../../shared/db/schema";
+import { type DbClient } from "../../../shared/db";
+import { type Page } from "../../../shared/db/paginate";
+import { getRequestContext } from "../../../shared/middlewares/request-context.middleware";
+import {
+  BadRequestError,
+  HttpError,
+} from "../../../shared/utils/http-errors.util";
+
+export type AuditEntity = "country" | "state" | "city" | "division";
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+// Bumped on every write, so it would only add noise to the diff
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+// Round-trips through JSON so dates compare and store the way they are served
+const toJson = (record?: object | null): Record<string, unknown> =>
+  record ? JSON.parse(JSON.stringify(record)) : {};
+
+/**
+ * Keeps only the fields whose value changed between the two snapshots. A
+ * missing snapshot (create, purge) shows up as `null` on that side.
+ */
+export const diffRecords = (
+  before?: object | null,
+  after?: object | null,
+): AuditDiff => {
+  const previous = toJson(before);
+  const next = toJson(after);
+  const diff: AuditDiff = {};
+
+  for (const field of new Set([
+    ...Object.keys(previous),
+    ...Object.keys(next),
+  ])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = { before: from, after: to };
+    }
+  }
+
+  return diff;
+};
+
+// Stamps an entry with the current request's actor and id
+const buildAuditEntry = ({
+  entity,
+  entityId,
+  action,
+  before,
+  after,
+}: {
+  entity: AuditEntity;
+  entityId: number;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}): NewAuditLog => {
+  const context = getRequestContext();
+  const user = context?.user;
+  const actorId = user?.id ?? user?.sub;
+
+  return {
+    entity,
+    entityId,
+    action,
+    actorId: actorId === undefined ? null : String(actorId),
+    actor: user ?? null,
+    diff: diffRecords(before, after),
+    requestId: context?.requestId ?? null,
+  };
+};
+
+/**
+ * Records a mutation against the current request's actor and id. Pass the
+ * transaction the mutation ran in so the entry commits or rolls back with it.
+ */
+export const recordAuditService = async (
+  entry: {
+    entity: AuditEntity;
+    entityId: number;
+    action: AuditAction;
+    before?: object | null;
+    after?: object | null;
+  },
+  client?: DbClient,
+): Promise<AuditLog> => {
+  return await createAuditLogRepo(buildAuditEntry(entry), client);
+};
+
+/**
+ * Records one entry per child row a delete policy touched, in batched
+ * inserts. Each row is paired by id with its snapshot after the change; rows
+ * missing from `after` were purged.
+ */
+export const recordChildAuditsService = async (
+  {
+    entity,
+    action,
+    before,
+    after,
+  }: {
+    entity: AuditEntity;
+    action: AuditAction;
+    before: { id: number }[];
+    after: { id: number }[];
+  },
+  client?: DbClient,
+): Promise<void> => {
+  const changed = new Map(after.map((row) => [row.id, row]));
+  await createAuditLogsRepo(
+    before.map((row) =>
+      buildAuditEntry({
+        entity,
+        entityId: row.id,
+        action,
+        before: row,
+        after: changed.get(row.id) ?? null,
+      }),
+    ),
+    client,
+  );
+};
+
+export const getAuditLogsService = async (
+  filters?: AuditFilters,
+): Promise<Page<Partial<AuditLog>>> => {
+  try {
+    return await findAuditLogsRepo(filters);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to fetch audit log", error);
+  }
+};
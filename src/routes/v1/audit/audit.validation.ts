@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { v_list_filters } from "../../../shared/utils/_zod-utils/v-list-filters";
+
+export const auditQuerySchema = v_list_filters
+  .omit({ includeDeleted: true })
+  .extend({
+    entity: z.enum(["country", "state", "city", "division"]).optional(),
+    entityId: z.coerce.number().int("Entity ID must be an integer").optional(),
+    action: z.enum(["create", "update", "delete", "restore"]).optional(),
+    actorId: z.string().trim().optional(),
+    requestId: z.string().trim().optional(),
+  });
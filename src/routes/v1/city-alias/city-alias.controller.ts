@@ -0,0 +1,57 @@
+import { Request, Response } from "express";
+import {
+  createCityAliasService,
+  deleteCityAliasService,
+  getCityAliasesService,
+  updateCityAliasService,
+} from "./city-alias.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  cityAliasParamsSchema,
+  createCityAliasSchema,
+  updateCityAliasSchema,
+} from "./city-alias.validation";
+
+// GET /city/:id/aliases
+export const getCityAliases = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const aliases = await getCityAliasesService(Number(id));
+    success(res, aliases, "City aliases retrieved successfully");
+  },
+);
+
+// POST /city/:id/aliases
+export const createCityAlias = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { body } = validateRequest(req, { body: createCityAliasSchema });
+    const alias = await createCityAliasService(Number(id), body);
+    success(res, alias, "City alias created successfully");
+  },
+);
+
+// PUT /city/:id/aliases/:aliasId
+export const updateCityAlias = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { params, body } = validateRequest(req, {
+      params: cityAliasParamsSchema,
+      body: updateCityAliasSchema,
+    });
+    const alias = await updateCityAliasService(params.id, params.aliasId, body);
+    success(res, alias, "City alias updated successfully");
+  },
+);
+
+// DELETE /city/:id/aliases/:aliasId
+export const deleteCityAlias = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { params } = validateRequest(req, {
+      params: cityAliasParamsSchema,
+    });
+    const alias = await deleteCityAliasService(params.id, params.aliasId);
+    success(res, alias, "City alias deleted successfully");
+  },
+);
@@ -0,0 +1,85 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_cityAliases,
+  type CityAlias,
+  type NewCityAlias,
+} from "../../../shared/db/schema";
+import { and, eq, ne, sql } from "drizzle-orm";
+
+export const findCityAliasesRepo = async (
+  cityId: number,
+  client: DbClient = db,
+): Promise<CityAlias[]> => {
+  return await client
+    .select()
+    .from(TB_cityAliases)
+    .where(eq(TB_cityAliases.cityId, cityId))
+    .orderBy(TB_cityAliases.name);
+};
+
+export const findCityAliasByIdRepo = async (
+  cityId: number,
+  aliasId: number,
+  client: DbClient = db,
+): Promise<CityAlias | null> => {
+  const [alias] = await client
+    .select()
+    .from(TB_cityAliases)
+    .where(
+      and(eq(TB_cityAliases.id, aliasId), eq(TB_cityAliases.cityId, cityId)),
+    )
+    .limit(1);
+  return alias || null;
+};
+
+// Case-insensitive, optionally ignoring the alias being renamed
+export const findCityAliasByNameRepo = async (
+  cityId: number,
+  name: string,
+  excludeId?: number,
+): Promise<CityAlias | null> => {
+  const [alias] = await db
+    .select()
+    .from(TB_cityAliases)
+    .where(
+      and(
+        eq(TB_cityAliases.cityId, cityId),
+        sql`lower(${TB_cityAliases.name}) = lower(${name})`,
+        excludeId === undefined ? undefined : ne(TB_cityAliases.id, excludeId),
+      ),
+    )
+    .limit(1);
+  return alias || null;
+};
+
+export const createCityAliasRepo = async (
+  data: NewCityAlias,
+  client: DbClient = db,
+): Promise<CityAlias> => {
+  const [alias] = await client.insert(TB_cityAliases).values(data).returning();
+  return alias;
+};
+
+export const updateCityAliasRepo = async (
+  aliasId: number,
+  data: Partial<Pick<NewCityAlias, "name" | "type">>,
+  client: DbClient = db,
+): Promise<CityAlias> => {
+  const [alias] = await client
+    .update(TB_cityAliases)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(TB_cityAliases.id, aliasId))
+    .returning();
+  return alias;
+};
+
+export const deleteCityAliasRepo = async (
+  aliasId: number,
+  client: DbClient = db,
+): Promise<CityAlias> => {
+  const [alias] = await client
+    .delete(TB_cityAliases)
+    .where(eq(TB_cityAliases.id, aliasId))
+    .returning();
+  return alias;
+};
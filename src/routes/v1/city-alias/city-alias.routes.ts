@@ -0,0 +1,57 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import {
+  createCityAlias,
+  deleteCityAlias,
+  getCityAliases,
+  updateCityAlias,
+} from "./city-alias.controller";
+import {
+  cityAliasParamsSchema,
+  createCityAliasSchema,
+  updateCityAliasSchema,
+} from "./city-alias.validation";
+import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+
+// Mounted under `/city/:id/aliases`, behind the city router's auth
+const cityAliasRouter: Router = Router({ mergeParams: true });
+
+// GET /city/:id/aliases - List the alternate names of a city
+cityAliasRouter.get(
+  "/",
+  validate({
+    params: idParamSchema,
+  }),
+  getCityAliases,
+);
+
+// POST /city/:id/aliases - Add a historical, abbreviated or colloquial name
+cityAliasRouter.post(
+  "/",
+  validate({
+    params: idParamSchema,
+    body: createCityAliasSchema,
+  }),
+  createCityAlias,
+);
+
+// PUT /city/:id/aliases/:aliasId - Rename or retype an alias
+cityAliasRouter.put(
+  "/:aliasId",
+  validate({
+    params: cityAliasParamsSchema,
+    body: updateCityAliasSchema,
+  }),
+  updateCityAlias,
+);
+
+// DELETE /city/:id/aliases/:aliasId - Remove an alias
+cityAliasRouter.delete(
+  "/:aliasId",
+  validate({
+    params: cityAliasParamsSchema,
+  }),
+  deleteCityAlias,
+);
+
+export { cityAliasRouter };
@@ -0,0 +1,157 @@
+import {
+  createCityAliasRepo,
+  deleteCityAliasRepo,
+  findCityAliasByIdRepo,
+  findCityAliasByNameRepo,
+  findCityAliasesRepo,
+  updateCityAliasRepo,
+} from "./city-alias.repo";
+import { findCityByIdRepo } from "../city/city.repo";
+import { recordAuditService } from "../audit/audit.service";
+import { db } from "../../../shared/db";
+import {
+  type City,
+  type CityAlias,
+  type NewCityAlias,
+} from "../../../shared/db/schema";
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+
+type CityAliasInput = Pick<NewCityAlias, "name" | "type">;
+
+const getCityOrThrow = async (cityId: number): Promise<City> => {
+  const city = await findCityByIdRepo(cityId);
+  if (!city) {
+    throw new NotFoundError(`City with ID ${cityId} not found`);
+  }
+  return city;
+};
+
+const getAliasOrThrow = async (
+  cityId: number,
+  aliasId: number,
+): Promise<CityAlias> => {
+  const alias = await findCityAliasByIdRepo(cityId, aliasId);
+  if (!alias) {
+    throw new NotFoundError(
+      `Alias with ID ${aliasId} not found for city ${cityId}`,
+    );
+  }
+  return alias;
+};
+
+// An alias must add a new way of writing the city's name
+const assertNameAvailable = async (
+  city: City,
+  name: string,
+  excludeId?: number,
+) => {
+  if (name.toLowerCase() === city.name.toLowerCase()) {
+    throw new ConflictError(`'${name}' is already the name of this city`);
+  }
+  if (await findCityAliasByNameRepo(city.id, name, excludeId)) {
+    throw new ConflictError(`City ${city.id} already has the alias '${name}'`);
+  }
+};
+
+// Audited as an update of the city, keyed by alias id
+const aliasField = (alias: CityAlias) => `alias.${alias.id}`;
+const aliasValue = ({ name, type }: CityAlias) => ({ name, type });
+
+export const getCityAliasesService = async (
+  cityId: number,
+): Promise<CityAlias[]> => {
+  await getCityOrThrow(cityId);
+  return await findCityAliasesRepo(cityId);
+};
+
+export const createCityAliasService = async (
+  cityId: number,
+  data: CityAliasInput,
+): Promise<CityAlias> => {
+  const city = await getCityOrThrow(cityId);
+  await assertNameAvailable(city, data.name);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const alias = await createCityAliasRepo({ ...data, cityId }, tx);
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: cityId,
+          action: "update",
+          before: { [aliasField(alias)]: null },
+          after: { [aliasField(alias)]: aliasValue(alias) },
+        },
+        tx,
+      );
+      return alias;
+    });
+  } catch (error) {
+    throw new BadRequestError("Failed to create city alias", error);
+  }
+};
+
+export const updateCityAliasService = async (
+  cityId: number,
+  aliasId: number,
+  data: Partial<CityAliasInput>,
+): Promise<CityAlias> => {
+  const city = await getCityOrThrow(cityId);
+  const existingAlias = await getAliasOrThrow(cityId, aliasId);
+  if (data.name) {
+    await assertNameAvailable(city, data.name, aliasId);
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const alias = await updateCityAliasRepo(aliasId, data, tx);
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: cityId,
+          action: "update",
+          before: { [aliasField(alias)]: aliasValue(existingAlias) },
+          after: { [aliasField(alias)]: aliasValue(alias) },
+        },
+        tx,
+      );
+      return alias;
+    });
+  } catch (error) {
+    throw new BadRequestError("Failed to update city alias", error);
+  }
+};
+
+export const deleteCityAliasService = async (
+  cityId: number,
+  aliasId: number,
+): Promise<CityAlias> => {
+  await getAliasOrThrow(cityId, aliasId);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const alias = await deleteCityAliasRepo(aliasId, tx);
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: cityId,
+          action: "update",
+          before: { [aliasField(alias)]: aliasValue(alias) },
+          after: { [aliasField(alias)]: null },
+        },
+        tx,
+      );
+      return alias;
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to delete city alias", error);
+  }
+};
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { CITY_ALIAS_TYPES } from "../../../shared/db/schema";
+
+export const createCityAliasSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(255, "Name must not exceed 255 characters")
+    .trim(),
+  type: z.enum(CITY_ALIAS_TYPES),
+});
+
+export const updateCityAliasSchema = createCityAliasSchema.partial();
+
+export const cityAliasParamsSchema = z.object({
+  id: z.coerce.number(),
+  aliasId: z.coerce.number(),
+});
@@ -1,28 +1,86 @@
 import { Request, Response } from "express";
 import {
+  autocompleteCitiesService,
   createCityService,
   deleteCityService,
+  exportCitiesService,
   getCitiesByStateIdService,
   getCityByIdService,
+  getNearbyCitiesService,
+  importCitiesService,
+  restoreCityService,
+  patchCityService,
   updateCityService,
 } from "./city.service";
 import { success } from "../../../shared/api-response/response-handler";
 import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  parseImportStream,
+  resolveImportFormat,
+} from "../../../shared/utils/import-parser.util";
+import {
+  resolveExportFormat,
+  writeExport,
+} from "../../../shared/utils/export-writer.util";
+import { pointGeometry } from "../../../shared/utils/geo.util";
+import { requireIfMatch, setEntityTag } from "../../../shared/utils/etag.util";
+import { resolvePatchFormat } from "../../../shared/utils/json-patch.util";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import {
+  v_hard_delete,
+  v_include_deleted,
+} from "../../../shared/utils/_zod-utils/v-soft-delete";
+import {
+  cityAutocompleteQuerySchema,
+  cityExportQuerySchema,
+  cityListFiltersSchema,
+  cityNearbyQuerySchema,
+} from "./city.validation";
 
 export const getCityById = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const city = await getCityByIdService(Number(id));
+  const { query } = validateRequest(req, { query: v_include_deleted });
+  const city = await getCityByIdService(Number(id), query);
+  setEntityTag(res, city);
   success(res, city, "City retrieved successfully");
 });
 
 export const getCitiesByStateId = asyncHandler(
   async (req: Request, res: Response) => {
     const { stateId } = req.params;
-    const cities = await getCitiesByStateIdService(Number(stateId));
+    const { query } = validateRequest(req, { query: cityListFiltersSchema });
+    const cities = await getCitiesByStateIdService(Number(stateId), query);
     success(res, cities, "Cities retrieved successfully");
   },
 );
 
+// GET /city/autocomplete
+export const autocompleteCities = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, {
+      query: cityAutocompleteQuerySchema,
+    });
+    const suggestions = await autocompleteCitiesService(query);
+    success(res, suggestions, "City suggestions retrieved successfully");
+  },
+);
+
+// GET /city/nearby
+export const getNearbyCities = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { lat, lng, ...options } = validateRequest(req, {
+      query: cityNearbyQuerySchema,
+    }).query;
+    const cities = await getNearbyCitiesService({
+      latitude: lat,
+      longitude: lng,
+      ...options,
+    });
+    success(res, cities, "Nearby cities retrieved successfully");
+  },
+);
+
 export const createCity = asyncHandler(async (req: Request, res: Response) => {
   const city = await createCityService(req.body);
   success(res, city, "City created successfully");
@@ -30,12 +88,72 @@ export const createCity = asyncHandler(async (req: Request, res: Response) => {
 
 export const updateCity = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const city = await updateCityService(Number(id), req.body);
+  const ifMatch = requireIfMatch(req);
+  const city = await updateCityService(Number(id), req.body, { ifMatch });
+  setEntityTag(res, city);
+  success(res, city, "City updated successfully");
+});
+
+export const patchCity = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const ifMatch = requireIfMatch(req);
+  const format = resolvePatchFormat(req);
+  const city = await patchCityService(Number(id), format, req.body, {
+    ifMatch,
+  });
+  setEntityTag(res, city);
   success(res, city, "City updated successfully");
 });
 
 export const deleteCity = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const city = await deleteCityService(Number(id));
-  success(res, city, "City deleted successfully");
+  const { query } = validateRequest(req, { query: v_hard_delete });
+  const city = await deleteCityService(Number(id), query);
+  success(
+    res,
+    city,
+    query.hard ? "City purged successfully" : "City deleted successfully",
+  );
 });
+
+export const restoreCity = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const city = await restoreCityService(Number(id));
+  success(res, city, "City restored successfully");
+});
+
+// POST /city/import
+export const importCities = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, { query: v_import_options });
+    const format = resolveImportFormat(req, query.format);
+    const report = await importCitiesService(
+      parseImportStream(req, format),
+      query.dryRun,
+    );
+    success(
+      res,
+      report,
+      report.committed
+        ? "Cities imported successfully"
+        : "Cities import was not committed",
+    );
+  },
+);
+
+// GET /city/export
+export const exportCities = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { format, ...options } = validateRequest(req, {
+      query: cityExportQuerySchema,
+    }).query;
+    const { columns, rows } = exportCitiesService(options);
+    await writeExport(res, {
+      format: resolveExportFormat(req, format),
+      filename: "cities",
+      columns,
+      rows,
+      geometry: pointGeometry,
+    });
+  },
+);
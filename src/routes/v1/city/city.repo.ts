@@ -1,50 +1,421 @@
-import { db } from "../../../shared/db";
-import { TB_cities, type City, type NewCity } from "../../../shared/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  db,
+  type DbClient,
+  type FindOptions,
+  type UpdateOptions,
+} from "../../../shared/db";
+import {
+  TB_cities,
+  TB_cityAliases,
+  TB_countries,
+  TB_states,
+  type City,
+  type NewCity,
+} from "../../../shared/db/schema";
+import { and, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import {
+  type ListQueryConfig,
+  type ListQueryOptions,
+} from "../../../shared/db/list-query";
+import {
+  paginate,
+  type Page,
+  type PaginateOptions,
+} from "../../../shared/db/paginate";
+import { streamRows, type RowStream } from "../../../shared/db/stream-rows";
+import { distanceKm, withinBoundingBox } from "../../../shared/db/geo";
+import { qualified } from "../../../shared/db/qualified";
+import { boundingBox, type Coordinates } from "../../../shared/utils/geo.util";
 
-export const createCityRepo = async (data: NewCity): Promise<City> => {
-  const [city] = await db.insert(TB_cities).values(data).returning();
+export const cityListConfig: ListQueryConfig = {
+  columns: {
+    id: TB_cities.id,
+    name: TB_cities.name,
+    stateId: TB_cities.stateId,
+    latitude: TB_cities.latitude,
+    longitude: TB_cities.longitude,
+    createdAt: TB_cities.createdAt,
+    updatedAt: TB_cities.updatedAt,
+    deletedAt: TB_cities.deletedAt,
+    version: TB_cities.version,
+  },
+  filterable: [
+    "id",
+    "name",
+    "latitude",
+    "longitude",
+    "createdAt",
+    "updatedAt",
+    "deletedAt",
+  ],
+  sortable: ["id", "name", "createdAt", "updatedAt"],
+  defaultSort: { field: "name", direction: "asc" },
+};
+
+export interface AutocompleteOptions {
+  prefix: string;
+  countryCode?: string;
+  stateId?: number;
+  limit: number;
+}
+
+export interface CitySuggestion {
+  id: number;
+  name: string;
+  stateId: number;
+  state: string;
+  country: string;
+  countryCode: string;
+}
+
+export interface NearbyOptions extends Coordinates {
+  radiusKm: number;
+  limit: number;
+  stateId?: number;
+  countryId?: number;
+}
+
+export interface NearbyCity extends CitySuggestion {
+  latitude: number | null;
+  longitude: number | null;
+  distanceKm: number;
+}
+
+export type CityListOptions = PaginateOptions & { includeDeleted?: boolean };
+
+const notDeleted = (includeDeleted?: boolean) =>
+  includeDeleted ? undefined : isNull(TB_cities.deletedAt);
+
+export const createCityRepo = async (
+  data: NewCity,
+  client: DbClient = db,
+): Promise<City> => {
+  const [city] = await client.insert(TB_cities).values(data).returning();
   return city;
 };
 
-export const findCityByIdRepo = async (id: number): Promise<City | null> => {
-  const [city] = await db
+export const findCityByIdRepo = async (
+  id: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<City | null> => {
+  const [city] = await client
     .select()
     .from(TB_cities)
-    .where(eq(TB_cities.id, id))
+    .where(and(eq(TB_cities.id, id), notDeleted(includeDeleted)))
     .limit(1);
 
   return city || null;
 };
 
-export const findCitiesByStateIdRepo = async (
+export const findCityByNameRepo = async (
   stateId: number,
-): Promise<City[]> => {
-  return await db
+  name: string,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<City | null> => {
+  const [city] = await client
     .select()
     .from(TB_cities)
-    .where(eq(TB_cities.stateId, stateId))
-    .orderBy(TB_cities.name);
+    .where(
+      and(
+        eq(TB_cities.stateId, stateId),
+        sql`lower(${TB_cities.name}) = lower(${name})`,
+        notDeleted(includeDeleted),
+      ),
+    )
+    .limit(1);
+
+  return city || null;
+};
+
+export const findCitiesByStateIdRepo = async (
+  stateId: number,
+  options: CityListOptions = {},
+): Promise<Page<Partial<City>>> => {
+  const { includeDeleted, ...listOptions } = options;
+
+  return await paginate<Partial<City>>({
+    table: TB_cities,
+    idColumn: TB_cities.id,
+    config: cityListConfig,
+    options: listOptions,
+    where: and(eq(TB_cities.stateId, stateId), notDeleted(includeDeleted)),
+  });
+};
+
+export const streamCitiesRepo = (
+  options: ListQueryOptions & {
+    stateId?: number;
+    includeDeleted?: boolean;
+  } = {},
+): RowStream => {
+  const { stateId, includeDeleted, ...listOptions } = options;
+
+  return streamRows({
+    table: TB_cities,
+    idColumn: TB_cities.id,
+    config: cityListConfig,
+    options: listOptions,
+    where: and(
+      stateId === undefined ? undefined : eq(TB_cities.stateId, stateId),
+      notDeleted(includeDeleted),
+    ),
+  });
 };
 
 export const updateCityRepo = async (
   id: number,
   data: Partial<NewCity>,
+  { client = db, version }: UpdateOptions = {},
+): Promise<City | null> => {
+  const [city] = await client
+    .update(TB_cities)
+    .set({
+      ...data,
+      updatedAt: new Date(),
+      version: sql`${TB_cities.version} + 1`,
+    })
+    .where(
+      and(
+        eq(TB_cities.id, id),
+        version === undefined ? undefined : eq(TB_cities.version, version),
+      ),
+    )
+    .returning();
+  return city || null;
+};
+
+export const deleteCityRepo = async (
+  id: number,
+  client: DbClient = db,
+): Promise<City> => {
+  const [city] = await client
+    .update(TB_cities)
+    .set({ deletedAt: new Date(), version: sql`${TB_cities.version} + 1` })
+    .where(and(eq(TB_cities.id, id), isNull(TB_cities.deletedAt)))
+    .returning();
+
+  return city;
+};
+
+export const restoreCityRepo = async (
+  id: number,
+  client: DbClient = db,
 ): Promise<City> => {
-  const [city] = await db
+  const [city] = await client
     .update(TB_cities)
-    .set({ ...data, updatedAt: new Date() })
+    .set({
+      deletedAt: null,
+      updatedAt: new Date(),
+      version: sql`${TB_cities.version} + 1`,
+    })
     .where(eq(TB_cities.id, id))
     .returning();
 
   return city;
 };
 
-export const deleteCityRepo = async (id: number): Promise<City> => {
-  const [city] = await db
+export const purgeCityRepo = async (
+  id: number,
+  client: DbClient = db,
+): Promise<City> => {
+  const [city] = await client
     .delete(TB_cities)
     .where(eq(TB_cities.id, id))
     .returning();
 
   return city;
 };
+
+// Unpaginated, for delete policies that have to touch every child
+export const findAllCitiesByStateIdsRepo = async (
+  stateIds: number[],
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<City[]> => {
+  if (!stateIds.length) {
+    return [];
+  }
+
+  return await client
+    .select()
+    .from(TB_cities)
+    .where(
+      and(inArray(TB_cities.stateId, stateIds), notDeleted(includeDeleted)),
+    )
+    .orderBy(TB_cities.id);
+};
+
+export const deleteCitiesByStateIdsRepo = async (
+  stateIds: number[],
+  client: DbClient = db,
+): Promise<City[]> => {
+  if (!stateIds.length) {
+    return [];
+  }
+
+  return await client
+    .update(TB_cities)
+    .set({ deletedAt: new Date(), version: sql`${TB_cities.version} + 1` })
+    .where(
+      and(inArray(TB_cities.stateId, stateIds), isNull(TB_cities.deletedAt)),
+    )
+    .returning();
+};
+
+export const purgeCitiesByStateIdsRepo = async (
+  stateIds: number[],
+  client: DbClient = db,
+): Promise<City[]> => {
+  if (!stateIds.length) {
+    return [];
+  }
+
+  return await client
+    .delete(TB_cities)
+    .where(inArray(TB_cities.stateId, stateIds))
+    .returning();
+};
+
+export const reassignCitiesRepo = async (
+  fromStateId: number,
+  toStateId: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<City[]> => {
+  return await client
+    .update(TB_cities)
+    .set({
+      stateId: toStateId,
+      updatedAt: new Date(),
+      version: sql`${TB_cities.version} + 1`,
+    })
+    .where(and(eq(TB_cities.stateId, fromStateId), notDeleted(includeDeleted)))
+    .returning();
+};
+
+/**
+ * Cities whose name, or any later word of it, starts with the prefix. Names
+ * starting with the prefix rank first and shorter names win ties, so "York"
+ * beats "Yorktown" and both beat "New York".
+ */
+export const autocompleteCitiesRepo = async ({
+  prefix,
+  countryCode,
+  stateId,
+  limit,
+}: AutocompleteOptions): Promise<CitySuggestion[]> => {
+  const term = prefix.toLowerCase().replace(/[\\%_]/g, (char) => `\\${char}`);
+  const startsWithPattern = `${term}%`;
+  const wordPattern = `% ${term}%`;
+
+  // An alias match still suggests the city under its canonical name
+  const aliasStartsWith = sql`select ${qualified(TB_cityAliases.cityId)} from ${TB_cityAliases}
+    where lower(${qualified(TB_cityAliases.name)}) like ${startsWithPattern}`;
+  // Unioned rather than or-ed so every branch keeps its index: the
+  // text_pattern_ops ones for the anchored prefix, the trigram ones for a
+  // later word
+  const candidates = sql`select ${qualified(TB_cities.id)} from ${TB_cities}
+      where lower(${qualified(TB_cities.name)}) like ${startsWithPattern}
+    union ${aliasStartsWith}
+    union select ${qualified(TB_cities.id)} from ${TB_cities}
+      where ${qualified(TB_cities.name)} ilike ${wordPattern}
+    union select ${qualified(TB_cityAliases.cityId)} from ${TB_cityAliases}
+      where ${qualified(TB_cityAliases.name)} ilike ${wordPattern}`;
+  const startsWith = sql`(lower(${TB_cities.name}) like ${startsWithPattern}
+    or ${TB_cities.id} in (${aliasStartsWith}))`;
+
+  return await db
+    .select({
+      id: TB_cities.id,
+      name: TB_cities.name,
+      stateId: TB_cities.stateId,
+      state: TB_states.name,
+      country: TB_countries.name,
+      countryCode: TB_countries.code,
+    })
+    .from(TB_cities)
+    .innerJoin(TB_states, eq(TB_states.id, TB_cities.stateId))
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_states.countryId))
+    .where(
+      and(
+        sql`${TB_cities.id} in (${candidates})`,
+        stateId === undefined ? undefined : eq(TB_cities.stateId, stateId),
+        countryCode
+          ? sql`upper(${TB_countries.code}) = upper(${countryCode})`
+          : undefined,
+        isNull(TB_cities.deletedAt),
+        isNull(TB_states.deletedAt),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(
+      sql`${startsWith} desc`,
+      sql`length(${TB_cities.name})`,
+      TB_cities.name,
+    )
+    .limit(limit);
+};
+
+export const findNearbyCitiesRepo = async ({
+  radiusKm,
+  limit,
+  stateId,
+  countryId,
+  ...point
+}: NearbyOptions): Promise<NearbyCity[]> => {
+  const distance = distanceKm(TB_cities, point);
+
+  return await db
+    .select({
+      id: TB_cities.id,
+      name: TB_cities.name,
+      stateId: TB_cities.stateId,
+      state: TB_states.name,
+      country: TB_countries.name,
+      countryCode: TB_countries.code,
+      latitude: TB_cities.latitude,
+      longitude: TB_cities.longitude,
+      distanceKm: distance,
+    })
+    .from(TB_cities)
+    .innerJoin(TB_states, eq(TB_states.id, TB_cities.stateId))
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_states.countryId))
+    .where(
+      and(
+        withinBoundingBox(TB_cities, boundingBox(point, radiusKm)),
+        sql`${distance} <= ${radiusKm}`,
+        stateId === undefined ? undefined : eq(TB_cities.stateId, stateId),
+        countryId === undefined
+          ? undefined
+          : eq(TB_states.countryId, countryId),
+        isNull(TB_cities.deletedAt),
+        isNull(TB_states.deletedAt),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(distance, TB_cities.id)
+    .limit(limit);
+};
+
+/**
+ * Cities ranked by name within their state, so callers can join them to
+ * states and keep only a window of children per state without N+1 queries.
+ * Soft-deleted cities are never ranked.
+ */
+export const rankedCitiesSubquery = (scope?: SQL) =>
+  db
+    .select({
+      id: TB_cities.id,
+      name: TB_cities.name,
+      stateId: TB_cities.stateId,
+      latitude: TB_cities.latitude,
+      longitude: TB_cities.longitude,
+      createdAt: TB_cities.createdAt,
+      updatedAt: TB_cities.updatedAt,
+      deletedAt: TB_cities.deletedAt,
+      version: TB_cities.version,
+      rank: sql<number>`row_number() over (partition by ${TB_cities.stateId} order by ${TB_cities.name}, ${TB_cities.id})`.as(
+        "rank",
+      ),
+    })
+    .from(TB_cities)
+    .where(and(scope, isNull(TB_cities.deletedAt)))
+    .as("ranked_cities");
@@ -2,18 +2,40 @@ import { Router } from "express";
 import { validate } from "../../../shared/middlewares/validation.middleware";
 import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
 import {
+  guardHardDelete,
+  guardIncludeDeleted,
+  guardRestore,
+} from "../../../shared/middlewares/soft-delete.middleware";
+import {
+  autocompleteCities,
   createCity,
   deleteCity,
+  exportCities,
   getCitiesByStateId,
   getCityById,
+  getNearbyCities,
+  importCities,
+  patchCity,
+  restoreCity,
   updateCity,
 } from "./city.controller";
 import {
+  cityAutocompleteQuerySchema,
+  cityExportQuerySchema,
+  cityListFiltersSchema,
+  cityNearbyQuerySchema,
   createCitySchema,
   stateIdParamSchema,
   updateCitySchema,
 } from "./city.validation";
+import { createTranslationRouter } from "../translation/translation.routes";
+import { cityAliasRouter } from "../city-alias/city-alias.routes";
 import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import {
+  v_hard_delete,
+  v_include_deleted,
+} from "../../../shared/utils/_zod-utils/v-soft-delete";
 
 const cityRouter: Router = Router();
 
@@ -23,15 +45,47 @@ cityRouter.get(
   "/state/:stateId",
   validate({
     params: stateIdParamSchema,
+    query: cityListFiltersSchema,
   }),
+  guardIncludeDeleted,
   getCitiesByStateId,
 );
 
+cityRouter.get(
+  "/autocomplete",
+  validate({
+    query: cityAutocompleteQuerySchema,
+  }),
+  autocompleteCities,
+);
+
+cityRouter.get(
+  "/nearby",
+  validate({
+    query: cityNearbyQuerySchema,
+  }),
+  getNearbyCities,
+);
+
+cityRouter.get(
+  "/export",
+  validate({
+    query: cityExportQuerySchema,
+  }),
+  guardIncludeDeleted,
+  exportCities,
+);
+
+cityRouter.use("/:id/translations", createTranslationRouter("city"));
+cityRouter.use("/:id/aliases", cityAliasRouter);
+
 cityRouter.get(
   "/:id",
   validate({
     params: idParamSchema,
+    query: v_include_deleted,
   }),
+  guardIncludeDeleted,
   getCityById,
 );
 
@@ -43,6 +97,14 @@ cityRouter.post(
   createCity,
 );
 
+cityRouter.post(
+  "/import",
+  validate({
+    query: v_import_options,
+  }),
+  importCities,
+);
+
 cityRouter.put(
   "/:id",
   validate({
@@ -52,11 +114,30 @@ cityRouter.put(
   updateCity,
 );
 
+cityRouter.patch(
+  "/:id",
+  validate({
+    params: idParamSchema,
+  }),
+  patchCity,
+);
+
+cityRouter.post(
+  "/:id/restore",
+  guardRestore,
+  validate({
+    params: idParamSchema,
+  }),
+  restoreCity,
+);
+
 cityRouter.delete(
   "/:id",
   validate({
     params: idParamSchema,
+    query: v_hard_delete,
   }),
+  guardHardDelete,
   deleteCity,
 );
 
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createCityService, updateCityService } from "./city.service";
+import { createCityRepo, findCityByIdRepo, updateCityRepo } from "./city.repo";
+import { findStateByIdRepo } from "../state/state.repo";
+import { BadRequestError } from "../../../shared/utils/http-errors.util";
+
+vi.mock("../../../shared/db", () => ({
+  db: { transaction: (run: (tx: object) => unknown) => run({}) },
+}));
+vi.mock("./city.repo");
+vi.mock("../state/state.repo");
+vi.mock("../audit/audit.service");
+vi.mock("../../../shared/kafka/geo-events");
+
+const LIVE_STATE = 1;
+const DELETED_STATE = 2;
+const city = { id: 9, name: "Munich", stateId: LIVE_STATE, version: 1 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  // Deleted states are hidden from the finder, like any other caller sees them
+  vi.mocked(findStateByIdRepo).mockImplementation(async (id) =>
+    id === LIVE_STATE ? ({ id } as never) : null,
+  );
+  vi.mocked(findCityByIdRepo).mockResolvedValue(city as never);
+  vi.mocked(createCityRepo).mockResolvedValue(city as never);
+  vi.mocked(updateCityRepo).mockResolvedValue(city as never);
+});
+
+describe("createCityService", () => {
+  it("creates a city under a live state", async () => {
+    await expect(
+      createCityService({ name: "Munich", stateId: LIVE_STATE }),
+    ).resolves.toEqual(city);
+  });
+
+  it("rejects a deleted state", async () => {
+    await expect(
+      createCityService({ name: "Munich", stateId: DELETED_STATE }),
+    ).rejects.toThrow(
+      new BadRequestError(`State with ID ${DELETED_STATE} does not exist.`),
+    );
+    expect(createCityRepo).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateCityService", () => {
+  it("moves a city to a live state", async () => {
+    await expect(
+      updateCityService(city.id, { stateId: LIVE_STATE }),
+    ).resolves.toEqual(city);
+  });
+
+  it("rejects moving a city to a deleted state", async () => {
+    await expect(
+      updateCityService(city.id, { stateId: DELETED_STATE }),
+    ).rejects.toThrow(BadRequestError);
+    expect(updateCityRepo).not.toHaveBeenCalled();
+  });
+
+  it("leaves the state alone when it is not changed", async () => {
+    await updateCityService(city.id, { name: "München" });
+
+    expect(findStateByIdRepo).not.toHaveBeenCalled();
+  });
+});
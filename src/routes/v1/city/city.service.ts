@@ -1,19 +1,88 @@
 import {
   createCityRepo,
   deleteCityRepo,
+  purgeCityRepo,
+  restoreCityRepo,
   findCitiesByStateIdRepo,
   findCityByIdRepo,
+  findCityByNameRepo,
   updateCityRepo,
+  streamCitiesRepo,
+  autocompleteCitiesRepo,
+  findNearbyCitiesRepo,
+  type AutocompleteOptions,
+  type NearbyCity,
+  type NearbyOptions,
+  type CityListOptions,
+  type CitySuggestion,
 } from "./city.repo";
+import { APP_SETTINGS } from "../../../shared/app-settings";
+import { LruCache } from "../../../shared/utils/lru-cache.util";
+import { findStateByIdRepo } from "../state/state.repo";
+import { db, type FindOptions } from "../../../shared/db";
 import { type City, type NewCity } from "../../../shared/db/schema";
+import { runImport, type ImportReport } from "../../../shared/db/bulk-import";
+import { type RowStream } from "../../../shared/db/stream-rows";
+import { type ListQueryOptions } from "../../../shared/db/list-query";
+import { type ParsedImportRow } from "../../../shared/utils/import-parser.util";
+import { recordAuditService } from "../audit/audit.service";
+import {
+  publishGeoEvent,
+  publishGeoEvents,
+  type GeoChange,
+} from "../../../shared/kafka/geo-events";
+import {
+  localizeOneService,
+  localizeService,
+} from "../translation/translation.service";
+import { entityTag, matchesEntityTag } from "../../../shared/utils/etag.util";
+import {
+  patchEntity,
+  type PatchFormat,
+} from "../../../shared/utils/json-patch.util";
+import { resolveStateIdService } from "../state/state.service";
+import { stateRefSchema } from "../state/state.validation";
+import { createCitySchema } from "./city.validation";
+import {
+  coordinatePairIssue,
+  hasCoordinatePair,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { type Page } from "../../../shared/db/paginate";
 import {
   BadRequestError,
+  ConflictError,
+  HttpError,
+  PreconditionFailedError,
   NotFoundError,
 } from "../../../shared/utils/http-errors.util";
 
+// The foreign key alone would accept a soft-deleted state
+const assertStateExists = async (stateId: number) => {
+  const state = await findStateByIdRepo(stateId);
+  if (!state) {
+    throw new BadRequestError(`State with ID ${stateId} does not exist.`);
+  }
+};
+
 export const createCityService = async (data: NewCity): Promise<City> => {
+  await assertStateExists(data.stateId);
+
   try {
-    return await createCityRepo(data);
+    const city = await db.transaction(async (tx) => {
+      const city = await createCityRepo(data, tx);
+      await recordAuditService(
+        { entity: "city", entityId: city.id, action: "create", after: city },
+        tx,
+      );
+      return city;
+    });
+    publishGeoEvent({
+      entity: "city",
+      action: "created",
+      id: city.id,
+      after: city,
+    });
+    return city;
   } catch (error: any) {
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
@@ -26,37 +95,139 @@ export const createCityService = async (data: NewCity): Promise<City> => {
   }
 };
 
-export const getCityByIdService = async (id: number): Promise<City> => {
-  const city = await findCityByIdRepo(id);
+export const getCityByIdService = async (
+  id: number,
+  { includeDeleted }: Pick<FindOptions, "includeDeleted"> = {},
+): Promise<City> => {
+  const city = await findCityByIdRepo(id, { includeDeleted });
   if (!city) {
     throw new NotFoundError(`City with ID ${id} not found`);
   }
 
-  return city;
+  return await localizeOneService("city", city);
 };
 
 export const getCitiesByStateIdService = async (
   stateId: number,
-): Promise<City[]> => {
+  options?: CityListOptions,
+): Promise<Page<Partial<City>>> => {
   try {
-    return await findCitiesByStateIdRepo(stateId);
+    const page = await findCitiesByStateIdRepo(stateId, options);
+    return { ...page, rows: await localizeService("city", page.rows) };
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to fetch cities for state", error);
   }
 };
 
+// Per process, so hot prefixes skip the database; entries expire after the TTL
+const autocompleteCache = new LruCache<string, CitySuggestion[]>(
+  APP_SETTINGS.AUTOCOMPLETE.CACHE_SIZE,
+  APP_SETTINGS.AUTOCOMPLETE.CACHE_TTL_MS,
+);
+
+export const autocompleteCitiesService = async (
+  options: AutocompleteOptions,
+): Promise<CitySuggestion[]> => {
+  const key = [
+    options.prefix.toLowerCase(),
+    options.countryCode?.toUpperCase() ?? "",
+    options.stateId ?? "",
+    options.limit,
+  ].join("|");
+
+  try {
+    let suggestions = autocompleteCache.get(key);
+    if (!suggestions) {
+      suggestions = await autocompleteCitiesRepo(options);
+      autocompleteCache.set(key, suggestions);
+    }
+
+    // The cache holds default names, localized per request on the way out
+    return await localizeService("city", suggestions);
+  } catch (error) {
+    throw new BadRequestError("Failed to autocomplete cities", error);
+  }
+};
+
+export const getNearbyCitiesService = async (
+  options: NearbyOptions,
+): Promise<NearbyCity[]> => {
+  try {
+    return await localizeService("city", await findNearbyCitiesRepo(options));
+  } catch (error) {
+    throw new BadRequestError("Failed to find nearby cities", error);
+  }
+};
+
+export const exportCitiesService = (
+  options?: ListQueryOptions & { stateId?: number; includeDeleted?: boolean },
+): RowStream => {
+  return streamCitiesRepo(options);
+};
+
 export const updateCityService = async (
   id: number,
   data: Partial<NewCity>,
+  { ifMatch }: { ifMatch?: string } = {},
 ): Promise<City> => {
   const existingCity = await findCityByIdRepo(id);
   if (!existingCity) {
     throw new NotFoundError(`City with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingCity)) {
+    throw new PreconditionFailedError(
+      `City with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingCity) },
+    );
+  }
+
+  if (!hasCoordinatePair({ ...existingCity, ...data })) {
+    throw new BadRequestError(coordinatePairIssue.message);
+  }
+  if (data.stateId !== undefined) {
+    await assertStateExists(data.stateId);
+  }
+
   try {
-    return await updateCityRepo(id, data);
+    const city = await db.transaction(async (tx) => {
+      // Guards against a concurrent write landing after the check above
+      const city = await updateCityRepo(id, data, {
+        client: tx,
+        version: existingCity.version,
+      });
+      if (!city) {
+        throw new PreconditionFailedError(
+          `City with ID ${id} has been modified, fetch it again before updating`,
+        );
+      }
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: id,
+          action: "update",
+          before: existingCity,
+          after: city,
+        },
+        tx,
+      );
+      return city;
+    });
+    publishGeoEvent({
+      entity: "city",
+      action: "updated",
+      id,
+      before: existingCity,
+      after: city,
+    });
+    return city;
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
         `State with ID ${data.stateId} does not exist.`,
@@ -68,14 +239,66 @@ export const updateCityService = async (
   }
 };
 
-export const deleteCityService = async (id: number): Promise<City> => {
+export const patchCityService = async (
+  id: number,
+  format: PatchFormat,
+  patch: unknown,
+  { ifMatch }: { ifMatch?: string } = {},
+): Promise<City> => {
   const existingCity = await findCityByIdRepo(id);
   if (!existingCity) {
     throw new NotFoundError(`City with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingCity)) {
+    throw new PreconditionFailedError(
+      `City with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingCity) },
+    );
+  }
+
+  const data = patchEntity(format, existingCity, patch, createCitySchema);
+
+  // Pin the update to the version the patch was applied to
+  return await updateCityService(id, data, {
+    ifMatch: entityTag(existingCity),
+  });
+};
+
+export const deleteCityService = async (
+  id: number,
+  { hard = false }: { hard?: boolean } = {},
+): Promise<City> => {
+  const existingCity = await findCityByIdRepo(id, { includeDeleted: hard });
+  if (!existingCity) {
+    throw new NotFoundError(`City with ID ${id} not found`);
+  }
+
   try {
-    return await deleteCityRepo(id);
+    const city = await db.transaction(async (tx) => {
+      const city = hard
+        ? await purgeCityRepo(id, tx)
+        : await deleteCityRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: id,
+          action: "delete",
+          before: existingCity,
+          after: hard ? null : city,
+        },
+        tx,
+      );
+      return city;
+    });
+    publishGeoEvent({
+      entity: "city",
+      action: "deleted",
+      id,
+      before: existingCity,
+      after: hard ? null : city,
+    });
+    return city;
   } catch (error: any) {
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
@@ -87,3 +310,90 @@ export const deleteCityService = async (id: number): Promise<City> => {
     throw new BadRequestError("Failed to delete city", error);
   }
 };
+
+export const restoreCityService = async (id: number): Promise<City> => {
+  const existingCity = await findCityByIdRepo(id, { includeDeleted: true });
+  if (!existingCity) {
+    throw new NotFoundError(`City with ID ${id} not found`);
+  }
+  if (!existingCity.deletedAt) {
+    throw new BadRequestError(`City with ID ${id} is not deleted`);
+  }
+
+  const state = await findStateByIdRepo(existingCity.stateId);
+  if (!state) {
+    throw new ConflictError(
+      `State with ID ${existingCity.stateId} is deleted, restore it first.`,
+    );
+  }
+
+  try {
+    const city = await db.transaction(async (tx) => {
+      const city = await restoreCityRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "city",
+          entityId: id,
+          action: "restore",
+          before: existingCity,
+          after: city,
+        },
+        tx,
+      );
+      return city;
+    });
+    publishGeoEvent({
+      entity: "city",
+      action: "updated",
+      id,
+      before: existingCity,
+      after: city,
+    });
+    return city;
+  } catch (error) {
+    throw new BadRequestError("Failed to restore city", error);
+  }
+};
+
+export const importCitiesService = async (
+  rows: AsyncIterable<ParsedImportRow>,
+  dryRun: boolean,
+): Promise<ImportReport> => {
+  const changes: GeoChange[] = [];
+  const report = await runImport({
+    rows,
+    dryRun,
+    importRow: async (record, tx) => {
+      const stateId = await resolveStateIdService(
+        stateRefSchema.parse(record),
+        tx,
+      );
+      const data = createCitySchema.parse({ ...record, stateId });
+
+      const existingCity = await findCityByNameRepo(data.stateId, data.name, {
+        client: tx,
+      });
+      if (existingCity) {
+        return "skipped";
+      }
+
+      const city = await createCityRepo(data, tx);
+      await recordAuditService(
+        { entity: "city", entityId: city.id, action: "create", after: city },
+        tx,
+      );
+      changes.push({
+        entity: "city",
+        action: "created",
+        id: city.id,
+        after: city,
+      });
+      return "created";
+    },
+  });
+
+  if (report.committed) {
+    publishGeoEvents(changes);
+  }
+  return report;
+};
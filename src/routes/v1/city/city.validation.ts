@@ -1,26 +1,70 @@
 import { z } from "zod";
+import { v_list_filters } from "../../../shared/utils/_zod-utils/v-list-filters";
+import { v_export_options } from "../../../shared/utils/_zod-utils/v-export-options";
+import {
+  coordinatePairIssue,
+  hasCoordinatePair,
+  v_coordinates,
+  v_latitude,
+  v_longitude,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
 
-export const createCitySchema = z.object({
-  name: z
-    .string()
-    .min(2, "Name must be at least 2 characters")
-    .max(255, "Name must not exceed 255 characters")
-    .trim(),
-  stateId: z.number().int("State ID must be an integer"),
-});
+export const createCitySchema = z
+  .object({
+    name: z
+      .string()
+      .min(2, "Name must be at least 2 characters")
+      .max(255, "Name must not exceed 255 characters")
+      .trim(),
+    stateId: z.number().int("State ID must be an integer"),
+  })
+  .merge(v_coordinates)
+  .refine(hasCoordinatePair, coordinatePairIssue);
 
-export const updateCitySchema = z.object({
-  name: z
-    .string()
-    .min(2, "Name must be at least 2 characters")
-    .max(255, "Name must not exceed 255 characters")
-    .trim()
-    .optional(),
-  stateId: z.number().int("State ID must be an integer").optional(),
-});
+export const updateCitySchema = z
+  .object({
+    name: z
+      .string()
+      .min(2, "Name must be at least 2 characters")
+      .max(255, "Name must not exceed 255 characters")
+      .trim()
+      .optional(),
+    stateId: z.number().int("State ID must be an integer").optional(),
+  })
+  .merge(v_coordinates);
 
 export const stateIdParamSchema = z.object({
   stateId: z.string().refine((val) => !isNaN(Number(val)), {
     message: "State ID must be a valid number",
   }),
 });
+
+export const cityListFiltersSchema = v_list_filters;
+
+export const cityExportQuerySchema = cityListFiltersSchema
+  .merge(v_export_options)
+  .extend({
+    stateId: z.coerce.number().int("State ID must be an integer").optional(),
+  });
+
+export const cityAutocompleteQuerySchema = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .min(1, "Prefix is required")
+    .max(100, "Prefix must not exceed 100 characters"),
+  countryCode: z.string().trim().max(10).optional(),
+  stateId: z.coerce.number().int("State ID must be an integer").optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+
+export const cityNearbyQuerySchema = z.object({
+  lat: v_latitude,
+  lng: v_longitude,
+  radiusKm: z.coerce
+    .number()
+    .positive("Radius must be positive")
+    .max(500, "Radius must not exceed 500 km")
+    .default(25),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
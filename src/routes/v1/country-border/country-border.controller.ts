@@ -0,0 +1,73 @@
+import { Request, Response } from "express";
+import {
+  deleteCountryBorderService,
+  findCountryPathService,
+  getCountryBordersService,
+  getCountryNeighborsService,
+  setCountryBorderService,
+} from "./country-border.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  borderBodySchema,
+  borderParamsSchema,
+  countryPathQuerySchema,
+} from "./country-border.validation";
+
+// GET /countries/:id/borders
+export const getCountryBorders = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const borders = await getCountryBordersService(Number(id));
+    success(res, borders, "Country borders retrieved successfully");
+  },
+);
+
+// PUT /countries/:id/borders/:neighborId
+export const setCountryBorder = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { params, body } = validateRequest(req, {
+      params: borderParamsSchema,
+      body: borderBodySchema,
+    });
+    const border = await setCountryBorderService(
+      params.id,
+      params.neighborId,
+      body.lengthKm,
+    );
+    success(res, border, "Country border saved successfully");
+  },
+);
+
+// DELETE /countries/:id/borders/:neighborId
+export const deleteCountryBorder = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { params } = validateRequest(req, { params: borderParamsSchema });
+    const border = await deleteCountryBorderService(
+      params.id,
+      params.neighborId,
+    );
+    success(res, border, "Country border deleted successfully");
+  },
+);
+
+// GET /countries/:id/neighbors
+export const getCountryNeighbors = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const neighbors = await getCountryNeighborsService(Number(id));
+    success(res, neighbors, "Neighbors retrieved successfully");
+  },
+);
+
+// GET /countries/path
+export const getCountryPath = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { from, to } = validateRequest(req, {
+      query: countryPathQuerySchema,
+    }).query;
+    const path = await findCountryPathService(from, to);
+    success(res, path, "Route retrieved successfully");
+  },
+);
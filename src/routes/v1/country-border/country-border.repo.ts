@@ -0,0 +1,145 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_countries,
+  TB_countryBorders,
+  type Country,
+  type CountryBorder,
+} from "../../../shared/db/schema";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+export interface BorderEdge {
+  countryId: number;
+  neighborId: number;
+}
+
+export const findBordersRepo = async (
+  countryId: number,
+): Promise<CountryBorder[]> => {
+  return await db
+    .select({
+      countryId: TB_countryBorders.countryId,
+      neighborId: TB_countryBorders.neighborId,
+      lengthKm: TB_countryBorders.lengthKm,
+      createdAt: TB_countryBorders.createdAt,
+      updatedAt: TB_countryBorders.updatedAt,
+    })
+    .from(TB_countryBorders)
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_countryBorders.neighborId))
+    .where(
+      and(
+        eq(TB_countryBorders.countryId, countryId),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(TB_countries.name);
+};
+
+export const findNeighborsRepo = async (
+  countryId: number,
+): Promise<Country[]> => {
+  const rows = await db
+    .select({ country: TB_countries })
+    .from(TB_countryBorders)
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_countryBorders.neighborId))
+    .where(
+      and(
+        eq(TB_countryBorders.countryId, countryId),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(TB_countries.name);
+  return rows.map(({ country }) => country);
+};
+
+export const findBorderRepo = async (
+  countryId: number,
+  neighborId: number,
+  client: DbClient = db,
+): Promise<CountryBorder | null> => {
+  const [border] = await client
+    .select()
+    .from(TB_countryBorders)
+    .where(
+      and(
+        eq(TB_countryBorders.countryId, countryId),
+        eq(TB_countryBorders.neighborId, neighborId),
+      ),
+    )
+    .limit(1);
+  return border || null;
+};
+
+// Writes both directions, returning the one seen from `countryId`
+export const upsertBorderRepo = async (
+  countryId: number,
+  neighborId: number,
+  lengthKm: number | null,
+  client: DbClient = db,
+): Promise<CountryBorder> => {
+  const rows = await client
+    .insert(TB_countryBorders)
+    .values([
+      { countryId, neighborId, lengthKm },
+      { countryId: neighborId, neighborId: countryId, lengthKm },
+    ])
+    .onConflictDoUpdate({
+      target: [TB_countryBorders.countryId, TB_countryBorders.neighborId],
+      set: { lengthKm, updatedAt: new Date() },
+    })
+    .returning();
+  return rows.find((row) => row.countryId === countryId)!;
+};
+
+export const deleteBorderRepo = async (
+  countryId: number,
+  neighborId: number,
+  client: DbClient = db,
+): Promise<CountryBorder | null> => {
+  const rows = await client
+    .delete(TB_countryBorders)
+    .where(
+      or(
+        and(
+          eq(TB_countryBorders.countryId, countryId),
+          eq(TB_countryBorders.neighborId, neighborId),
+        ),
+        and(
+          eq(TB_countryBorders.countryId, neighborId),
+          eq(TB_countryBorders.neighborId, countryId),
+        ),
+      ),
+    )
+    .returning();
+  return rows.find((row) => row.countryId === countryId) || null;
+};
+
+// Every border between two live countries, for route finding
+export const findBorderGraphRepo = async (): Promise<BorderEdge[]> => {
+  const neighbor = alias(TB_countries, "neighbor");
+
+  return await db
+    .select({
+      countryId: TB_countryBorders.countryId,
+      neighborId: TB_countryBorders.neighborId,
+    })
+    .from(TB_countryBorders)
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_countryBorders.countryId))
+    .innerJoin(neighbor, eq(neighbor.id, TB_countryBorders.neighborId))
+    .where(and(isNull(TB_countries.deletedAt), isNull(neighbor.deletedAt)));
+};
+
+export const findCountrySummariesRepo = async (
+  ids: number[],
+): Promise<Pick<Country, "id" | "name" | "code">[]> => {
+  if (!ids.length) return [];
+
+  return await db
+    .select({
+      id: TB_countries.id,
+      name: TB_countries.name,
+      code: TB_countries.code,
+    })
+    .from(TB_countries)
+    .where(inArray(TB_countries.id, ids));
+};
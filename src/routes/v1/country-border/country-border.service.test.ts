@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findCountryPathService } from "./country-border.service";
+import {
+  findBorderGraphRepo,
+  findCountrySummariesRepo,
+} from "./country-border.repo";
+import { findCountryByAnyCodeRepo } from "../country/country.repo";
+import { NotFoundError } from "../../../shared/utils/http-errors.util";
+
+vi.mock("../../../shared/db", () => ({ db: {} }));
+vi.mock("./country-border.repo");
+vi.mock("../country/country.repo");
+
+// Borders are stored in both directions
+const BORDERS: [string, string][] = [
+  ["FR", "ES"],
+  ["FR", "DE"],
+  ["FR", "BE"],
+  ["BE", "DE"],
+  ["DE", "PL"],
+  ["ES", "PT"],
+];
+const CODES = ["FR", "ES", "DE", "BE", "PL", "PT", "IS"];
+const idOf = (code: string) => CODES.indexOf(code) + 1;
+const codeOf = (id: number) => CODES[id - 1];
+
+beforeEach(() => {
+  vi.mocked(findCountryByAnyCodeRepo).mockImplementation(async (code) =>
+    CODES.includes(code)
+      ? ({ id: idOf(code), code, name: code } as never)
+      : null,
+  );
+  vi.mocked(findBorderGraphRepo).mockResolvedValue(
+    BORDERS.flatMap(([a, b]) => [
+      { countryId: idOf(a), neighborId: idOf(b) },
+      { countryId: idOf(b), neighborId: idOf(a) },
+    ]),
+  );
+  vi.mocked(findCountrySummariesRepo).mockImplementation(async (ids) =>
+    ids.map((id) => ({ id, code: codeOf(id), name: codeOf(id) })),
+  );
+});
+
+const route = async (from: string, to: string) => {
+  const { path, hops } = await findCountryPathService(from, to);
+  return { hops, path: path.map((country) => country.code) };
+};
+
+describe("findCountryPathService", () => {
+  it("crosses the fewest borders", async () => {
+    expect(await route("PT", "PL")).toEqual({
+      hops: 4,
+      path: ["PT", "ES", "FR", "DE", "PL"],
+    });
+  });
+
+  it("prefers a direct border", async () => {
+    expect(await route("BE", "DE")).toEqual({ hops: 1, path: ["BE", "DE"] });
+  });
+
+  it("stays put for the same country", async () => {
+    expect(await route("FR", "FR")).toEqual({ hops: 0, path: ["FR"] });
+  });
+
+  it("reports countries without a land route", async () => {
+    await expect(route("FR", "IS")).rejects.toThrow(
+      new NotFoundError("No land route between FR and IS"),
+    );
+  });
+
+  it("reports unknown codes", async () => {
+    await expect(route("FR", "XX")).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  deleteBorderRepo,
+  findBorderGraphRepo,
+  findBorderRepo,
+  findBordersRepo,
+  findCountrySummariesRepo,
+  findNeighborsRepo,
+  upsertBorderRepo,
+  type BorderEdge,
+} from "./country-border.repo";
+import {
+  findCountryByAnyCodeRepo,
+  findCountryByIdRepo,
+} from "../country/country.repo";
+import { recordAuditService } from "../audit/audit.service";
+import { localizeService } from "../translation/translation.service";
+import { db, type DbTransaction } from "../../../shared/db";
+import { type Country, type CountryBorder } from "../../../shared/db/schema";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+
+export interface CountryPath {
+  from: string;
+  to: string;
+  // Borders crossed; 0 when both ends are the same country
+  hops: number;
+  path: Pick<Country, "id" | "name" | "code">[];
+}
+
+const getCountryOrThrow = async (id: number): Promise<Country> => {
+  const country = await findCountryByIdRepo(id);
+  if (!country) {
+    throw new NotFoundError(`Country with ID ${id} not found`);
+  }
+  return country;
+};
+
+const getCountryByCodeOrThrow = async (code: string): Promise<Country> => {
+  const country = await findCountryByAnyCodeRepo(code);
+  if (!country) {
+    throw new NotFoundError(`Country with code '${code}' not found`);
+  }
+  return country;
+};
+
+/**
+ * Breadth-first search over the border graph, so the first time `to` is
+ * reached is along a route crossing the fewest borders. Returns the ids from
+ * `from` to `to`, or null when no land route exists.
+ */
+const shortestPath = (
+  edges: BorderEdge[],
+  from: number,
+  to: number,
+): number[] | null => {
+  const neighbors = new Map<number, number[]>();
+  for (const { countryId, neighborId } of edges) {
+    if (!neighbors.has(countryId)) neighbors.set(countryId, []);
+    neighbors.get(countryId)!.push(neighborId);
+  }
+
+  const previous = new Map<number, number | null>([[from, null]]);
+  const queue = [from];
+  for (let i = 0; i < queue.length && !previous.has(to); i++) {
+    for (const next of neighbors.get(queue[i]) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, queue[i]);
+        queue.push(next);
+      }
+    }
+  }
+  if (!previous.has(to)) {
+    return null;
+  }
+
+  const path: number[] = [];
+  for (let id: number | null = to; id !== null; id = previous.get(id)!) {
+    path.unshift(id);
+  }
+  return path;
+};
+
+// Audited on both countries, keyed by the other one
+const recordBorderAudit = async (
+  countryId: number,
+  neighborId: number,
+  before: CountryBorder | null,
+  after: CountryBorder | null,
+  tx: DbTransaction,
+) => {
+  const value = (border: CountryBorder | null) =>
+    border ? { lengthKm: border.lengthKm } : null;
+
+  for (const [id, other] of [
+    [countryId, neighborId],
+    [neighborId, countryId],
+  ]) {
+    await recordAuditService(
+      {
+        entity: "country",
+        entityId: id,
+        action: "update",
+        before: { [`border.${other}`]: value(before) },
+        after: { [`border.${other}`]: value(after) },
+      },
+      tx,
+    );
+  }
+};
+
+export const getCountryBordersService = async (
+  countryId: number,
+): Promise<CountryBorder[]> => {
+  await getCountryOrThrow(countryId);
+  return await findBordersRepo(countryId);
+};
+
+export const getCountryNeighborsService = async (
+  countryId: number,
+): Promise<Country[]> => {
+  await getCountryOrThrow(countryId);
+  try {
+    return await localizeService("country", await findNeighborsRepo(countryId));
+  } catch (error) {
+    throw new BadRequestError("Failed to fetch neighbors", error);
+  }
+};
+
+export const setCountryBorderService = async (
+  countryId: number,
+  neighborId: number,
+  lengthKm: number | null = null,
+): Promise<CountryBorder> => {
+  if (countryId === neighborId) {
+    throw new BadRequestError("A country cannot border itself.");
+  }
+  await getCountryOrThrow(countryId);
+  const neighbor = await findCountryByIdRepo(neighborId);
+  if (!neighbor) {
+    throw new BadRequestError(`Country with ID ${neighborId} does not exist.`);
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const before = await findBorderRepo(countryId, neighborId, tx);
+      const border = await upsertBorderRepo(
+        countryId,
+        neighborId,
+        lengthKm,
+        tx,
+      );
+      await recordBorderAudit(countryId, neighborId, before, border, tx);
+      return border;
+    });
+  } catch (error) {
+    throw new BadRequestError("Failed to save border", error);
+  }
+};
+
+export const deleteCountryBorderService = async (
+  countryId: number,
+  neighborId: number,
+): Promise<CountryBorder> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const border = await deleteBorderRepo(countryId, neighborId, tx);
+      if (!border) {
+        throw new NotFoundError(
+          `Country with ID ${countryId} does not border country ${neighborId}`,
+        );
+      }
+      await recordBorderAudit(countryId, neighborId, border, null, tx);
+      return border;
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to delete border", error);
+  }
+};
+
+export const findCountryPathService = async (
+  fromCode: string,
+  toCode: string,
+): Promise<CountryPath> => {
+  const from = await getCountryByCodeOrThrow(fromCode);
+  const to = await getCountryByCodeOrThrow(toCode);
+
+  try {
+    const ids = shortestPath(await findBorderGraphRepo(), from.id, to.id);
+    if (!ids) {
+      throw new NotFoundError(
+        `No land route between ${from.code} and ${to.code}`,
+      );
+    }
+
+    const countries = new Map(
+      (await findCountrySummariesRepo(ids)).map((country) => [
+        country.id,
+        country,
+      ]),
+    );
+    const path = await localizeService(
+      "country",
+      ids.map((id) => countries.get(id)!),
+    );
+
+    return { from: from.code, to: to.code, hops: ids.length - 1, path };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to find a route", error);
+  }
+};
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const borderParamsSchema = z.object({
+  id: z.coerce.number(),
+  neighborId: z.coerce.number(),
+});
+
+export const borderBodySchema = z.object({
+  lengthKm: z
+    .number()
+    .positive("Border length must be positive")
+    .nullable()
+    .optional(),
+});
+
+// Countries are given by code: their own, or ISO alpha-2, alpha-3 or numeric
+export const countryPathQuerySchema = z.object({
+  from: z
+    .string()
+    .trim()
+    .min(2, "From must be at least 2 characters")
+    .max(10, "From must not exceed 10 characters"),
+  to: z
+    .string()
+    .trim()
+    .min(2, "To must be at least 2 characters")
+    .max(10, "To must not exceed 10 characters"),
+});
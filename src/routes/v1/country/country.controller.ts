@@ -2,58 +2,151 @@ import { Request, Response } from "express";
 import {
   createCountryService,
   deleteCountryService,
+  exportCountriesService,
   getAllCountriesService,
   getCountryByCodeService,
   getCountryByIdService,
+  getCountryTreeService,
   getCountriesCountService,
+  importCountriesService,
+  restoreCountryService,
   searchCountriesService,
+  patchCountryService,
   updateCountryService,
 } from "./country.service";
 import { success } from "../../../shared/api-response/response-handler";
 import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  parseImportStream,
+  resolveImportFormat,
+} from "../../../shared/utils/import-parser.util";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import { v_include_deleted } from "../../../shared/utils/_zod-utils/v-soft-delete";
+import { v_delete_options } from "../../../shared/utils/_zod-utils/v-delete-options";
+import {
+  countryExportQuerySchema,
+  countryFiltersSchema,
+  countryTreeQuerySchema,
+  createCountrySchema,
+  updateCountrySchema,
+} from "./country.validation";
+import {
+  resolveExportFormat,
+  writeExport,
+} from "../../../shared/utils/export-writer.util";
+import { pointGeometry } from "../../../shared/utils/geo.util";
+import { requireIfMatch, setEntityTag } from "../../../shared/utils/etag.util";
+import { resolvePatchFormat } from "../../../shared/utils/json-patch.util";
+import {
+  deleteCountryBoundaryService,
+  getCountryBoundaryService,
+  setCountryBoundaryService,
+} from "../geo/geo.service";
+import { boundaryBodySchema } from "../geo/geo.validation";
 
 // GET /countries
 export const getAllCountries = asyncHandler(async (req: Request, res: Response) => {
-  const { name, code, search } = req.query;
+  const { search, ...filters } = validateRequest(req, {
+    query: countryFiltersSchema,
+  }).query;
 
   let countries;
   
   if (search) {
-    countries = await searchCountriesService(search as string);
+    countries = await searchCountriesService(search, filters);
   } else {
-    const filters = {
-      name: name as string | undefined,
-      code: code as string | undefined
-    };
     countries = await getAllCountriesService(filters);
   }
 
-  const count = countries.length;
-
-  success(res, { rows: countries, count }, "Countries retrieved successfully");
+  success(res, countries, "Countries retrieved successfully");
 });
 
 // GET /countries/:id
 export const getCountryById = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
+  const { query } = validateRequest(req, { query: v_include_deleted });
 
-  const country = await getCountryByIdService(Number(id));
+  const country = await getCountryByIdService(Number(id), query);
+  setEntityTag(res, country);
 
   success(res, country, "Country retrieved successfully");
 });
 
+// GET /countries/export
+export const exportCountries = asyncHandler(async (req: Request, res: Response) => {
+  const { search, format, ...filters } = validateRequest(req, {
+    query: countryExportQuerySchema,
+  }).query;
+
+  const { columns, rows } = exportCountriesService({
+    ...filters,
+    name: search ?? filters.name,
+  });
+
+  await writeExport(res, {
+    format: resolveExportFormat(req, format),
+    filename: "countries",
+    columns,
+    rows,
+    geometry: pointGeometry,
+  });
+});
+
+// GET /countries/:id/tree
+export const getCountryTree = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { query } = validateRequest(req, { query: countryTreeQuerySchema });
+
+  const tree = await getCountryTreeService(Number(id), query);
+
+  success(res, tree, "Country tree retrieved successfully");
+});
+
+// GET /countries/:id/boundary
+export const getCountryBoundary = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const boundary = await getCountryBoundaryService(Number(id));
+
+  success(res, boundary, "Country boundary retrieved successfully");
+});
+
+// PUT /countries/:id/boundary
+export const setCountryBoundary = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { body } = validateRequest(req, { body: boundaryBodySchema });
+
+  const boundary = await setCountryBoundaryService(Number(id), body);
+
+  success(res, boundary, "Country boundary saved successfully");
+});
+
+// DELETE /countries/:id/boundary
+export const deleteCountryBoundary = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const boundary = await deleteCountryBoundaryService(Number(id));
+
+  success(res, boundary, "Country boundary deleted successfully");
+});
+
 // GET /countries/code/:code
 export const getCountryByCode = asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
 
   const country = await getCountryByCodeService(code);
+  setEntityTag(res, country);
 
   success(res, country, "Country retrieved successfully");
 });
 
 // POST /countries
 export const createCountry = asyncHandler(async (req: Request, res: Response) => {
-  const country = await createCountryService(req.body);
+  // The parsed body carries the normalized ISO codes, time zones and languages
+  const { body } = validateRequest(req, { body: createCountrySchema });
+
+  const country = await createCountryService(body);
 
   success(res, country, "Country created successfully");
 });
@@ -62,7 +155,23 @@ export const createCountry = asyncHandler(async (req: Request, res: Response) =>
 export const updateCountry = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
 
-  const country = await updateCountryService(Number(id), req.body);
+  const ifMatch = requireIfMatch(req);
+  const { body } = validateRequest(req, { body: updateCountrySchema });
+
+  const country = await updateCountryService(Number(id), body, { ifMatch });
+  setEntityTag(res, country);
+
+  success(res, country, "Country updated successfully");
+});
+
+// PATCH /countries/:id
+export const patchCountry = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const ifMatch = requireIfMatch(req);
+  const format = resolvePatchFormat(req);
+
+  const country = await patchCountryService(Number(id), format, req.body, { ifMatch });
+  setEntityTag(res, country);
 
   success(res, country, "Country updated successfully");
 });
@@ -70,22 +179,43 @@ export const updateCountry = asyncHandler(async (req: Request, res: Response) =>
 // DELETE /countries/:id
 export const deleteCountry = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
+  const { query } = validateRequest(req, { query: v_delete_options });
+
+  const report = await deleteCountryService(Number(id), query);
+
+  success(res, report, query.hard ? "Country purged successfully" : "Country deleted successfully");
+});
+
+// POST /countries/:id/restore
+export const restoreCountry = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
 
-  const country = await deleteCountryService(Number(id));
+  const country = await restoreCountryService(Number(id));
 
-  success(res, country, "Country deleted successfully");
+  success(res, country, "Country restored successfully");
 });
 
 // GET /countries/count
 export const getCountriesCount = asyncHandler(async (req: Request, res: Response) => {
-  const { name, code } = req.query;
-
-  const filters = {
-    name: name as string | undefined,
-    code: code as string | undefined
-  };
+  const { search, ...filters } = validateRequest(req, {
+    query: countryFiltersSchema,
+  }).query;
 
   const count = await getCountriesCountService(filters);
 
   success(res, { count }, "Countries count retrieved successfully");
 });
+
+// POST /countries/import
+export const importCountries = asyncHandler(async (req: Request, res: Response) => {
+  const { query } = validateRequest(req, { query: v_import_options });
+  const format = resolveImportFormat(req, query.format);
+
+  const report = await importCountriesService(parseImportStream(req, format), query.dryRun);
+
+  success(
+    res,
+    report,
+    report.committed ? "Countries imported successfully" : "Countries import was not committed",
+  );
+});
@@ -1,66 +1,288 @@
-import { db } from "../../../shared/db";
-import { TB_countries, type Country, type NewCountry } from "../../../shared/db/schema";
-import { eq, ilike, sql, and } from "drizzle-orm";
+import {
+  db,
+  type DbClient,
+  type FindOptions,
+  type UpdateOptions,
+} from "../../../shared/db";
+import {
+  TB_cities,
+  TB_countries,
+  TB_countryLanguages,
+  TB_languages,
+  TB_states,
+  type Country,
+  type NewCountry,
+} from "../../../shared/db/schema";
+import { eq, ilike, inArray, isNull, ne, or, sql, and, asc, type SQL } from "drizzle-orm";
+import { rankedCitiesSubquery } from "../city/city.repo";
+import { rankWindow, type StateTree, type TreeOptions } from "../state/state.repo";
+import {
+  buildListQuery,
+  type ListQueryConfig,
+} from "../../../shared/db/list-query";
+import {
+  paginate,
+  type Page,
+  type PaginateOptions,
+} from "../../../shared/db/paginate";
+import { streamRows, type RowStream } from "../../../shared/db/stream-rows";
+import { registerCurrencies } from "../../../shared/db/currencies";
 
-export interface CountryFilters {
+export interface CountryFilters extends PaginateOptions {
   name?: string;
   code?: string;
+  includeDeleted?: boolean;
 }
 
-export const createCountryRepo = async (data: NewCountry): Promise<Country> => {
-  const [country] = await db.insert(TB_countries).values(data).returning();
+export interface CountryTree extends Country {
+  states?: StateTree[];
+}
+
+export const countryListConfig: ListQueryConfig = {
+  columns: {
+    id: TB_countries.id,
+    name: TB_countries.name,
+    code: TB_countries.code,
+    phoneCode: TB_countries.phoneCode,
+    latitude: TB_countries.latitude,
+    longitude: TB_countries.longitude,
+    iso2: TB_countries.iso2,
+    iso3: TB_countries.iso3,
+    isoNumeric: TB_countries.isoNumeric,
+    capital: TB_countries.capital,
+    currencyCode: TB_countries.currencyCode,
+    continent: TB_countries.continent,
+    region: TB_countries.region,
+    timezones: TB_countries.timezones,
+    postalCodeRegex: TB_countries.postalCodeRegex,
+    addressFormat: TB_countries.addressFormat,
+    createdAt: TB_countries.createdAt,
+    updatedAt: TB_countries.updatedAt,
+    deletedAt: TB_countries.deletedAt,
+    version: TB_countries.version,
+  },
+  filterable: [
+    "id", "name", "code", "phoneCode", "latitude", "longitude", "iso2", "iso3", "isoNumeric",
+    "capital", "currencyCode", "continent", "region", "createdAt", "updatedAt", "deletedAt",
+  ],
+  sortable: ["id", "name", "code", "iso2", "iso3", "isoNumeric", "createdAt", "updatedAt"],
+  defaultSort: { field: "name", direction: "asc" },
+};
+
+const notDeleted = (includeDeleted?: boolean) =>
+  includeDeleted ? undefined : isNull(TB_countries.deletedAt);
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+const buildCountryConditions = (filters?: CountryFilters): SQL[] => {
+  const conditions: SQL[] = [];
+
+  if (!filters?.includeDeleted) {
+    conditions.push(isNull(TB_countries.deletedAt));
+  }
+
+  if (filters?.name) {
+    conditions.push(ilike(TB_countries.name, `%${filters.name}%`));
+  }
+
+  if (filters?.code) {
+    conditions.push(eq(TB_countries.code, filters.code));
+  }
+
+  return conditions;
+};
+
+// Unknown currency codes are registered so every country links to a currency row
+export const createCountryRepo = async (data: NewCountry, client: DbClient = db): Promise<Country> => {
+  if (data.currencyCode) {
+    await registerCurrencies([data.currencyCode], client);
+  }
+  const [country] = await client.insert(TB_countries).values(data).returning();
   return country;
 };
 
-export const findCountryByIdRepo = async (id: number): Promise<Country | null> => {
-  const [country] = await db
+export const findCountryByIdRepo = async (
+  id: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<Country | null> => {
+  const [country] = await client
     .select()
     .from(TB_countries)
-    .where(eq(TB_countries.id, id))
+    .where(and(eq(TB_countries.id, id), notDeleted(includeDeleted)))
     .limit(1);
   return country || null;
 };
 
-export const findCountryByCodeRepo = async (code: string): Promise<Country | null> => {
-  const [country] = await db
+export const findCountryByCodeRepo = async (
+  code: string,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<Country | null> => {
+  const [country] = await client
     .select()
     .from(TB_countries)
-    .where(eq(TB_countries.code, code))
+    .where(and(eq(TB_countries.code, code), notDeleted(includeDeleted)))
     .limit(1);
   return country || null;
 };
 
-export const findAllCountriesRepo = async (filters?: CountryFilters): Promise<Country[]> => {
-  const conditions = [];
-  
-  if (filters?.name) {
-    conditions.push(ilike(TB_countries.name, `%${filters.name}%`));
+/**
+ * Looks a country up by its own code or any ISO 3166 code. Digits match the
+ * numeric code, and an exact `code` match wins over the ISO ones.
+ */
+export const findCountryByAnyCodeRepo = async (
+  code: string,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<Country | null> => {
+  const normalized = code.trim().toUpperCase();
+  // Own codes are stored as entered, so compare them case-insensitively too
+  const codeMatch = sql`upper(${TB_countries.code}) = ${normalized}`;
+  const isoMatch = /^\d{1,3}$/.test(normalized)
+    ? eq(TB_countries.isoNumeric, normalized.padStart(3, "0"))
+    : or(eq(TB_countries.iso2, normalized), eq(TB_countries.iso3, normalized));
+
+  const [country] = await client
+    .select()
+    .from(TB_countries)
+    .where(and(or(codeMatch, isoMatch), notDeleted(includeDeleted)))
+    .orderBy(sql`${codeMatch} desc`, TB_countries.id)
+    .limit(1);
+  return country || null;
+};
+
+// First live country, other than `excludeId`, already holding one of the ISO codes
+export const findCountryByIsoCodesRepo = async (
+  codes: Pick<NewCountry, "iso2" | "iso3" | "isoNumeric">,
+  { client = db, excludeId }: { client?: DbClient; excludeId?: number } = {},
+): Promise<Country | null> => {
+  const matches = [
+    codes.iso2 ? eq(TB_countries.iso2, codes.iso2) : undefined,
+    codes.iso3 ? eq(TB_countries.iso3, codes.iso3) : undefined,
+    codes.isoNumeric ? eq(TB_countries.isoNumeric, codes.isoNumeric) : undefined,
+  ].filter((match): match is SQL => match !== undefined);
+  if (!matches.length) {
+    return null;
   }
-  
-  if (filters?.code) {
-    conditions.push(eq(TB_countries.code, filters.code));
+
+  const [country] = await client
+    .select()
+    .from(TB_countries)
+    .where(
+      and(
+        or(...matches),
+        excludeId === undefined ? undefined : ne(TB_countries.id, excludeId),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .limit(1);
+  return country || null;
+};
+
+export const findCountryLanguagesRepo = async (countryId: number, client: DbClient = db): Promise<string[]> => {
+  const rows = await client
+    .select({ code: TB_countryLanguages.languageCode })
+    .from(TB_countryLanguages)
+    .where(eq(TB_countryLanguages.countryId, countryId))
+    .orderBy(TB_countryLanguages.languageCode);
+  return rows.map(({ code }) => code);
+};
+
+// Replaces the spoken languages of a country, registering unknown codes on the way
+export const setCountryLanguagesRepo = async (
+  countryId: number,
+  codes: string[],
+  client: DbClient = db,
+): Promise<void> => {
+  await client.delete(TB_countryLanguages).where(eq(TB_countryLanguages.countryId, countryId));
+  if (!codes.length) {
+    return;
   }
 
-  const query = db.select().from(TB_countries);
-  
-  if (conditions.length > 0) {
-    return await query.where(and(...conditions)).orderBy(TB_countries.name);
+  await client
+    .insert(TB_languages)
+    .values(codes.map((code) => ({ code, name: languageNames.of(code) ?? null })))
+    .onConflictDoNothing();
+  await client
+    .insert(TB_countryLanguages)
+    .values(codes.map((languageCode) => ({ countryId, languageCode })));
+};
+
+export const findCountriesByNameRepo = async (
+  name: string,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<Country[]> => {
+  return await client
+    .select()
+    .from(TB_countries)
+    .where(
+      and(sql`lower(${TB_countries.name}) = lower(${name})`, notDeleted(includeDeleted)),
+    );
+};
+
+export const findAllCountriesRepo = async (filters: CountryFilters = {}): Promise<Page<Partial<Country>>> => {
+  const { name, code, includeDeleted, ...options } = filters;
+
+  return await paginate<Partial<Country>>({
+    table: TB_countries,
+    idColumn: TB_countries.id,
+    config: countryListConfig,
+    options,
+    where: and(...buildCountryConditions({ name, code, includeDeleted })),
+  });
+};
+
+export const streamCountriesRepo = (filters: CountryFilters = {}): RowStream => {
+  const { name, code, includeDeleted, ...options } = filters;
+
+  return streamRows({
+    table: TB_countries,
+    idColumn: TB_countries.id,
+    config: countryListConfig,
+    options,
+    where: and(...buildCountryConditions({ name, code, includeDeleted })),
+  });
+};
+
+export const updateCountryRepo = async (
+  id: number,
+  data: Partial<NewCountry>,
+  { client = db, version }: UpdateOptions = {},
+): Promise<Country | null> => {
+  if (data.currencyCode) {
+    await registerCurrencies([data.currencyCode], client);
   }
+  const [country] = await client
+    .update(TB_countries)
+    .set({ ...data, updatedAt: new Date(), version: sql`${TB_countries.version} + 1` })
+    .where(
+      and(
+        eq(TB_countries.id, id),
+        version === undefined ? undefined : eq(TB_countries.version, version),
+      ),
+    )
+    .returning();
+  return country || null;
+};
 
-  return await query.orderBy(TB_countries.name);
+export const deleteCountryRepo = async (id: number, client: DbClient = db): Promise<Country> => {
+  const [country] = await client
+    .update(TB_countries)
+    .set({ deletedAt: new Date(), version: sql`${TB_countries.version} + 1` })
+    .where(and(eq(TB_countries.id, id), isNull(TB_countries.deletedAt)))
+    .returning();
+  return country;
 };
 
-export const updateCountryRepo = async (id: number, data: Partial<NewCountry>): Promise<Country> => {
-  const [country] = await db
+export const restoreCountryRepo = async (id: number, client: DbClient = db): Promise<Country> => {
+  const [country] = await client
     .update(TB_countries)
-    .set({ ...data, updatedAt: new Date() })
+    .set({ deletedAt: null, updatedAt: new Date(), version: sql`${TB_countries.version} + 1` })
     .where(eq(TB_countries.id, id))
     .returning();
   return country;
 };
 
-export const deleteCountryRepo = async (id: number): Promise<Country> => {
-  const [country] = await db
+export const purgeCountryRepo = async (id: number, client: DbClient = db): Promise<Country> => {
+  const [country] = await client
     .delete(TB_countries)
     .where(eq(TB_countries.id, id))
     .returning();
@@ -68,14 +290,10 @@ export const deleteCountryRepo = async (id: number): Promise<Country> => {
 };
 
 export const countCountriesRepo = async (filters?: CountryFilters): Promise<number> => {
-  const conditions = [];
-  
-  if (filters?.name) {
-    conditions.push(ilike(TB_countries.name, `%${filters.name}%`));
-  }
-  
-  if (filters?.code) {
-    conditions.push(eq(TB_countries.code, filters.code));
+  const conditions = buildCountryConditions(filters);
+  const { where } = buildListQuery(countryListConfig, { filters: filters?.filters });
+  if (where) {
+    conditions.push(where);
   }
 
   const query = db.select({ count: sql<number>`count(*)` }).from(TB_countries);
@@ -93,7 +311,7 @@ export const existsCountryRepo = async (id: number): Promise<boolean> => {
   const [result] = await db
     .select({ count: sql<number>`count(*)` })
     .from(TB_countries)
-    .where(eq(TB_countries.id, id));
+    .where(and(eq(TB_countries.id, id), isNull(TB_countries.deletedAt)));
   return Number(result?.count || 0) > 0;
 };
 
@@ -101,6 +319,97 @@ export const existsCountryByCodeRepo = async (code: string): Promise<boolean> =>
   const [result] = await db
     .select({ count: sql<number>`count(*)` })
     .from(TB_countries)
-    .where(eq(TB_countries.code, code));
+    .where(and(eq(TB_countries.code, code), isNull(TB_countries.deletedAt)));
   return Number(result?.count || 0) > 0;
 };
+
+export const findCountryTreeRepo = async (
+  id: number,
+  options: TreeOptions,
+): Promise<CountryTree | null> => {
+  if (options.depth < 1) {
+    return await findCountryByIdRepo(id);
+  }
+
+  const statesQuery = db
+    .select()
+    .from(TB_states)
+    .where(and(eq(TB_states.countryId, id), isNull(TB_states.deletedAt)))
+    .orderBy(TB_states.name, TB_states.id)
+    .$dynamic();
+
+  if (options.limit) {
+    const page = options.page ?? 1;
+    statesQuery.limit(options.limit).offset((page - 1) * options.limit);
+  }
+
+  const states = statesQuery.as("tree_states");
+
+  // Cities are always capped per state; `page` only applies to the states
+  const cities = rankedCitiesSubquery(
+    inArray(
+      TB_cities.stateId,
+      db
+        .select({ id: TB_states.id })
+        .from(TB_states)
+        .where(and(eq(TB_states.countryId, id), isNull(TB_states.deletedAt))),
+    ),
+  );
+  const withCities = options.depth >= 2;
+
+  const rows = await db
+    .select({
+      country: TB_countries,
+      state: {
+        id: states.id,
+        name: states.name,
+        countryId: states.countryId,
+        latitude: states.latitude,
+        longitude: states.longitude,
+        createdAt: states.createdAt,
+        updatedAt: states.updatedAt,
+        deletedAt: states.deletedAt,
+        version: states.version,
+      },
+      city: {
+        id: cities.id,
+        name: cities.name,
+        stateId: cities.stateId,
+        latitude: cities.latitude,
+        longitude: cities.longitude,
+        createdAt: cities.createdAt,
+        updatedAt: cities.updatedAt,
+        deletedAt: cities.deletedAt,
+        version: cities.version,
+      },
+    })
+    .from(TB_countries)
+    .leftJoin(states, eq(states.countryId, TB_countries.id))
+    .leftJoin(
+      cities,
+      withCities
+        ? and(eq(cities.stateId, states.id), rankWindow(cities.rank, { limit: options.limit }))
+        : sql`false`,
+    )
+    .where(and(eq(TB_countries.id, id), isNull(TB_countries.deletedAt)))
+    .orderBy(asc(states.name), asc(states.id), asc(cities.rank));
+
+  if (!rows.length) {
+    return null;
+  }
+
+  const stateNodes = new Map<number, StateTree>();
+  for (const { state, city } of rows) {
+    if (!state) {
+      continue;
+    }
+    if (!stateNodes.has(state.id)) {
+      stateNodes.set(state.id, withCities ? { ...state, cities: [] } : state);
+    }
+    if (city) {
+      stateNodes.get(state.id)!.cities!.push(city);
+    }
+  }
+
+  return { ...rows[0].country, states: [...stateNodes.values()] };
+};
@@ -1,60 +1,170 @@
 import { Router } from "express";
 import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware, optionalAuthMiddleware } from "../../../shared/middlewares/auth.middleware";
 import {
   createCountry,
   deleteCountry,
+  deleteCountryBoundary,
+  exportCountries,
   getAllCountries,
+  getCountryBoundary,
   getCountryByCode,
   getCountryById,
+  getCountryTree,
+  importCountries,
   getCountriesCount,
+  patchCountry,
+  restoreCountry,
+  setCountryBoundary,
   updateCountry,
 } from "./country.controller";
 import {
     countryFiltersSchema,
     searchTermParamSchema,
     countryCodeParamSchema,
+    countryExportQuerySchema,
+    countryTreeQuerySchema,
     createCountrySchema,
     updateCountrySchema,
 } from "./country.validation";
+import { boundaryBodySchema } from "../geo/geo.validation";
+import {
+  deleteCountryBorder,
+  getCountryBorders,
+  getCountryNeighbors,
+  getCountryPath,
+  setCountryBorder,
+} from "../country-border/country-border.controller";
+import {
+  borderBodySchema,
+  borderParamsSchema,
+  countryPathQuerySchema,
+} from "../country-border/country-border.validation";
+import { createTranslationRouter } from "../translation/translation.routes";
 import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import { v_include_deleted } from "../../../shared/utils/_zod-utils/v-soft-delete";
+import { v_delete_options } from "../../../shared/utils/_zod-utils/v-delete-options";
+import {
+  guardHardDelete,
+  guardIncludeDeleted,
+  guardRestore,
+} from "../../../shared/middlewares/soft-delete.middleware";
 
 const countryRouter: Router = Router();
 
+// Reads stay public; every write below requires a token
+countryRouter.use(optionalAuthMiddleware);
+
 // GET /countries - Get all countries with optional filtering and search
 countryRouter.get("/", validate({
   query: countryFiltersSchema
-}), getAllCountries);
+}), guardIncludeDeleted, getAllCountries);
 
 // GET /countries/count - Get countries count with optional filtering
 countryRouter.get("/count", validate({
   query: countryFiltersSchema
-}), getCountriesCount);
+}), guardIncludeDeleted, getCountriesCount);
+
+// GET /countries/export - Stream countries as CSV, NDJSON or GeoJSON
+countryRouter.get("/export", validate({
+  query: countryExportQuerySchema
+}), guardIncludeDeleted, exportCountries);
 
 // GET /countries/code/:code - Get country by code
 countryRouter.get("/code/:code", validate({
   params: countryCodeParamSchema
 }), getCountryByCode);
 
+// GET /countries/path?from=&to= - Shortest land route between two countries
+countryRouter.get("/path", validate({
+  query: countryPathQuerySchema
+}), getCountryPath);
+
+// GET /countries/:id/tree - Get country with its states and cities
+countryRouter.get("/:id/tree", validate({
+  params: idParamSchema,
+  query: countryTreeQuerySchema
+}), getCountryTree);
+
+// /countries/:id/translations - Localized names, see translation.routes.ts
+countryRouter.use("/:id/translations", createTranslationRouter("country"));
+
+// GET /countries/:id/boundary - Get the GeoJSON boundary of a country
+countryRouter.get("/:id/boundary", validate({
+  params: idParamSchema
+}), getCountryBoundary);
+
+// GET /countries/:id/neighbors - Get the countries sharing a land border
+countryRouter.get("/:id/neighbors", validate({
+  params: idParamSchema
+}), getCountryNeighbors);
+
+// GET /countries/:id/borders - Get the land borders of a country
+countryRouter.get("/:id/borders", validate({
+  params: idParamSchema
+}), getCountryBorders);
+
 // GET /countries/:id - Get country by ID
 countryRouter.get("/:id", validate({
-  params: idParamSchema
-}), getCountryById);
+  params: idParamSchema,
+  query: v_include_deleted
+}), guardIncludeDeleted, getCountryById);
 
 // POST /countries - Create new country
-countryRouter.post("/", validate({
+countryRouter.post("/", authMiddleware, validate({
   body: createCountrySchema
 }), createCountry);
 
-// PUT /countries/:id - Update country
-countryRouter.put("/:id", validate({
+// POST /countries/import - Bulk import countries from CSV or NDJSON
+countryRouter.post("/import", authMiddleware, validate({
+  query: v_import_options
+}), importCountries);
+
+// PUT /countries/:id - Update country, requires the current ETag in If-Match
+countryRouter.put("/:id", authMiddleware, validate({
   params: idParamSchema,
   body: updateCountrySchema
 }), updateCountry);
 
-// DELETE /countries/:id - Delete country
-countryRouter.delete("/:id", validate({
+// PATCH /countries/:id - Merge Patch or JSON Patch a country, requires the current ETag in If-Match
+countryRouter.patch("/:id", authMiddleware, validate({
+  params: idParamSchema
+}), patchCountry);
+
+// PUT /countries/:id/boundary - Set the boundary as a GeoJSON Polygon or MultiPolygon
+countryRouter.put("/:id/boundary", authMiddleware, validate({
+  params: idParamSchema,
+  body: boundaryBodySchema
+}), setCountryBoundary);
+
+// DELETE /countries/:id/boundary - Remove the boundary of a country
+countryRouter.delete("/:id/boundary", authMiddleware, validate({
   params: idParamSchema
-}), deleteCountry);
+}), deleteCountryBoundary);
+
+// PUT /countries/:id/borders/:neighborId - Add a land border, or update its length
+countryRouter.put("/:id/borders/:neighborId", authMiddleware, validate({
+  params: borderParamsSchema,
+  body: borderBodySchema
+}), setCountryBorder);
+
+// DELETE /countries/:id/borders/:neighborId - Remove a land border
+countryRouter.delete("/:id/borders/:neighborId", authMiddleware, validate({
+  params: borderParamsSchema
+}), deleteCountryBorder);
+
+// POST /countries/:id/restore - Restore a soft-deleted country (admin only)
+countryRouter.post("/:id/restore", guardRestore, validate({
+  params: idParamSchema
+}), restoreCountry);
+
+// DELETE /countries/:id - Soft delete country, or purge it with ?hard=true (admin only);
+// ?policy=restrict|cascade|reassign decides what happens to its states and cities
+countryRouter.delete("/:id", authMiddleware, validate({
+  params: idParamSchema,
+  query: v_delete_options
+}), guardHardDelete, deleteCountry);
 
 
 export {
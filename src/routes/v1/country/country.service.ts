@@ -1,22 +1,108 @@
 import {
   createCountryRepo,
   deleteCountryRepo,
+  purgeCountryRepo,
+  restoreCountryRepo,
   findAllCountriesRepo,
   findCountryByIdRepo,
   findCountryByCodeRepo,
+  findCountryByAnyCodeRepo,
+  findCountryByIsoCodesRepo,
+  findCountryLanguagesRepo,
+  setCountryLanguagesRepo,
   updateCountryRepo,
   countCountriesRepo,
   existsCountryRepo,
   existsCountryByCodeRepo,
+  findCountryTreeRepo,
+  findCountriesByNameRepo,
+  streamCountriesRepo,
   type CountryFilters,
+  type CountryTree,
 } from "./country.repo";
+import {
+  deleteStatesByCountryIdRepo,
+  findAllStatesByCountryIdRepo,
+  purgeStatesByCountryIdRepo,
+  reassignStatesRepo,
+  type TreeOptions,
+} from "../state/state.repo";
+import {
+  deleteCitiesByStateIdsRepo,
+  findAllCitiesByStateIdsRepo,
+  purgeCitiesByStateIdsRepo,
+} from "../city/city.repo";
 import { type Country, type NewCountry } from "../../../shared/db/schema";
+import { resolveLimit, type Page } from "../../../shared/db/paginate";
+import { db, type DbClient, type FindOptions } from "../../../shared/db";
+import {
+  type DeleteOptions,
+  type DeleteReport,
+} from "../../../shared/db/delete-policy";
+import { type RowStream } from "../../../shared/db/stream-rows";
+import { runImport, type ImportReport } from "../../../shared/db/bulk-import";
+import { type ParsedImportRow } from "../../../shared/utils/import-parser.util";
+import {
+  recordAuditService,
+  recordChildAuditsService,
+} from "../audit/audit.service";
+import {
+  childGeoChanges,
+  publishGeoEvent,
+  publishGeoEvents,
+  type GeoChange,
+} from "../../../shared/kafka/geo-events";
+import {
+  localizeOneService,
+  localizeService,
+} from "../translation/translation.service";
+import { entityTag, matchesEntityTag } from "../../../shared/utils/etag.util";
+import {
+  patchEntity,
+  type PatchFormat,
+} from "../../../shared/utils/json-patch.util";
+import { createCountrySchema, countryRefSchema } from "./country.validation";
+import {
+  coordinatePairIssue,
+  hasCoordinatePair,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { z } from "zod";
 import {
   BadRequestError,
+  ConflictError,
+  HttpError,
+  PreconditionFailedError,
   NotFoundError,
 } from "../../../shared/utils/http-errors.util";
 
-export const createCountryService = async (data: NewCountry): Promise<Country> => {
+// Spoken languages live in their own table but are read and written with the country
+export type CountryInput = NewCountry & { languages?: string[] | null };
+export type CountryDetails = Country & { languages: string[] };
+
+const withLanguages = async (
+  country: Country,
+  client?: DbClient,
+): Promise<CountryDetails> => ({
+  ...country,
+  languages: await findCountryLanguagesRepo(country.id, client),
+});
+
+const assertIsoCodesAvailable = async (
+  codes: Pick<NewCountry, "iso2" | "iso3" | "isoNumeric">,
+  options: { client?: DbClient; excludeId?: number } = {},
+) => {
+  const existingCountry = await findCountryByIsoCodesRepo(codes, options);
+  if (existingCountry) {
+    throw new BadRequestError(
+      `Country '${existingCountry.name}' already uses one of these ISO codes`,
+    );
+  }
+};
+
+export const createCountryService = async ({
+  languages,
+  ...data
+}: CountryInput): Promise<CountryDetails> => {
   // Check if country code already exists
   const existingCountry = await existsCountryByCodeRepo(data.code);
   if (existingCountry) {
@@ -24,47 +110,117 @@ export const createCountryService = async (data: NewCountry): Promise<Country> =
       `Country with code '${data.code}' already exists`,
     );
   }
+  await assertIsoCodesAvailable(data);
 
   try {
-    return await createCountryRepo(data);
+    const created = await db.transaction(async (tx) => {
+      const country = await createCountryRepo(data, tx);
+      if (languages?.length) {
+        await setCountryLanguagesRepo(country.id, languages, tx);
+      }
+      const created = await withLanguages(country, tx);
+      await recordAuditService(
+        {
+          entity: "country",
+          entityId: country.id,
+          action: "create",
+          after: created,
+        },
+        tx,
+      );
+      return created;
+    });
+    publishGeoEvent({
+      entity: "country",
+      action: "created",
+      id: created.id,
+      after: created,
+    });
+    return created;
   } catch (error) {
     throw new BadRequestError("Failed to create country", error);
   }
 };
 
-export const getCountryByIdService = async (id: number): Promise<Country> => {
-  const country = await findCountryByIdRepo(id);
+export const getCountryByIdService = async (
+  id: number,
+  { includeDeleted }: Pick<FindOptions, "includeDeleted"> = {},
+): Promise<CountryDetails> => {
+  const country = await findCountryByIdRepo(id, { includeDeleted });
   if (!country) {
     throw new NotFoundError(`Country with ID ${id} not found`);
   }
 
-  return country;
+  return await localizeOneService("country", await withLanguages(country));
 };
 
-export const getCountryByCodeService = async (code: string): Promise<Country> => {
-  const country = await findCountryByCodeRepo(code);
+export const getCountryTreeService = async (
+  id: number,
+  options: TreeOptions,
+): Promise<CountryTree> => {
+  const tree = await findCountryTreeRepo(id, {
+    ...options,
+    limit: options.limit && resolveLimit(options.limit),
+  });
+  if (!tree) {
+    throw new NotFoundError(`Country with ID ${id} not found`);
+  }
+
+  return tree;
+};
+
+// Accepts the country's own code as well as ISO alpha-2, alpha-3 or numeric
+export const getCountryByCodeService = async (
+  code: string,
+): Promise<CountryDetails> => {
+  const country = await findCountryByAnyCodeRepo(code);
   if (!country) {
     throw new NotFoundError(`Country with code '${code}' not found`);
   }
 
-  return country;
+  return await localizeOneService("country", await withLanguages(country));
 };
 
-export const getAllCountriesService = async (filters?: CountryFilters): Promise<Country[]> => {
+export const getAllCountriesService = async (
+  filters?: CountryFilters,
+): Promise<Page<Partial<Country>>> => {
   try {
-    return await findAllCountriesRepo(filters);
+    const page = await findAllCountriesRepo(filters);
+    return { ...page, rows: await localizeService("country", page.rows) };
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to fetch countries", error);
   }
 };
 
-export const updateCountryService = async (id: number, data: Partial<NewCountry>): Promise<Country> => {
+export const exportCountriesService = (filters?: CountryFilters): RowStream => {
+  return streamCountriesRepo(filters);
+};
+
+export const updateCountryService = async (
+  id: number,
+  { languages, ...data }: Partial<CountryInput>,
+  { ifMatch }: { ifMatch?: string } = {},
+): Promise<CountryDetails> => {
   // Check if country exists
   const existingCountry = await findCountryByIdRepo(id);
   if (!existingCountry) {
     throw new NotFoundError(`Country with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingCountry)) {
+    throw new PreconditionFailedError(
+      `Country with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingCountry) },
+    );
+  }
+
+  if (!hasCoordinatePair({ ...existingCountry, ...data })) {
+    throw new BadRequestError(coordinatePairIssue.message);
+  }
+
   // Check for code duplicate only if code is being changed
   if (data.code && data.code !== existingCountry.code) {
     const existingByCode = await existsCountryByCodeRepo(data.code);
@@ -74,40 +230,437 @@ export const updateCountryService = async (id: number, data: Partial<NewCountry>
       );
     }
   }
+  await assertIsoCodesAvailable(data, { excludeId: id });
 
   try {
-    return await updateCountryRepo(id, data);
+    const { before, updated } = await db.transaction(async (tx) => {
+      const before = await withLanguages(existingCountry, tx);
+
+      // Guards against a concurrent write landing after the check above
+      const country = await updateCountryRepo(id, data, {
+        client: tx,
+        version: existingCountry.version,
+      });
+      if (!country) {
+        throw new PreconditionFailedError(
+          `Country with ID ${id} has been modified, fetch it again before updating`,
+        );
+      }
+      if (languages !== undefined) {
+        await setCountryLanguagesRepo(id, languages ?? [], tx);
+      }
+      const updated = await withLanguages(country, tx);
+      await recordAuditService(
+        {
+          entity: "country",
+          entityId: id,
+          action: "update",
+          before,
+          after: updated,
+        },
+        tx,
+      );
+      return { before, updated };
+    });
+    publishGeoEvent({
+      entity: "country",
+      action: "updated",
+      id,
+      before,
+      after: updated,
+    });
+    return updated;
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to update country", error);
   }
 };
 
-export const deleteCountryService = async (id: number): Promise<Country> => {
-  // Check if country exists
+export const patchCountryService = async (
+  id: number,
+  format: PatchFormat,
+  patch: unknown,
+  { ifMatch }: { ifMatch?: string } = {},
+): Promise<CountryDetails> => {
   const existingCountry = await findCountryByIdRepo(id);
   if (!existingCountry) {
     throw new NotFoundError(`Country with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingCountry)) {
+    throw new PreconditionFailedError(
+      `Country with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingCountry) },
+    );
+  }
+
+  const data = patchEntity(
+    format,
+    await withLanguages(existingCountry),
+    patch,
+    createCountrySchema,
+  );
+
+  // Pin the update to the version the patch was applied to
+  return await updateCountryService(id, data, {
+    ifMatch: entityTag(existingCountry),
+  });
+};
+
+export const deleteCountryService = async (
+  id: number,
+  { hard = false, policy = "restrict", reassignTo }: DeleteOptions = {},
+): Promise<DeleteReport<Country>> => {
+  // Check if country exists, a purge may also target an already deleted one
+  const existingCountry = await findCountryByIdRepo(id, {
+    includeDeleted: hard,
+  });
+  if (!existingCountry) {
+    throw new NotFoundError(`Country with ID ${id} not found`);
+  }
+
+  if (policy === "reassign") {
+    if (reassignTo === undefined || reassignTo === id) {
+      throw new BadRequestError(
+        "States must be reassigned to a different country.",
+      );
+    }
+    const target = await findCountryByIdRepo(reassignTo);
+    if (!target) {
+      throw new BadRequestError(
+        `Country with ID ${reassignTo} does not exist.`,
+      );
+    }
+  }
+
+  // Children are published along with the country once the delete commits
+  const changes: GeoChange[] = [];
   try {
-    return await deleteCountryRepo(id);
+    const result = await db.transaction(async (tx) => {
+      // A purge has to deal with soft-deleted children too, the foreign keys still see them
+      const states = await findAllStatesByCountryIdRepo(id, {
+        client: tx,
+        includeDeleted: hard,
+      });
+      const stateIds = states.map((state) => state.id);
+      const cities = await findAllCitiesByStateIdsRepo(stateIds, {
+        client: tx,
+        includeDeleted: hard,
+      });
+      const affected = { states: states.length, cities: cities.length };
+
+      if (policy === "restrict" && (affected.states || affected.cities)) {
+        throw new ConflictError(
+          `Country with ID ${id} still has ${affected.states} states and ${affected.cities} cities`,
+          affected,
+        );
+      }
+
+      if (policy === "cascade") {
+        const [citiesAfter, statesAfter] = hard
+          ? [
+              await purgeCitiesByStateIdsRepo(stateIds, tx),
+              await purgeStatesByCountryIdRepo(id, tx),
+            ]
+          : [
+              await deleteCitiesByStateIdsRepo(stateIds, tx),
+              await deleteStatesByCountryIdRepo(id, tx),
+            ];
+        // A purge returns the removed rows, which are gone afterwards
+        await recordChildAuditsService(
+          {
+            entity: "city",
+            action: "delete",
+            before: cities,
+            after: hard ? [] : citiesAfter,
+          },
+          tx,
+        );
+        await recordChildAuditsService(
+          {
+            entity: "state",
+            action: "delete",
+            before: states,
+            after: hard ? [] : statesAfter,
+          },
+          tx,
+        );
+        changes.push(
+          ...childGeoChanges(
+            "city",
+            "deleted",
+            cities,
+            hard ? [] : citiesAfter,
+          ),
+          ...childGeoChanges(
+            "state",
+            "deleted",
+            states,
+            hard ? [] : statesAfter,
+          ),
+        );
+      }
+
+      // Cities follow their states, so only the states move
+      if (policy === "reassign") {
+        const statesAfter = await reassignStatesRepo(id, reassignTo!, {
+          client: tx,
+          includeDeleted: hard,
+        });
+        await recordChildAuditsService(
+          {
+            entity: "state",
+            action: "update",
+            before: states,
+            after: statesAfter,
+          },
+          tx,
+        );
+        changes.push(
+          ...childGeoChanges("state", "updated", states, statesAfter),
+        );
+      }
+
+      const country = hard
+        ? await purgeCountryRepo(id, tx)
+        : await deleteCountryRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "country",
+          entityId: id,
+          action: "delete",
+          before: existingCountry,
+          after: hard ? null : country,
+        },
+        tx,
+      );
+
+      return {
+        deleted: country,
+        policy,
+        hard,
+        affected,
+        reassignedTo: reassignTo,
+      };
+    });
+    publishGeoEvents([
+      ...changes,
+      {
+        entity: "country",
+        action: "deleted",
+        id,
+        before: existingCountry,
+        after: hard ? null : result.deleted,
+      },
+    ]);
+    return result;
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to delete country", error);
   }
 };
 
-export const getCountriesCountService = async (filters?: CountryFilters): Promise<number> => {
+export const restoreCountryService = async (id: number): Promise<Country> => {
+  const existingCountry = await findCountryByIdRepo(id, {
+    includeDeleted: true,
+  });
+  if (!existingCountry) {
+    throw new NotFoundError(`Country with ID ${id} not found`);
+  }
+  if (!existingCountry.deletedAt) {
+    throw new BadRequestError(`Country with ID ${id} is not deleted`);
+  }
+
+  // The code may have been reused while this country was deleted
+  const existingByCode = await existsCountryByCodeRepo(existingCountry.code);
+  if (existingByCode) {
+    throw new ConflictError(
+      `Country with code '${existingCountry.code}' already exists`,
+    );
+  }
+  const existingByIso = await findCountryByIsoCodesRepo(existingCountry);
+  if (existingByIso) {
+    throw new ConflictError(
+      `Country '${existingByIso.name}' already uses one of the ISO codes of this country`,
+    );
+  }
+
+  try {
+    const country = await db.transaction(async (tx) => {
+      const country = await restoreCountryRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "country",
+          entityId: id,
+          action: "restore",
+          before: existingCountry,
+          after: country,
+        },
+        tx,
+      );
+      return country;
+    });
+    publishGeoEvent({
+      entity: "country",
+      action: "updated",
+      id,
+      before: existingCountry,
+      after: country,
+    });
+    return country;
+  } catch (error) {
+    throw new BadRequestError("Failed to restore country", error);
+  }
+};
+
+export const getCountriesCountService = async (
+  filters?: CountryFilters,
+): Promise<number> => {
   try {
     return await countCountriesRepo(filters);
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to count countries", error);
   }
 };
 
-export const searchCountriesService = async (searchTerm: string): Promise<Country[]> => {
+export const searchCountriesService = async (
+  searchTerm: string,
+  listFilters?: CountryFilters,
+): Promise<Page<Partial<Country>>> => {
   const filters: CountryFilters = {
+    ...listFilters,
     name: searchTerm.trim(),
   };
 
   return await getAllCountriesService(filters);
 };
+
+export type CountryRef = z.infer<typeof countryRefSchema>;
+
+export const resolveCountryIdService = async (
+  ref: CountryRef,
+  client?: DbClient,
+): Promise<number> => {
+  if (ref.countryId !== undefined) {
+    const country = await findCountryByIdRepo(ref.countryId, { client });
+    if (!country) {
+      throw new BadRequestError(
+        `Country with ID ${ref.countryId} does not exist.`,
+      );
+    }
+    return country.id;
+  }
+
+  if (ref.countryCode) {
+    const country = await findCountryByAnyCodeRepo(ref.countryCode, { client });
+    if (!country) {
+      throw new BadRequestError(
+        `Country with code '${ref.countryCode}' does not exist.`,
+      );
+    }
+    return country.id;
+  }
+
+  if (ref.countryName) {
+    const countries = await findCountriesByNameRepo(ref.countryName, {
+      client,
+    });
+    if (countries.length > 1) {
+      throw new BadRequestError(
+        `Country name '${ref.countryName}' is ambiguous, use a code instead.`,
+      );
+    }
+    if (!countries.length) {
+      throw new BadRequestError(
+        `Country with name '${ref.countryName}' does not exist.`,
+      );
+    }
+    return countries[0].id;
+  }
+
+  throw new BadRequestError("Country ID, code or name is required.");
+};
+
+export const importCountriesService = async (
+  rows: AsyncIterable<ParsedImportRow>,
+  dryRun: boolean,
+): Promise<ImportReport> => {
+  const changes: GeoChange[] = [];
+  const report = await runImport({
+    rows,
+    dryRun,
+    importRow: async (record, tx) => {
+      const { languages, ...data } = createCountrySchema.parse(record);
+
+      // Existing codes are refreshed in place
+      const existingCountry = await findCountryByCodeRepo(data.code, {
+        client: tx,
+      });
+      // Earlier rows of the same file count too, they are already in the transaction
+      await assertIsoCodesAvailable(data, {
+        client: tx,
+        excludeId: existingCountry?.id,
+      });
+      if (existingCountry) {
+        const country = await updateCountryRepo(existingCountry.id, data, {
+          client: tx,
+        });
+        if (languages) {
+          await setCountryLanguagesRepo(existingCountry.id, languages, tx);
+        }
+        await recordAuditService(
+          {
+            entity: "country",
+            entityId: existingCountry.id,
+            action: "update",
+            before: existingCountry,
+            after: country,
+          },
+          tx,
+        );
+        changes.push({
+          entity: "country",
+          action: "updated",
+          id: existingCountry.id,
+          before: existingCountry,
+          after: country,
+        });
+        return "updated";
+      }
+
+      const country = await createCountryRepo(data, tx);
+      if (languages) {
+        await setCountryLanguagesRepo(country.id, languages, tx);
+      }
+      await recordAuditService(
+        {
+          entity: "country",
+          entityId: country.id,
+          action: "create",
+          after: country,
+        },
+        tx,
+      );
+      changes.push({
+        entity: "country",
+        action: "created",
+        id: country.id,
+        after: country,
+      });
+      return "created";
+    },
+  });
+
+  // Only a committed import happened; rows of a rolled-back one are not announced
+  if (report.committed) {
+    publishGeoEvents(changes);
+  }
+  return report;
+};
@@ -1,4 +1,62 @@
 import { z } from "zod";
+import { v_list_filters } from "../../../shared/utils/_zod-utils/v-list-filters";
+import { v_export_options } from "../../../shared/utils/_zod-utils/v-export-options";
+import { coordinatePairIssue, hasCoordinatePair, v_coordinates } from "../../../shared/utils/_zod-utils/v-coordinates";
+import {
+  v_currency_code,
+  v_iso_alpha2,
+  v_iso_alpha3,
+  v_iso_numeric,
+  v_language_codes,
+  v_timezones,
+} from "../../../shared/utils/_zod-utils/v-iso-codes";
+import { isValidPostalCodeRegex } from "../../../shared/utils/postal-code.util";
+import { ADDRESS_PLACEHOLDERS, isValidAddressFormat } from "../../../shared/utils/address.util";
+
+export const CONTINENTS = [
+  "Africa",
+  "Antarctica",
+  "Asia",
+  "Europe",
+  "North America",
+  "Oceania",
+  "South America",
+] as const;
+
+// Optional ISO 3166 and reference data, shared by create and update
+const countryMetadataSchema = z.object({
+  iso2: v_iso_alpha2.optional(),
+  iso3: v_iso_alpha3.optional(),
+  isoNumeric: v_iso_numeric.optional(),
+  capital: z
+    .string()
+    .max(255, "Capital must not exceed 255 characters")
+    .trim()
+    .optional(),
+  currencyCode: v_currency_code.optional(),
+  continent: z.enum(CONTINENTS).optional(),
+  region: z
+    .string()
+    .max(100, "Region must not exceed 100 characters")
+    .trim()
+    .optional(),
+  timezones: v_timezones.optional(),
+  languages: v_language_codes.optional(),
+  postalCodeRegex: z
+    .string()
+    .trim()
+    .min(1, "Postal code regex must not be empty")
+    .max(500, "Postal code regex must not exceed 500 characters")
+    .refine(isValidPostalCodeRegex, "Postal code regex must be a valid regular expression")
+    .optional(),
+  addressFormat: z
+    .string()
+    .trim()
+    .min(1, "Address format must not be empty")
+    .max(500, "Address format must not exceed 500 characters")
+    .refine(isValidAddressFormat, `Address format may only use the placeholders ${ADDRESS_PLACEHOLDERS.map((name) => `{${name}}`).join(", ")}`)
+    .optional(),
+});
 
 // Zod schemas for country validation
 export const createCountrySchema = z.object({
@@ -17,7 +75,7 @@ export const createCountrySchema = z.object({
     .max(10, "Phone code must not exceed 10 characters")
     .trim()
     .optional(),
-});
+}).merge(countryMetadataSchema).merge(v_coordinates).refine(hasCoordinatePair, coordinatePairIssue);
 
 export const updateCountrySchema = z.object({
   name: z
@@ -37,14 +95,16 @@ export const updateCountrySchema = z.object({
     .max(10, "Phone code must not exceed 10 characters")
     .trim()
     .optional(),
-});
+}).merge(countryMetadataSchema).merge(v_coordinates);
 
-export const countryFiltersSchema = z.object({
+export const countryFiltersSchema = v_list_filters.extend({
   name: z.string().optional(),
   code: z.string().optional(),
   search: z.string().optional()
 });
 
+export const countryExportQuerySchema = countryFiltersSchema.merge(v_export_options);
+
 export const countryCodeParamSchema = z.object({
   code: z
     .string()
@@ -57,4 +117,16 @@ export const searchTermParamSchema = z.object({
     .string()
     .min(1, "Search term is required")
     .trim()
-});
\ No newline at end of file
+});
+export const countryTreeQuerySchema = z.object({
+  depth: z.coerce.number().int().min(0).max(2).default(2),
+  limit: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().positive().optional(),
+});
+
+// Reference to a parent country by ID, code or name (used by bulk imports)
+export const countryRefSchema = z.object({
+  countryId: z.coerce.number().int("Country ID must be an integer").optional(),
+  countryCode: z.string().trim().optional(),
+  countryName: z.string().trim().optional(),
+});
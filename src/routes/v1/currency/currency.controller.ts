@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import {
+  convertCurrencyService,
+  getAllCurrenciesService,
+  getCurrencyService,
+  importExchangeRatesService,
+} from "./currency.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  parseImportStream,
+  resolveImportFormat,
+} from "../../../shared/utils/import-parser.util";
+import {
+  convertCurrencyQuerySchema,
+  currencyParamsSchema,
+  exchangeRateImportQuerySchema,
+} from "./currency.validation";
+
+// GET /currencies
+export const getAllCurrencies = asyncHandler(
+  async (req: Request, res: Response) => {
+    const currencies = await getAllCurrenciesService();
+    success(res, currencies, "Currencies retrieved successfully");
+  },
+);
+
+// GET /currencies/convert
+export const convertCurrency = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, {
+      query: convertCurrencyQuerySchema,
+    });
+    const conversion = await convertCurrencyService(query);
+    success(res, conversion, "Currency converted successfully");
+  },
+);
+
+// POST /currencies/rates/import
+export const importExchangeRates = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, {
+      query: exchangeRateImportQuerySchema,
+    });
+    const format = resolveImportFormat(req, query.format);
+    const report = await importExchangeRatesService(
+      parseImportStream(req, format),
+      query.dryRun,
+    );
+    success(
+      res,
+      report,
+      report.committed
+        ? "Exchange rates imported successfully"
+        : "Exchange rates import was not committed",
+    );
+  },
+);
+
+// GET /currencies/:code
+export const getCurrency = asyncHandler(async (req: Request, res: Response) => {
+  const { code } = validateRequest(req, {
+    params: currencyParamsSchema,
+  }).params;
+  const currency = await getCurrencyService(code);
+  success(res, currency, "Currency retrieved successfully");
+});
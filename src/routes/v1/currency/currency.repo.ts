@@ -0,0 +1,112 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_countries,
+  TB_currencies,
+  TB_exchangeRates,
+  type Currency,
+  type ExchangeRate,
+  type NewExchangeRate,
+} from "../../../shared/db/schema";
+import { and, asc, desc, eq, inArray, isNull, lte, or } from "drizzle-orm";
+
+export interface CurrencyCountry {
+  id: number;
+  name: string;
+  code: string;
+}
+
+export const findAllCurrenciesRepo = async (): Promise<Currency[]> => {
+  return await db.select().from(TB_currencies).orderBy(TB_currencies.code);
+};
+
+export const findCurrenciesByCodeRepo = async (
+  codes: string[],
+): Promise<Currency[]> => {
+  return await db
+    .select()
+    .from(TB_currencies)
+    .where(inArray(TB_currencies.code, codes));
+};
+
+export const findCurrencyCountriesRepo = async (
+  code: string,
+): Promise<CurrencyCountry[]> => {
+  return await db
+    .select({
+      id: TB_countries.id,
+      name: TB_countries.name,
+      code: TB_countries.code,
+    })
+    .from(TB_countries)
+    .where(
+      and(eq(TB_countries.currencyCode, code), isNull(TB_countries.deletedAt)),
+    )
+    .orderBy(TB_countries.name);
+};
+
+/**
+ * The rate in effect on `date` for every pair that touches one of `codes`:
+ * the latest one dated on or before it.
+ */
+export const findEffectiveRatesRepo = async (
+  codes: string[],
+  date: string,
+): Promise<ExchangeRate[]> => {
+  return await db
+    .selectDistinctOn([TB_exchangeRates.baseCode, TB_exchangeRates.quoteCode])
+    .from(TB_exchangeRates)
+    .where(
+      and(
+        or(
+          inArray(TB_exchangeRates.baseCode, codes),
+          inArray(TB_exchangeRates.quoteCode, codes),
+        ),
+        lte(TB_exchangeRates.effectiveDate, date),
+      ),
+    )
+    .orderBy(
+      asc(TB_exchangeRates.baseCode),
+      asc(TB_exchangeRates.quoteCode),
+      desc(TB_exchangeRates.effectiveDate),
+    );
+};
+
+export const findExchangeRateRepo = async (
+  baseCode: string,
+  quoteCode: string,
+  effectiveDate: string,
+  client: DbClient = db,
+): Promise<ExchangeRate | null> => {
+  const [rate] = await client
+    .select()
+    .from(TB_exchangeRates)
+    .where(
+      and(
+        eq(TB_exchangeRates.baseCode, baseCode),
+        eq(TB_exchangeRates.quoteCode, quoteCode),
+        eq(TB_exchangeRates.effectiveDate, effectiveDate),
+      ),
+    );
+  return rate || null;
+};
+
+export const createExchangeRateRepo = async (
+  data: NewExchangeRate,
+  client: DbClient = db,
+): Promise<ExchangeRate> => {
+  const [rate] = await client.insert(TB_exchangeRates).values(data).returning();
+  return rate;
+};
+
+export const updateExchangeRateRepo = async (
+  id: number,
+  rate: string,
+  client: DbClient = db,
+): Promise<ExchangeRate> => {
+  const [updated] = await client
+    .update(TB_exchangeRates)
+    .set({ rate, updatedAt: new Date() })
+    .where(eq(TB_exchangeRates.id, id))
+    .returning();
+  return updated;
+};
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import {
+  convertCurrency,
+  getAllCurrencies,
+  getCurrency,
+  importExchangeRates,
+} from "./currency.controller";
+import {
+  convertCurrencyQuerySchema,
+  currencyParamsSchema,
+  exchangeRateImportQuerySchema,
+} from "./currency.validation";
+
+const currencyRouter: Router = Router();
+
+// Apply auth middleware to all routes
+currencyRouter.use(authMiddleware);
+
+// GET /currencies - All known currencies
+currencyRouter.get("/", getAllCurrencies);
+
+// GET /currencies/convert - Convert an amount with the rate in effect on a date
+currencyRouter.get(
+  "/convert",
+  validate({
+    query: convertCurrencyQuerySchema,
+  }),
+  convertCurrency,
+);
+
+// POST /currencies/rates/import - Bulk upload of dated exchange rates
+currencyRouter.post(
+  "/rates/import",
+  validate({
+    query: exchangeRateImportQuerySchema,
+  }),
+  importExchangeRates,
+);
+
+// GET /currencies/:code - A currency and the countries using it
+currencyRouter.get(
+  "/:code",
+  validate({
+    params: currencyParamsSchema,
+  }),
+  getCurrency,
+);
+
+export { currencyRouter };
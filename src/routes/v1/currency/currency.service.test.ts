@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { convertCurrencyService } from "./currency.service";
+import {
+  findCurrenciesByCodeRepo,
+  findEffectiveRatesRepo,
+} from "./currency.repo";
+import { type ExchangeRate } from "../../../shared/db/schema";
+import { NotFoundError } from "../../../shared/utils/http-errors.util";
+
+vi.mock("../../../shared/db", () => ({ db: {} }));
+vi.mock("./currency.repo");
+
+const MINOR_UNITS: Record<string, number> = { EUR: 2, USD: 2, GBP: 2, JPY: 0 };
+
+const rate = (
+  baseCode: string,
+  quoteCode: string,
+  value: number,
+  effectiveDate: string,
+) => ({ baseCode, quoteCode, rate: String(value), effectiveDate });
+
+let rates: ReturnType<typeof rate>[] = [];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  rates = [];
+  vi.mocked(findCurrenciesByCodeRepo).mockImplementation(async (codes) =>
+    codes
+      .filter((code) => code in MINOR_UNITS)
+      .map((code) => ({ code, minorUnits: MINOR_UNITS[code] }) as never),
+  );
+  vi.mocked(findEffectiveRatesRepo).mockImplementation(
+    async () => rates as ExchangeRate[],
+  );
+});
+
+const convert = (from: string, to: string, amount = 100) =>
+  convertCurrencyService({ from, to, amount, date: "2024-05-10" });
+
+describe("convertCurrencyService", () => {
+  it("applies a stored rate", async () => {
+    rates = [rate("EUR", "USD", 1.08, "2024-05-09")];
+
+    expect(await convert("EUR", "USD")).toMatchObject({
+      result: 108,
+      rate: 1.08,
+      rateDate: "2024-05-09",
+      via: null,
+    });
+  });
+
+  it("inverts a rate stored the other way round", async () => {
+    rates = [rate("USD", "EUR", 0.8, "2024-05-09")];
+
+    expect(await convert("EUR", "USD")).toMatchObject({
+      result: 125,
+      rate: 1.25,
+      via: null,
+    });
+  });
+
+  it("prefers the fresher of a rate and its inverse", async () => {
+    rates = [
+      rate("EUR", "USD", 1.05, "2024-05-01"),
+      rate("USD", "EUR", 0.8, "2024-05-09"),
+    ];
+
+    expect(await convert("EUR", "USD")).toMatchObject({
+      rate: 1.25,
+      rateDate: "2024-05-09",
+    });
+  });
+
+  it("crosses through a shared currency, dated by the older leg", async () => {
+    rates = [
+      rate("USD", "GBP", 0.8, "2024-05-08"),
+      rate("USD", "JPY", 150, "2024-05-10"),
+    ];
+
+    expect(await convert("GBP", "JPY")).toMatchObject({
+      result: 18750,
+      rate: 187.5,
+      rateDate: "2024-05-08",
+      via: "USD",
+    });
+  });
+
+  it("picks the pivot with the freshest legs", async () => {
+    rates = [
+      rate("EUR", "GBP", 0.85, "2024-05-01"),
+      rate("EUR", "JPY", 170, "2024-05-01"),
+      rate("USD", "GBP", 0.8, "2024-05-09"),
+      rate("USD", "JPY", 150, "2024-05-09"),
+    ];
+
+    expect(await convert("GBP", "JPY")).toMatchObject({
+      via: "USD",
+      rateDate: "2024-05-09",
+    });
+  });
+
+  it("rounds to the minor units of the target currency", async () => {
+    rates = [rate("USD", "JPY", 151.237, "2024-05-09")];
+
+    expect((await convert("USD", "JPY", 1.5)).result).toBe(227);
+  });
+
+  it("converts a currency to itself at par", async () => {
+    expect(await convert("EUR", "EUR")).toMatchObject({
+      result: 100,
+      rate: 1,
+      rateDate: "2024-05-10",
+    });
+    expect(findEffectiveRatesRepo).not.toHaveBeenCalled();
+  });
+
+  it("reports pairs without a rate", async () => {
+    rates = [rate("EUR", "USD", 1.08, "2024-05-09")];
+
+    await expect(convert("GBP", "JPY")).rejects.toThrow(
+      new NotFoundError(
+        "No exchange rate from GBP to JPY on or before 2024-05-10",
+      ),
+    );
+  });
+
+  it("reports unknown currencies", async () => {
+    await expect(convert("EUR", "XXX")).rejects.toThrow(
+      new NotFoundError("Currency 'XXX' not found"),
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import {
+  createExchangeRateRepo,
+  findAllCurrenciesRepo,
+  findCurrenciesByCodeRepo,
+  findCurrencyCountriesRepo,
+  findEffectiveRatesRepo,
+  findExchangeRateRepo,
+  updateExchangeRateRepo,
+  type CurrencyCountry,
+} from "./currency.repo";
+import {
+  convertCurrencyQuerySchema,
+  exchangeRateRowSchema,
+} from "./currency.validation";
+import { type Currency, type ExchangeRate } from "../../../shared/db/schema";
+import { registerCurrencies } from "../../../shared/db/currencies";
+import { runImport, type ImportReport } from "../../../shared/db/bulk-import";
+import { type ParsedImportRow } from "../../../shared/utils/import-parser.util";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+
+export type ConvertCurrencyInput = z.infer<typeof convertCurrencyQuerySchema>;
+
+export type CurrencyDetails = Currency & { countries: CurrencyCountry[] };
+
+export interface Conversion {
+  from: string;
+  to: string;
+  amount: number;
+  result: number;
+  rate: number;
+  // Day the conversion was asked for
+  date: string;
+  // Effective date of the rate that was applied
+  rateDate: string;
+  // Pivot currency when no rate exists between the pair itself
+  via: string | null;
+}
+
+interface RateLeg {
+  rate: number;
+  date: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Picks the freshest way from `from` to `to`: a stored rate, its inverse, or
+ * a cross rate through a shared currency. A cross rate is only as recent as
+ * its older leg.
+ */
+const resolveRate = (
+  from: string,
+  to: string,
+  rates: ExchangeRate[],
+): { rate: number; rateDate: string; via: string | null } | null => {
+  const legs = new Map<string, RateLeg>();
+  const put = (base: string, quote: string, leg: RateLeg) => {
+    const current = legs.get(`${base}/${quote}`);
+    if (!current || leg.date > current.date) {
+      legs.set(`${base}/${quote}`, leg);
+    }
+  };
+  // Stored rates first, so they win over an inverse of the same day
+  for (const row of rates) {
+    put(row.baseCode, row.quoteCode, {
+      rate: Number(row.rate),
+      date: row.effectiveDate,
+    });
+  }
+  for (const row of rates) {
+    put(row.quoteCode, row.baseCode, {
+      rate: 1 / Number(row.rate),
+      date: row.effectiveDate,
+    });
+  }
+
+  const direct = legs.get(`${from}/${to}`);
+  if (direct) {
+    return { rate: direct.rate, rateDate: direct.date, via: null };
+  }
+
+  const pivots = new Set(rates.flatMap((row) => [row.baseCode, row.quoteCode]));
+  let best: { rate: number; rateDate: string; via: string | null } | null =
+    null;
+  for (const via of [...pivots].sort()) {
+    const first = legs.get(`${from}/${via}`);
+    const second = legs.get(`${via}/${to}`);
+    if (!first || !second) continue;
+
+    const rateDate = first.date < second.date ? first.date : second.date;
+    if (!best || rateDate > best.rateDate) {
+      best = { rate: first.rate * second.rate, rateDate, via };
+    }
+  }
+  return best;
+};
+
+export const getAllCurrenciesService = async (): Promise<Currency[]> => {
+  try {
+    return await findAllCurrenciesRepo();
+  } catch (error) {
+    throw new BadRequestError("Failed to retrieve currencies", error);
+  }
+};
+
+export const getCurrencyService = async (
+  code: string,
+): Promise<CurrencyDetails> => {
+  const [currency] = await findCurrenciesByCodeRepo([code]);
+  if (!currency) {
+    throw new NotFoundError(`Currency '${code}' not found`);
+  }
+
+  try {
+    return { ...currency, countries: await findCurrencyCountriesRepo(code) };
+  } catch (error) {
+    throw new BadRequestError("Failed to retrieve currency", error);
+  }
+};
+
+export const convertCurrencyService = async ({
+  from,
+  to,
+  amount,
+  date = today(),
+}: ConvertCurrencyInput): Promise<Conversion> => {
+  try {
+    const currencies = await findCurrenciesByCodeRepo([from, to]);
+    for (const code of [from, to]) {
+      if (!currencies.some((currency) => currency.code === code)) {
+        throw new NotFoundError(`Currency '${code}' not found`);
+      }
+    }
+
+    const resolved =
+      from === to
+        ? { rate: 1, rateDate: date, via: null }
+        : resolveRate(from, to, await findEffectiveRatesRepo([from, to], date));
+    if (!resolved) {
+      throw new NotFoundError(
+        `No exchange rate from ${from} to ${to} on or before ${date}`,
+      );
+    }
+
+    const { minorUnits } = currencies.find((currency) => currency.code === to)!;
+    return {
+      from,
+      to,
+      amount,
+      result: Number((amount * resolved.rate).toFixed(minorUnits)),
+      rate: Number(resolved.rate.toPrecision(12)),
+      date,
+      rateDate: resolved.rateDate,
+      via: resolved.via,
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to convert currency", error);
+  }
+};
+
+// Re-uploading a pair and date replaces its rate; unknown currencies are registered
+export const importExchangeRatesService = async (
+  rows: AsyncIterable<ParsedImportRow>,
+  dryRun: boolean,
+): Promise<ImportReport> => {
+  return await runImport({
+    rows,
+    dryRun,
+    importRow: async (record, tx) => {
+      const { base, quote, rate, date } = exchangeRateRowSchema.parse(record);
+      await registerCurrencies([base, quote], tx);
+
+      const existing = await findExchangeRateRepo(base, quote, date, tx);
+      if (!existing) {
+        await createExchangeRateRepo(
+          {
+            baseCode: base,
+            quoteCode: quote,
+            rate: String(rate),
+            effectiveDate: date,
+          },
+          tx,
+        );
+        return "created";
+      }
+
+      if (Number(existing.rate) === rate) {
+        return "skipped";
+      }
+      await updateExchangeRateRepo(existing.id, String(rate), tx);
+      return "updated";
+    },
+  });
+};
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { v_currency_code } from "../../../shared/utils/_zod-utils/v-iso-codes";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+
+// CSV imports hand every cell over as a string
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+const v_rate_date = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return (
+      !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    );
+  }, "Date must be a valid calendar date");
+
+export const currencyParamsSchema = z.object({
+  code: v_currency_code,
+});
+
+export const convertCurrencyQuerySchema = z.object({
+  from: v_currency_code,
+  to: v_currency_code,
+  amount: z.coerce
+    .number({ invalid_type_error: "Amount must be a number" })
+    .finite("Amount must be a finite number"),
+  // Defaults to today (UTC)
+  date: v_rate_date.optional(),
+});
+
+export const exchangeRateImportQuerySchema = v_import_options;
+
+// One row of a bulk rate upload: 1 `base` = `rate` `quote` from `date` on
+export const exchangeRateRowSchema = z
+  .object({
+    base: v_currency_code,
+    quote: v_currency_code,
+    rate: z.preprocess(
+      toNumber,
+      z
+        .number({ invalid_type_error: "Rate must be a number" })
+        .positive("Rate must be greater than 0"),
+    ),
+    date: v_rate_date,
+  })
+  .refine((row) => row.base !== row.quote, {
+    message: "Base and quote currency must differ",
+    path: ["quote"],
+  });
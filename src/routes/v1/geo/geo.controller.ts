@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { reverseGeocodeService } from "./geo.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { reverseGeocodeQuerySchema } from "./geo.validation";
+
+// GET /geo/reverse
+export const reverseGeocode = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { lat, lng, radiusKm } = validateRequest(req, {
+      query: reverseGeocodeQuerySchema,
+    }).query;
+    const result = await reverseGeocodeService({
+      latitude: lat,
+      longitude: lng,
+      radiusKm,
+    });
+    success(res, result, "Location resolved successfully");
+  },
+);
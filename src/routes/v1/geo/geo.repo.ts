@@ -0,0 +1,177 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_countries,
+  TB_countryBoundaries,
+  TB_stateBoundaries,
+  TB_states,
+  type CountryBoundary,
+  type StateBoundary,
+} from "../../../shared/db/schema";
+import { and, eq, gte, isNull, lte, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+  geometryBoundingBox,
+  type BoundaryGeometry,
+  type Coordinates,
+} from "../../../shared/utils/geo.util";
+
+export interface StateBoundaryCandidate {
+  stateId: number;
+  countryId: number;
+  geometry: BoundaryGeometry;
+}
+
+export interface CountryBoundaryCandidate {
+  countryId: number;
+  geometry: BoundaryGeometry;
+}
+
+type BoundaryBoxColumns = Record<
+  "minLatitude" | "maxLatitude" | "minLongitude" | "maxLongitude",
+  AnyPgColumn
+>;
+
+const boxContains = (
+  table: BoundaryBoxColumns,
+  { latitude, longitude }: Coordinates,
+): SQL | undefined =>
+  and(
+    lte(table.minLatitude, latitude),
+    gte(table.maxLatitude, latitude),
+    lte(table.minLongitude, longitude),
+    gte(table.maxLongitude, longitude),
+  );
+
+// Smaller boxes first, so an enclave wins over the region around it
+const boxArea = (table: BoundaryBoxColumns) =>
+  sql`(${table.maxLatitude} - ${table.minLatitude}) * (${table.maxLongitude} - ${table.minLongitude})`;
+
+export const upsertCountryBoundaryRepo = async (
+  countryId: number,
+  geometry: BoundaryGeometry,
+  client: DbClient = db,
+): Promise<CountryBoundary> => {
+  const values = {
+    geometry,
+    ...geometryBoundingBox(geometry),
+    updatedAt: new Date(),
+  };
+  const [boundary] = await client
+    .insert(TB_countryBoundaries)
+    .values({ countryId, ...values })
+    .onConflictDoUpdate({ target: TB_countryBoundaries.countryId, set: values })
+    .returning();
+  return boundary;
+};
+
+export const findCountryBoundaryRepo = async (
+  countryId: number,
+  client: DbClient = db,
+): Promise<CountryBoundary | null> => {
+  const [boundary] = await client
+    .select()
+    .from(TB_countryBoundaries)
+    .where(eq(TB_countryBoundaries.countryId, countryId))
+    .limit(1);
+  return boundary || null;
+};
+
+export const deleteCountryBoundaryRepo = async (
+  countryId: number,
+  client: DbClient = db,
+): Promise<CountryBoundary | null> => {
+  const [boundary] = await client
+    .delete(TB_countryBoundaries)
+    .where(eq(TB_countryBoundaries.countryId, countryId))
+    .returning();
+  return boundary || null;
+};
+
+export const upsertStateBoundaryRepo = async (
+  stateId: number,
+  geometry: BoundaryGeometry,
+  client: DbClient = db,
+): Promise<StateBoundary> => {
+  const values = {
+    geometry,
+    ...geometryBoundingBox(geometry),
+    updatedAt: new Date(),
+  };
+  const [boundary] = await client
+    .insert(TB_stateBoundaries)
+    .values({ stateId, ...values })
+    .onConflictDoUpdate({ target: TB_stateBoundaries.stateId, set: values })
+    .returning();
+  return boundary;
+};
+
+export const findStateBoundaryRepo = async (
+  stateId: number,
+  client: DbClient = db,
+): Promise<StateBoundary | null> => {
+  const [boundary] = await client
+    .select()
+    .from(TB_stateBoundaries)
+    .where(eq(TB_stateBoundaries.stateId, stateId))
+    .limit(1);
+  return boundary || null;
+};
+
+export const deleteStateBoundaryRepo = async (
+  stateId: number,
+  client: DbClient = db,
+): Promise<StateBoundary | null> => {
+  const [boundary] = await client
+    .delete(TB_stateBoundaries)
+    .where(eq(TB_stateBoundaries.stateId, stateId))
+    .returning();
+  return boundary || null;
+};
+
+/**
+ * Boundaries of live states whose bounding box holds the point. The caller
+ * still has to test the polygons themselves.
+ */
+export const findStateBoundaryCandidatesRepo = async (
+  point: Coordinates,
+): Promise<StateBoundaryCandidate[]> => {
+  return await db
+    .select({
+      stateId: TB_stateBoundaries.stateId,
+      countryId: TB_states.countryId,
+      geometry: TB_stateBoundaries.geometry,
+    })
+    .from(TB_stateBoundaries)
+    .innerJoin(TB_states, eq(TB_states.id, TB_stateBoundaries.stateId))
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_states.countryId))
+    .where(
+      and(
+        boxContains(TB_stateBoundaries, point),
+        isNull(TB_states.deletedAt),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(boxArea(TB_stateBoundaries));
+};
+
+export const findCountryBoundaryCandidatesRepo = async (
+  point: Coordinates,
+): Promise<CountryBoundaryCandidate[]> => {
+  return await db
+    .select({
+      countryId: TB_countryBoundaries.countryId,
+      geometry: TB_countryBoundaries.geometry,
+    })
+    .from(TB_countryBoundaries)
+    .innerJoin(
+      TB_countries,
+      eq(TB_countries.id, TB_countryBoundaries.countryId),
+    )
+    .where(
+      and(
+        boxContains(TB_countryBoundaries, point),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(boxArea(TB_countryBoundaries));
+};
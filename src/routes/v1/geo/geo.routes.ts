@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { reverseGeocode } from "./geo.controller";
+import { reverseGeocodeQuerySchema } from "./geo.validation";
+
+const geoRouter: Router = Router();
+
+// Apply auth middleware to all routes
+geoRouter.use(authMiddleware);
+
+// GET /geo/reverse - Resolve coordinates to a city, state and country
+geoRouter.get(
+  "/reverse",
+  validate({
+    query: reverseGeocodeQuerySchema,
+  }),
+  reverseGeocode,
+);
+
+export { geoRouter };
@@ -0,0 +1,172 @@
+import {
+  deleteCountryBoundaryRepo,
+  deleteStateBoundaryRepo,
+  findCountryBoundaryCandidatesRepo,
+  findCountryBoundaryRepo,
+  findStateBoundaryCandidatesRepo,
+  findStateBoundaryRepo,
+  upsertCountryBoundaryRepo,
+  upsertStateBoundaryRepo,
+} from "./geo.repo";
+import { findCountryByIdRepo } from "../country/country.repo";
+import { findStateByIdRepo } from "../state/state.repo";
+import { findCityByIdRepo, findNearbyCitiesRepo } from "../city/city.repo";
+import {
+  type City,
+  type Country,
+  type CountryBoundary,
+  type State,
+  type StateBoundary,
+} from "../../../shared/db/schema";
+import {
+  containsPoint,
+  type BoundaryGeometry,
+  type Coordinates,
+} from "../../../shared/utils/geo.util";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+
+export interface ReverseGeocodeResult {
+  // "boundary" when a polygon held the point, otherwise the nearest city decided
+  match: "boundary" | "nearest-city";
+  country: Country | null;
+  state: State | null;
+  city: City | null;
+  distanceKm: number | null;
+}
+
+export const getCountryBoundaryService = async (
+  countryId: number,
+): Promise<CountryBoundary> => {
+  const boundary = await findCountryBoundaryRepo(countryId);
+  if (!boundary) {
+    throw new NotFoundError(`Country with ID ${countryId} has no boundary`);
+  }
+
+  return boundary;
+};
+
+export const setCountryBoundaryService = async (
+  countryId: number,
+  geometry: BoundaryGeometry,
+): Promise<CountryBoundary> => {
+  const country = await findCountryByIdRepo(countryId);
+  if (!country) {
+    throw new NotFoundError(`Country with ID ${countryId} not found`);
+  }
+
+  try {
+    return await upsertCountryBoundaryRepo(countryId, geometry);
+  } catch (error) {
+    throw new BadRequestError("Failed to save country boundary", error);
+  }
+};
+
+export const deleteCountryBoundaryService = async (
+  countryId: number,
+): Promise<CountryBoundary> => {
+  const boundary = await deleteCountryBoundaryRepo(countryId);
+  if (!boundary) {
+    throw new NotFoundError(`Country with ID ${countryId} has no boundary`);
+  }
+
+  return boundary;
+};
+
+export const getStateBoundaryService = async (
+  stateId: number,
+): Promise<StateBoundary> => {
+  const boundary = await findStateBoundaryRepo(stateId);
+  if (!boundary) {
+    throw new NotFoundError(`State with ID ${stateId} has no boundary`);
+  }
+
+  return boundary;
+};
+
+export const setStateBoundaryService = async (
+  stateId: number,
+  geometry: BoundaryGeometry,
+): Promise<StateBoundary> => {
+  const state = await findStateByIdRepo(stateId);
+  if (!state) {
+    throw new NotFoundError(`State with ID ${stateId} not found`);
+  }
+
+  try {
+    return await upsertStateBoundaryRepo(stateId, geometry);
+  } catch (error) {
+    throw new BadRequestError("Failed to save state boundary", error);
+  }
+};
+
+export const deleteStateBoundaryService = async (
+  stateId: number,
+): Promise<StateBoundary> => {
+  const boundary = await deleteStateBoundaryRepo(stateId);
+  if (!boundary) {
+    throw new NotFoundError(`State with ID ${stateId} has no boundary`);
+  }
+
+  return boundary;
+};
+
+/**
+ * Resolves a point to the state and country whose boundary holds it, and the
+ * nearest city inside them. Whatever no boundary settles, such as the state
+ * of a country without state boundaries, comes from the nearest city within
+ * `radiusKm`.
+ */
+export const reverseGeocodeService = async ({
+  radiusKm,
+  ...point
+}: Coordinates & { radiusKm: number }): Promise<ReverseGeocodeResult> => {
+  try {
+    const states = await findStateBoundaryCandidatesRepo(point);
+    const stateMatch = states.find(({ geometry }) =>
+      containsPoint(geometry, point),
+    );
+
+    let countryId = stateMatch?.countryId;
+    if (!stateMatch) {
+      const countries = await findCountryBoundaryCandidatesRepo(point);
+      countryId = countries.find(({ geometry }) =>
+        containsPoint(geometry, point),
+      )?.countryId;
+    }
+
+    const [nearest] = await findNearbyCitiesRepo({
+      ...point,
+      radiusKm,
+      limit: 1,
+      stateId: stateMatch?.stateId,
+      countryId,
+    });
+
+    if (countryId === undefined && !nearest) {
+      throw new NotFoundError(
+        `No boundary or city within ${radiusKm} km of ${point.latitude}, ${point.longitude}`,
+      );
+    }
+
+    const stateId = stateMatch?.stateId ?? nearest?.stateId;
+    const state =
+      stateId === undefined ? null : await findStateByIdRepo(stateId);
+
+    return {
+      match: countryId === undefined ? "nearest-city" : "boundary",
+      country: await findCountryByIdRepo(countryId ?? state!.countryId),
+      state,
+      city: nearest ? await findCityByIdRepo(nearest.id) : null,
+      distanceKm: nearest?.distanceKm ?? null,
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to reverse geocode", error);
+  }
+};
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import {
+  v_latitude,
+  v_longitude,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { v_boundary_geometry } from "../../../shared/utils/_zod-utils/v-geojson";
+
+export const reverseGeocodeQuerySchema = z.object({
+  lat: v_latitude,
+  lng: v_longitude,
+  // How far to look for the nearest city
+  radiusKm: z.coerce
+    .number()
+    .positive("Radius must be positive")
+    .max(500, "Radius must not exceed 500 km")
+    .default(50),
+});
+
+export const boundaryBodySchema = v_boundary_geometry;
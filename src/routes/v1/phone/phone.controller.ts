@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { normalizePhoneService } from "./phone.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { normalizePhoneSchema } from "./phone.validation";
+
+// POST /phone/normalize
+export const normalizePhone = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { body } = validateRequest(req, { body: normalizePhoneSchema });
+    const phone = await normalizePhoneService(body);
+    success(res, phone, "Phone number normalized successfully");
+  },
+);
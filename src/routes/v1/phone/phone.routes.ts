@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { normalizePhone } from "./phone.controller";
+import { normalizePhoneSchema } from "./phone.validation";
+
+const phoneRouter: Router = Router();
+
+// Apply auth middleware to all routes
+phoneRouter.use(authMiddleware);
+
+// POST /phone/normalize - E.164 form, validity and country of a raw number
+phoneRouter.post(
+  "/normalize",
+  validate({
+    body: normalizePhoneSchema,
+  }),
+  normalizePhone,
+);
+
+export { phoneRouter };
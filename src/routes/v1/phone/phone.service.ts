@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { normalizePhoneSchema } from "./phone.validation";
+import { findCountryByAnyCodeRepo } from "../country/country.repo";
+import { localizeOneService } from "../translation/translation.service";
+import { loadDialCodes } from "../../../shared/db/dial-codes";
+import { parsePhoneNumber } from "../../../shared/utils/phone.util";
+import {
+  BadRequestError,
+  HttpError,
+} from "../../../shared/utils/http-errors.util";
+
+export type NormalizePhoneInput = z.infer<typeof normalizePhoneSchema>;
+
+export interface NormalizedPhone {
+  input: string;
+  e164: string | null;
+  valid: boolean;
+  country: { id: number; name: string; code: string } | null;
+  candidates: string[];
+  callingCode: string | null;
+  nationalNumber: string | null;
+  nationalFormat: string | null;
+}
+
+export const normalizePhoneService = async ({
+  number,
+  country: countryCode,
+}: NormalizePhoneInput): Promise<NormalizedPhone> => {
+  try {
+    const dialCodes = await loadDialCodes();
+
+    let country;
+    if (countryCode) {
+      const match = await findCountryByAnyCodeRepo(countryCode);
+      if (!match) {
+        throw new BadRequestError(
+          `Country with code '${countryCode}' does not exist.`,
+        );
+      }
+      country = dialCodes.find((dialCode) => dialCode.countryId === match.id);
+      if (!country) {
+        throw new BadRequestError(
+          `Country with code '${countryCode}' has no phone code.`,
+        );
+      }
+    }
+
+    const { country: detected, ...phone } = parsePhoneNumber(number, {
+      country,
+      dialCodes,
+    });
+    return {
+      ...phone,
+      country: detected
+        ? await localizeOneService("country", {
+            id: detected.countryId,
+            name: detected.name,
+            code: detected.country,
+          })
+        : null,
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to normalize phone number", error);
+  }
+};
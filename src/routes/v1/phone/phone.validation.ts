@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const normalizePhoneSchema = z.object({
+  number: z
+    .string()
+    .trim()
+    .min(1, "Number is required")
+    .max(50, "Number must not exceed 50 characters"),
+  // Any country code; needed to read numbers written without "+"
+  country: z
+    .string()
+    .trim()
+    .min(2, "Country code must be at least 2 characters")
+    .max(10, "Country code must not exceed 10 characters")
+    .optional(),
+});
@@ -0,0 +1,58 @@
+import { Request, Response } from "express";
+import {
+  importPostalCodesService,
+  lookupPostalCodeService,
+  validatePostalCodeService,
+} from "./postal-code.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { parseTsvStream } from "../../../shared/utils/import-parser.util";
+import {
+  GEONAMES_POSTAL_CODE_COLUMNS,
+  postalCodeImportQuerySchema,
+  postalCodeParamsSchema,
+  validatePostalCodeSchema,
+} from "./postal-code.validation";
+
+// GET /postal-codes/:country/:code
+export const lookupPostalCode = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { country, code } = validateRequest(req, {
+      params: postalCodeParamsSchema,
+    }).params;
+    const result = await lookupPostalCodeService(country, code);
+    success(res, result, "Postal code retrieved successfully");
+  },
+);
+
+// POST /postal-codes/validate
+export const validatePostalCode = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { country, code } = validateRequest(req, {
+      body: validatePostalCodeSchema,
+    }).body;
+    const result = await validatePostalCodeService(country, code);
+    success(res, result, "Postal code validated successfully");
+  },
+);
+
+// POST /postal-codes/import
+export const importPostalCodes = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, {
+      query: postalCodeImportQuerySchema,
+    });
+    const report = await importPostalCodesService(
+      parseTsvStream(req, GEONAMES_POSTAL_CODE_COLUMNS),
+      query.dryRun,
+    );
+    success(
+      res,
+      report,
+      report.committed
+        ? "Postal codes imported successfully"
+        : "Postal codes import was not committed",
+    );
+  },
+);
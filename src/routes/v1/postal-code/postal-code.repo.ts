@@ -0,0 +1,119 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_cities,
+  TB_postalCodes,
+  TB_states,
+  type NewPostalCode,
+  type PostalCode,
+} from "../../../shared/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { localizedName } from "../translation/translation.repo";
+
+export interface PostalCodePlace {
+  placeName: string;
+  latitude: number | null;
+  longitude: number | null;
+  city: { id: number; name: string } | null;
+  state: { id: number; name: string } | null;
+}
+
+/**
+ * Every place sharing the code. Places whose city has been deleted, or was
+ * never matched, come back without a city and state.
+ */
+export const findPostalCodePlacesRepo = async (
+  countryId: number,
+  code: string,
+  locales: string[] = [],
+): Promise<PostalCodePlace[]> => {
+  const rows = await db
+    .select({
+      placeName: TB_postalCodes.placeName,
+      latitude: TB_postalCodes.latitude,
+      longitude: TB_postalCodes.longitude,
+      cityId: TB_cities.id,
+      cityName: localizedName("city", TB_cities.id, TB_cities.name, locales),
+      stateId: TB_states.id,
+      stateName: localizedName("state", TB_states.id, TB_states.name, locales),
+    })
+    .from(TB_postalCodes)
+    .leftJoin(
+      TB_cities,
+      and(eq(TB_cities.id, TB_postalCodes.cityId), isNull(TB_cities.deletedAt)),
+    )
+    .leftJoin(
+      TB_states,
+      and(eq(TB_states.id, TB_cities.stateId), isNull(TB_states.deletedAt)),
+    )
+    .where(
+      and(
+        eq(TB_postalCodes.countryId, countryId),
+        eq(TB_postalCodes.code, code),
+      ),
+    )
+    .orderBy(TB_postalCodes.placeName);
+
+  return rows.map(({ cityId, cityName, stateId, stateName, ...place }) => ({
+    ...place,
+    city: cityId === null ? null : { id: cityId, name: cityName },
+    state: stateId === null ? null : { id: stateId, name: stateName },
+  }));
+};
+
+export const existsPostalCodeRepo = async (
+  countryId: number,
+  code: string,
+): Promise<boolean> => {
+  const [row] = await db
+    .select({ id: TB_postalCodes.id })
+    .from(TB_postalCodes)
+    .where(
+      and(
+        eq(TB_postalCodes.countryId, countryId),
+        eq(TB_postalCodes.code, code),
+      ),
+    )
+    .limit(1);
+  return !!row;
+};
+
+export const findPostalCodeRepo = async (
+  countryId: number,
+  code: string,
+  placeName: string,
+  client: DbClient = db,
+): Promise<PostalCode | null> => {
+  const [row] = await client
+    .select()
+    .from(TB_postalCodes)
+    .where(
+      and(
+        eq(TB_postalCodes.countryId, countryId),
+        eq(TB_postalCodes.code, code),
+        eq(TB_postalCodes.placeName, placeName),
+      ),
+    )
+    .limit(1);
+  return row || null;
+};
+
+export const createPostalCodeRepo = async (
+  data: NewPostalCode,
+  client: DbClient = db,
+): Promise<PostalCode> => {
+  const [row] = await client.insert(TB_postalCodes).values(data).returning();
+  return row;
+};
+
+export const updatePostalCodeRepo = async (
+  id: number,
+  data: Pick<NewPostalCode, "cityId" | "latitude" | "longitude">,
+  client: DbClient = db,
+): Promise<PostalCode> => {
+  const [row] = await client
+    .update(TB_postalCodes)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(TB_postalCodes.id, id))
+    .returning();
+  return row;
+};
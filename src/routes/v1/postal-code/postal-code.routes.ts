@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import {
+  importPostalCodes,
+  lookupPostalCode,
+  validatePostalCode,
+} from "./postal-code.controller";
+import {
+  postalCodeImportQuerySchema,
+  postalCodeParamsSchema,
+  validatePostalCodeSchema,
+} from "./postal-code.validation";
+
+const postalCodeRouter: Router = Router();
+
+// Apply auth middleware to all routes
+postalCodeRouter.use(authMiddleware);
+
+// POST /postal-codes/import - Load a GeoNames tab-separated postal code file
+postalCodeRouter.post(
+  "/import",
+  validate({
+    query: postalCodeImportQuerySchema,
+  }),
+  importPostalCodes,
+);
+
+// POST /postal-codes/validate - Check a code against its country's format
+postalCodeRouter.post(
+  "/validate",
+  validate({
+    body: validatePostalCodeSchema,
+  }),
+  validatePostalCode,
+);
+
+// GET /postal-codes/:country/:code - Resolve a code to its places
+postalCodeRouter.get(
+  "/:country/:code",
+  validate({
+    params: postalCodeParamsSchema,
+  }),
+  lookupPostalCode,
+);
+
+export { postalCodeRouter };
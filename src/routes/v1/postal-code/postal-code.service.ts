@@ -0,0 +1,182 @@
+import { z } from "zod";
+import {
+  createPostalCodeRepo,
+  existsPostalCodeRepo,
+  findPostalCodePlacesRepo,
+  findPostalCodeRepo,
+  updatePostalCodeRepo,
+  type PostalCodePlace,
+} from "./postal-code.repo";
+import { geoNamesPostalCodeSchema } from "./postal-code.validation";
+import { findCountryByAnyCodeRepo } from "../country/country.repo";
+import { findStatesByNameRepo } from "../state/state.repo";
+import { findCityByNameRepo } from "../city/city.repo";
+import { localizeOneService } from "../translation/translation.service";
+import { type DbClient } from "../../../shared/db";
+import { type Country } from "../../../shared/db/schema";
+import { runImport, type ImportReport } from "../../../shared/db/bulk-import";
+import { type ParsedImportRow } from "../../../shared/utils/import-parser.util";
+import {
+  matchesPostalCodeFormat,
+  normalizePostalCode,
+} from "../../../shared/utils/postal-code.util";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+import { getRequestContext } from "../../../shared/middlewares/request-context.middleware";
+
+export interface PostalCodeLookup {
+  code: string;
+  country: { id: number; name: string; code: string };
+  places: PostalCodePlace[];
+}
+
+export interface PostalCodeValidation {
+  country: string;
+  code: string;
+  // Null when the country has no format rule
+  formatValid: boolean | null;
+  known: boolean;
+  valid: boolean;
+}
+
+const getCountryOrThrow = async (code: string): Promise<Country> => {
+  const country = await findCountryByAnyCodeRepo(code);
+  if (!country) {
+    throw new NotFoundError(`Country with code '${code}' not found`);
+  }
+  return country;
+};
+
+const formatValid = (country: Country, code: string): boolean | null =>
+  country.postalCodeRegex
+    ? matchesPostalCodeFormat(code, country.postalCodeRegex)
+    : null;
+
+export const lookupPostalCodeService = async (
+  countryCode: string,
+  postalCode: string,
+): Promise<PostalCodeLookup> => {
+  const country = await getCountryOrThrow(countryCode);
+  const code = normalizePostalCode(postalCode);
+
+  try {
+    const places = await findPostalCodePlacesRepo(
+      country.id,
+      code,
+      getRequestContext()?.locales,
+    );
+    if (!places.length) {
+      throw new NotFoundError(
+        `Postal code '${code}' not found in ${country.code}`,
+      );
+    }
+
+    const { id, name } = await localizeOneService("country", country);
+    return { code, country: { id, name, code: country.code }, places };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError("Failed to look up postal code", error);
+  }
+};
+
+/**
+ * A code is valid when it matches the country's format rule. Countries
+ * without a rule only accept codes that are on file.
+ */
+export const validatePostalCodeService = async (
+  countryCode: string,
+  postalCode: string,
+): Promise<PostalCodeValidation> => {
+  const country = await getCountryOrThrow(countryCode);
+  const code = normalizePostalCode(postalCode);
+
+  try {
+    const format = formatValid(country, code);
+    const known = await existsPostalCodeRepo(country.id, code);
+    return {
+      country: country.code,
+      code,
+      formatValid: format,
+      known,
+      valid: format ?? known,
+    };
+  } catch (error) {
+    throw new BadRequestError("Failed to validate postal code", error);
+  }
+};
+
+// Links a GeoNames place to a city when its state and name match exactly once
+const resolveCityId = async (
+  countryId: number,
+  { adminName1, placeName }: z.infer<typeof geoNamesPostalCodeSchema>,
+  client: DbClient,
+): Promise<number | null> => {
+  if (!adminName1) return null;
+
+  const states = await findStatesByNameRepo(adminName1, countryId, { client });
+  if (states.length !== 1) return null;
+
+  const city = await findCityByNameRepo(states[0].id, placeName, { client });
+  return city?.id ?? null;
+};
+
+export const importPostalCodesService = async (
+  rows: AsyncIterable<ParsedImportRow>,
+  dryRun: boolean,
+): Promise<ImportReport> => {
+  return await runImport({
+    rows,
+    dryRun,
+    importRow: async (record, tx) => {
+      const data = geoNamesPostalCodeSchema.parse(record);
+      const country = await findCountryByAnyCodeRepo(data.countryCode, {
+        client: tx,
+      });
+      if (!country) {
+        throw new BadRequestError(
+          `Country with code '${data.countryCode}' does not exist.`,
+        );
+      }
+
+      const code = normalizePostalCode(data.postalCode);
+      if (formatValid(country, code) === false) {
+        throw new BadRequestError(
+          `Postal code '${code}' does not match the format of ${country.code}.`,
+        );
+      }
+
+      const values = {
+        cityId: await resolveCityId(country.id, data, tx),
+        latitude: data.latitude ?? null,
+        longitude: data.longitude ?? null,
+      };
+      const existing = await findPostalCodeRepo(
+        country.id,
+        code,
+        data.placeName,
+        tx,
+      );
+      if (!existing) {
+        await createPostalCodeRepo(
+          { ...values, countryId: country.id, code, placeName: data.placeName },
+          tx,
+        );
+        return "created";
+      }
+
+      const unchanged = (Object.keys(values) as (keyof typeof values)[]).every(
+        (key) => existing[key] === values[key],
+      );
+      if (unchanged) {
+        return "skipped";
+      }
+      await updatePostalCodeRepo(existing.id, values, tx);
+      return "updated";
+    },
+  });
+};
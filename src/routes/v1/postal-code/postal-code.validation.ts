@@ -0,0 +1,62 @@
+import { z } from "zod";
+import {
+  v_latitude,
+  v_longitude,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+
+// Field order of the GeoNames postal code dump (allCountries.txt, XX.txt)
+export const GEONAMES_POSTAL_CODE_COLUMNS = [
+  "countryCode",
+  "postalCode",
+  "placeName",
+  "adminName1",
+  "adminCode1",
+  "adminName2",
+  "adminCode2",
+  "adminName3",
+  "adminCode3",
+  "latitude",
+  "longitude",
+  "accuracy",
+] as const;
+
+const v_country_ref = z
+  .string()
+  .trim()
+  .min(2, "Country code must be at least 2 characters")
+  .max(10, "Country code must not exceed 10 characters");
+
+const v_postal_code = z
+  .string()
+  .trim()
+  .min(1, "Postal code is required")
+  .max(20, "Postal code must not exceed 20 characters");
+
+export const postalCodeParamsSchema = z.object({
+  country: v_country_ref,
+  code: v_postal_code,
+});
+
+export const validatePostalCodeSchema = z.object({
+  country: v_country_ref,
+  code: v_postal_code,
+});
+
+export const postalCodeImportQuerySchema = v_import_options.pick({
+  dryRun: true,
+});
+
+export const geoNamesPostalCodeSchema = z.object({
+  countryCode: v_country_ref,
+  postalCode: v_postal_code,
+  placeName: z
+    .string()
+    .trim()
+    .min(1, "Place name is required")
+    .max(255, "Place name must not exceed 255 characters"),
+  // First-level division, matched against state names
+  adminName1: z.string().trim().optional(),
+  latitude: v_latitude.optional(),
+  longitude: v_longitude.optional(),
+});
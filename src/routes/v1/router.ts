@@ -2,6 +2,15 @@ import { Router } from "express";
 import { countryRouter } from "./country/country.routes";
 import { stateRouter } from "./state/state.routes";
 import { cityRouter } from "./city/city.routes";
+import { auditRouter } from "./audit/audit.routes";
+import { searchRouter } from "./search/search.routes";
+import { geoRouter } from "./geo/geo.routes";
+import { postalCodeRouter } from "./postal-code/postal-code.routes";
+import { adminDivisionRouter } from "./admin-division/admin-division.routes";
+import { phoneRouter } from "./phone/phone.routes";
+import { addressRouter } from "./address/address.routes";
+import { currencyRouter } from "./currency/currency.routes";
+import { syncRouter } from "./sync/sync.routes";
 
 // IMPORT OTHER ROUTES
 
@@ -11,5 +20,14 @@ const routerv1: Router = Router();
 routerv1.use("/countries", countryRouter);
 routerv1.use("/states", stateRouter);
 routerv1.use("/city", cityRouter);
+routerv1.use("/audit", auditRouter);
+routerv1.use("/search", searchRouter);
+routerv1.use("/geo", geoRouter);
+routerv1.use("/postal-codes", postalCodeRouter);
+routerv1.use("/admin-divisions", adminDivisionRouter);
+routerv1.use("/phone", phoneRouter);
+routerv1.use("/addresses", addressRouter);
+routerv1.use("/currencies", currencyRouter);
+routerv1.use("/sync", syncRouter);
 
 export default routerv1;
@@ -0,0 +1,13 @@
+import { Request, Response } from "express";
+import { searchService } from "./search.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { searchQuerySchema } from "./search.validation";
+
+// GET /search
+export const search = asyncHandler(async (req: Request, res: Response) => {
+  const { query } = validateRequest(req, { query: searchQuerySchema });
+  const results = await searchService(query);
+  success(res, results, "Search results retrieved successfully");
+});
@@ -0,0 +1,246 @@
+import { db } from "../../../shared/db";
+import {
+  TB_cities,
+  TB_cityAliases,
+  TB_countries,
+  TB_states,
+} from "../../../shared/db/schema";
+import { and, desc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import { qualified } from "../../../shared/db/qualified";
+import {
+  localizedName,
+  translationTables,
+  type TranslatableEntity,
+} from "../translation/translation.repo";
+
+export interface SearchParent {
+  entity: "country" | "state";
+  id: number;
+  name: string;
+  code?: string;
+}
+
+export interface SearchMatch {
+  id: number;
+  name: string;
+  score: number;
+  parents: SearchParent[];
+  // Name followed by its parent chain, e.g. "Springfield, Illinois, US"
+  label: string;
+}
+
+/**
+ * Best of plain and word trigram similarity, so both whole-name typos
+ * ("Springfeld") and partial words ("spring") rank well.
+ */
+export const score = (column: AnyPgColumn, term: string) =>
+  sql<number>`greatest(similarity(${column}, ${term}), word_similarity(${term}, ${column}))`;
+
+// Trigram operators, so the gin_trgm_ops indexes can serve the lookup
+export const matches = (column: AnyPgColumn, term: string): SQL =>
+  sql`(${column} % ${term} or ${term} <% ${column})`;
+
+/**
+ * Scores a row by its default name and its best translation, so a search in
+ * any language finds it.
+ */
+const entityScore = (
+  entity: TranslatableEntity,
+  id: AnyPgColumn,
+  name: AnyPgColumn,
+  term: string,
+) => {
+  const translations = translationTables[entity];
+  return sql<number>`greatest(${score(name, term)}, coalesce((
+    select max(${score(translations.name, term)}) from ${translations}
+    where ${qualified(translations.entityId)} = ${qualified(id)}
+  ), 0))`;
+};
+
+/**
+ * Ids whose default name or any translation matches. Unioned rather than
+ * or-ed so each branch keeps its trigram index.
+ */
+const entityCandidates = (
+  entity: TranslatableEntity,
+  id: AnyPgColumn,
+  name: AnyPgColumn,
+  term: string,
+): SQL => {
+  const translations = translationTables[entity];
+  return sql`select ${qualified(id)} from ${id.table}
+      where ${matches(name, term)}
+    union select ${qualified(translations.entityId)} from ${translations}
+      where ${matches(translations.name, term)}`;
+};
+
+const entityMatches = (
+  entity: TranslatableEntity,
+  id: AnyPgColumn,
+  name: AnyPgColumn,
+  term: string,
+): SQL => sql`${id} in (${entityCandidates(entity, id, name, term)})`;
+
+// Aliases ("Bombay", "NYC") score and match like names of their city
+const cityAliasScore = (term: string) =>
+  sql<number>`coalesce((
+    select max(${score(TB_cityAliases.name, term)}) from ${TB_cityAliases}
+    where ${qualified(TB_cityAliases.cityId)} = ${qualified(TB_cities.id)}
+  ), 0)`;
+
+const cityMatches = (term: string): SQL => sql`${TB_cities.id} in (
+    ${entityCandidates("city", TB_cities.id, TB_cities.name, term)}
+    union select ${qualified(TB_cityAliases.cityId)} from ${TB_cityAliases}
+      where ${matches(TB_cityAliases.name, term)}
+  )`;
+
+const toLabel = (name: string, parents: SearchParent[]) =>
+  [name, ...parents.map((parent) => parent.code ?? parent.name)].join(", ");
+
+export const searchCountriesRepo = async (
+  term: string,
+  limit: number,
+  locales: string[] = [],
+): Promise<SearchMatch[]> => {
+  const countryScore = entityScore(
+    "country",
+    TB_countries.id,
+    TB_countries.name,
+    term,
+  );
+
+  const rows = await db
+    .select({
+      id: TB_countries.id,
+      name: localizedName(
+        "country",
+        TB_countries.id,
+        TB_countries.name,
+        locales,
+      ),
+      score: countryScore,
+    })
+    .from(TB_countries)
+    .where(
+      and(
+        entityMatches("country", TB_countries.id, TB_countries.name, term),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(desc(countryScore), TB_countries.name)
+    .limit(limit);
+
+  return rows.map((row) => ({
+    ...row,
+    score: Number(row.score),
+    parents: [],
+    label: row.name,
+  }));
+};
+
+export const searchStatesRepo = async (
+  term: string,
+  limit: number,
+  locales: string[] = [],
+): Promise<SearchMatch[]> => {
+  const stateScore = entityScore("state", TB_states.id, TB_states.name, term);
+
+  const rows = await db
+    .select({
+      id: TB_states.id,
+      name: localizedName("state", TB_states.id, TB_states.name, locales),
+      score: stateScore,
+      country: {
+        id: TB_countries.id,
+        name: localizedName(
+          "country",
+          TB_countries.id,
+          TB_countries.name,
+          locales,
+        ),
+        code: TB_countries.code,
+      },
+    })
+    .from(TB_states)
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_states.countryId))
+    .where(
+      and(
+        entityMatches("state", TB_states.id, TB_states.name, term),
+        isNull(TB_states.deletedAt),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(desc(stateScore), TB_states.name)
+    .limit(limit);
+
+  return rows.map(({ country, ...row }) => {
+    const parents: SearchParent[] = [{ entity: "country", ...country }];
+    return {
+      ...row,
+      score: Number(row.score),
+      parents,
+      label: toLabel(row.name, parents),
+    };
+  });
+};
+
+export const searchCitiesRepo = async (
+  term: string,
+  limit: number,
+  locales: string[] = [],
+): Promise<SearchMatch[]> => {
+  const cityScore = sql<number>`greatest(${entityScore(
+    "city",
+    TB_cities.id,
+    TB_cities.name,
+    term,
+  )}, ${cityAliasScore(term)})`;
+
+  const rows = await db
+    .select({
+      id: TB_cities.id,
+      name: localizedName("city", TB_cities.id, TB_cities.name, locales),
+      score: cityScore,
+      state: {
+        id: TB_states.id,
+        name: localizedName("state", TB_states.id, TB_states.name, locales),
+      },
+      country: {
+        id: TB_countries.id,
+        name: localizedName(
+          "country",
+          TB_countries.id,
+          TB_countries.name,
+          locales,
+        ),
+        code: TB_countries.code,
+      },
+    })
+    .from(TB_cities)
+    .innerJoin(TB_states, eq(TB_states.id, TB_cities.stateId))
+    .innerJoin(TB_countries, eq(TB_countries.id, TB_states.countryId))
+    .where(
+      and(
+        cityMatches(term),
+        isNull(TB_cities.deletedAt),
+        isNull(TB_states.deletedAt),
+        isNull(TB_countries.deletedAt),
+      ),
+    )
+    .orderBy(desc(cityScore), TB_cities.name)
+    .limit(limit);
+
+  return rows.map(({ state, country, ...row }) => {
+    const parents: SearchParent[] = [
+      { entity: "state", ...state },
+      { entity: "country", ...country },
+    ];
+    return {
+      ...row,
+      score: Number(row.score),
+      parents,
+      label: toLabel(row.name, parents),
+    };
+  });
+};
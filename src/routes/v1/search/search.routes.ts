@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { search } from "./search.controller";
+import { searchQuerySchema } from "./search.validation";
+
+const searchRouter: Router = Router();
+
+// Apply auth middleware to all routes
+searchRouter.use(authMiddleware);
+
+// GET /search - Fuzzy search countries, states and cities by name
+searchRouter.get(
+  "/",
+  validate({
+    query: searchQuerySchema,
+  }),
+  search,
+);
+
+export { searchRouter };
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import {
+  searchCitiesRepo,
+  searchCountriesRepo,
+  searchStatesRepo,
+  type SearchMatch,
+} from "./search.repo";
+import { searchQuerySchema } from "./search.validation";
+import { BadRequestError } from "../../../shared/utils/http-errors.util";
+import { getRequestContext } from "../../../shared/middlewares/request-context.middleware";
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export interface SearchResults {
+  query: string;
+  countries: SearchMatch[];
+  states: SearchMatch[];
+  cities: SearchMatch[];
+}
+
+export const searchService = async ({
+  q,
+  types,
+  limit,
+}: SearchQuery): Promise<SearchResults> => {
+  // Matches any translation, but names come back in the caller's language
+  const locales = getRequestContext()?.locales ?? [];
+  const search = (
+    type: SearchQuery["types"][number],
+    repo: (
+      term: string,
+      limit: number,
+      locales: string[],
+    ) => Promise<SearchMatch[]>,
+  ) => (types.includes(type) ? repo(q, limit, locales) : Promise.resolve([]));
+
+  try {
+    const [countries, states, cities] = await Promise.all([
+      search("country", searchCountriesRepo),
+      search("state", searchStatesRepo),
+      search("city", searchCitiesRepo),
+    ]);
+
+    return { query: q, countries, states, cities };
+  } catch (error) {
+    throw new BadRequestError("Failed to search locations", error);
+  }
+};
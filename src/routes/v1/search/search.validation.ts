@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const SEARCH_ENTITIES = ["country", "state", "city"] as const;
+
+export const searchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, "Search term is required")
+    .max(100, "Search term must not exceed 100 characters"),
+  types: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value.split(",").map((type) => type.trim())
+        : [...SEARCH_ENTITIES],
+    )
+    .pipe(z.array(z.enum(SEARCH_ENTITIES)).min(1)),
+  // Maximum number of matches per entity type
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
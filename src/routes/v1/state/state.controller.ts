@@ -2,27 +2,99 @@ import { Request, Response } from "express";
 import {
   createStateService,
   deleteStateService,
+  exportStatesService,
   getStateByIdService,
   getStatesByCountryIdService,
+  getStateTreeService,
+  importStatesService,
+  restoreStateService,
+  patchStateService,
   updateStateService,
 } from "./state.service";
 import { success } from "../../../shared/api-response/response-handler";
 import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  parseImportStream,
+  resolveImportFormat,
+} from "../../../shared/utils/import-parser.util";
+import {
+  resolveExportFormat,
+  writeExport,
+} from "../../../shared/utils/export-writer.util";
+import { pointGeometry } from "../../../shared/utils/geo.util";
+import { requireIfMatch, setEntityTag } from "../../../shared/utils/etag.util";
+import { resolvePatchFormat } from "../../../shared/utils/json-patch.util";
+import {
+  deleteStateBoundaryService,
+  getStateBoundaryService,
+  setStateBoundaryService,
+} from "../geo/geo.service";
+import { boundaryBodySchema } from "../geo/geo.validation";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import { v_include_deleted } from "../../../shared/utils/_zod-utils/v-soft-delete";
+import { v_delete_options } from "../../../shared/utils/_zod-utils/v-delete-options";
+import {
+  stateExportQuerySchema,
+  stateListFiltersSchema,
+  stateTreeQuerySchema,
+} from "./state.validation";
 
 // GET /states/:id
 export const getStateById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = req.params;
-    const state = await getStateByIdService(Number(id));
+    const { query } = validateRequest(req, { query: v_include_deleted });
+    const state = await getStateByIdService(Number(id), query);
+    setEntityTag(res, state);
     success(res, state, "State retrieved successfully");
   },
 );
 
+// GET /states/:id/tree
+export const getStateTree = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { query } = validateRequest(req, { query: stateTreeQuerySchema });
+    const tree = await getStateTreeService(Number(id), query);
+    success(res, tree, "State tree retrieved successfully");
+  },
+);
+
+// GET /states/:id/boundary
+export const getStateBoundary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const boundary = await getStateBoundaryService(Number(id));
+    success(res, boundary, "State boundary retrieved successfully");
+  },
+);
+
+// PUT /states/:id/boundary
+export const setStateBoundary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { body } = validateRequest(req, { body: boundaryBodySchema });
+    const boundary = await setStateBoundaryService(Number(id), body);
+    success(res, boundary, "State boundary saved successfully");
+  },
+);
+
+// DELETE /states/:id/boundary
+export const deleteStateBoundary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const boundary = await deleteStateBoundaryService(Number(id));
+    success(res, boundary, "State boundary deleted successfully");
+  },
+);
+
 // GET /states/country/:countryId
 export const getStatesByCountryId = asyncHandler(
   async (req: Request, res: Response) => {
     const { countryId } = req.params;
-    const states = await getStatesByCountryIdService(Number(countryId));
+    const { query } = validateRequest(req, { query: stateListFiltersSchema });
+    const states = await getStatesByCountryIdService(Number(countryId), query);
     success(res, states, "States retrieved successfully");
   },
 );
@@ -36,13 +108,77 @@ export const createState = asyncHandler(async (req: Request, res: Response) => {
 // PUT /states/:id
 export const updateState = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const state = await updateStateService(Number(id), req.body);
+  const ifMatch = requireIfMatch(req);
+  const state = await updateStateService(Number(id), req.body, { ifMatch });
+  setEntityTag(res, state);
+  success(res, state, "State updated successfully");
+});
+
+// PATCH /states/:id
+export const patchState = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const ifMatch = requireIfMatch(req);
+  const format = resolvePatchFormat(req);
+  const state = await patchStateService(Number(id), format, req.body, {
+    ifMatch,
+  });
+  setEntityTag(res, state);
   success(res, state, "State updated successfully");
 });
 
 // DELETE /states/:id
 export const deleteState = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const state = await deleteStateService(Number(id));
-  success(res, state, "State deleted successfully");
+  const { query } = validateRequest(req, { query: v_delete_options });
+  const report = await deleteStateService(Number(id), query);
+  success(
+    res,
+    report,
+    query.hard ? "State purged successfully" : "State deleted successfully",
+  );
 });
+
+// POST /states/:id/restore
+export const restoreState = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const state = await restoreStateService(Number(id));
+    success(res, state, "State restored successfully");
+  },
+);
+
+// POST /states/import
+export const importStates = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, { query: v_import_options });
+    const format = resolveImportFormat(req, query.format);
+    const report = await importStatesService(
+      parseImportStream(req, format),
+      query.dryRun,
+    );
+    success(
+      res,
+      report,
+      report.committed
+        ? "States imported successfully"
+        : "States import was not committed",
+    );
+  },
+);
+
+// GET /states/export
+export const exportStates = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { format, ...options } = validateRequest(req, {
+      query: stateExportQuerySchema,
+    }).query;
+    const { columns, rows } = exportStatesService(options);
+    await writeExport(res, {
+      format: resolveExportFormat(req, format),
+      filename: "states",
+      columns,
+      rows,
+      geometry: pointGeometry,
+    });
+  },
+);
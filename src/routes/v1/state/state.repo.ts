@@ -1,59 +1,312 @@
-import { db } from "../../../shared/db";
 import {
+  db,
+  type DbClient,
+  type FindOptions,
+  type UpdateOptions,
+} from "../../../shared/db";
+import {
+  TB_cities,
   TB_states,
+  type City,
   type State,
   type NewState,
 } from "../../../shared/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { and, between, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { rankedCitiesSubquery } from "../city/city.repo";
+import {
+  type ListQueryConfig,
+  type ListQueryOptions,
+} from "../../../shared/db/list-query";
+import {
+  paginate,
+  type Page,
+  type PaginateOptions,
+} from "../../../shared/db/paginate";
+import { streamRows, type RowStream } from "../../../shared/db/stream-rows";
+
+export const stateListConfig: ListQueryConfig = {
+  columns: {
+    id: TB_states.id,
+    name: TB_states.name,
+    countryId: TB_states.countryId,
+    latitude: TB_states.latitude,
+    longitude: TB_states.longitude,
+    createdAt: TB_states.createdAt,
+    updatedAt: TB_states.updatedAt,
+    deletedAt: TB_states.deletedAt,
+    version: TB_states.version,
+  },
+  filterable: [
+    "id",
+    "name",
+    "latitude",
+    "longitude",
+    "createdAt",
+    "updatedAt",
+    "deletedAt",
+  ],
+  sortable: ["id", "name", "createdAt", "updatedAt"],
+  defaultSort: { field: "name", direction: "asc" },
+};
+
+export type StateListOptions = PaginateOptions & { includeDeleted?: boolean };
+
+export interface TreeOptions {
+  depth: number;
+  limit?: number;
+  page?: number;
+}
+
+export interface StateTree extends State {
+  cities?: City[];
+}
+
+/**
+ * Keeps the ranked children that fall on the requested page, or every child
+ * when no limit is given.
+ */
+export const rankWindow = (
+  rank: SQL.Aliased<number>,
+  { limit, page = 1 }: Pick<TreeOptions, "limit" | "page">,
+): SQL | undefined =>
+  limit ? between(rank, (page - 1) * limit + 1, page * limit) : undefined;
 
-export const createStateRepo = async (data: NewState): Promise<State> => {
-  const [state] = await db.insert(TB_states).values(data).returning();
+const notDeleted = (includeDeleted?: boolean) =>
+  includeDeleted ? undefined : isNull(TB_states.deletedAt);
+
+export const createStateRepo = async (
+  data: NewState,
+  client: DbClient = db,
+): Promise<State> => {
+  const [state] = await client.insert(TB_states).values(data).returning();
   return state;
 };
 
-export const findStateByIdRepo = async (id: number): Promise<State | null> => {
-  const [state] = await db
+export const findStateByIdRepo = async (
+  id: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<State | null> => {
+  const [state] = await client
     .select()
     .from(TB_states)
-    .where(eq(TB_states.id, id))
+    .where(and(eq(TB_states.id, id), notDeleted(includeDeleted)))
     .limit(1);
   return state || null;
 };
 
-export const findStatesByCountryIdRepo = async (
-  countryId: number,
+export const findStatesByNameRepo = async (
+  name: string,
+  countryId?: number,
+  { client = db, includeDeleted }: FindOptions = {},
 ): Promise<State[]> => {
-  return await db
+  return await client
     .select()
     .from(TB_states)
-    .where(eq(TB_states.countryId, countryId))
-    .orderBy(TB_states.name);
+    .where(
+      and(
+        sql`lower(${TB_states.name}) = lower(${name})`,
+        countryId === undefined
+          ? undefined
+          : eq(TB_states.countryId, countryId),
+        notDeleted(includeDeleted),
+      ),
+    );
+};
+
+export const findStatesByCountryIdRepo = async (
+  countryId: number,
+  options: StateListOptions = {},
+): Promise<Page<Partial<State>>> => {
+  const { includeDeleted, ...listOptions } = options;
+
+  return await paginate<Partial<State>>({
+    table: TB_states,
+    idColumn: TB_states.id,
+    config: stateListConfig,
+    options: listOptions,
+    where: and(eq(TB_states.countryId, countryId), notDeleted(includeDeleted)),
+  });
+};
+
+export const streamStatesRepo = (
+  options: ListQueryOptions & {
+    countryId?: number;
+    includeDeleted?: boolean;
+  } = {},
+): RowStream => {
+  const { countryId, includeDeleted, ...listOptions } = options;
+
+  return streamRows({
+    table: TB_states,
+    idColumn: TB_states.id,
+    config: stateListConfig,
+    options: listOptions,
+    where: and(
+      countryId === undefined ? undefined : eq(TB_states.countryId, countryId),
+      notDeleted(includeDeleted),
+    ),
+  });
 };
 
 export const updateStateRepo = async (
   id: number,
   data: Partial<NewState>,
+  { client = db, version }: UpdateOptions = {},
+): Promise<State | null> => {
+  const [state] = await client
+    .update(TB_states)
+    .set({
+      ...data,
+      updatedAt: new Date(),
+      version: sql`${TB_states.version} + 1`,
+    })
+    .where(
+      and(
+        eq(TB_states.id, id),
+        version === undefined ? undefined : eq(TB_states.version, version),
+      ),
+    )
+    .returning();
+  return state || null;
+};
+
+export const deleteStateRepo = async (
+  id: number,
+  client: DbClient = db,
 ): Promise<State> => {
-  const [state] = await db
+  const [state] = await client
     .update(TB_states)
-    .set({ ...data, updatedAt: new Date() })
+    .set({ deletedAt: new Date(), version: sql`${TB_states.version} + 1` })
+    .where(and(eq(TB_states.id, id), isNull(TB_states.deletedAt)))
+    .returning();
+  return state;
+};
+
+export const restoreStateRepo = async (
+  id: number,
+  client: DbClient = db,
+): Promise<State> => {
+  const [state] = await client
+    .update(TB_states)
+    .set({
+      deletedAt: null,
+      updatedAt: new Date(),
+      version: sql`${TB_states.version} + 1`,
+    })
     .where(eq(TB_states.id, id))
     .returning();
   return state;
 };
 
-export const deleteStateRepo = async (id: number): Promise<State> => {
-  const [state] = await db
+export const purgeStateRepo = async (
+  id: number,
+  client: DbClient = db,
+): Promise<State> => {
+  const [state] = await client
     .delete(TB_states)
     .where(eq(TB_states.id, id))
     .returning();
   return state;
 };
 
+// Unpaginated, for delete policies that have to touch every child
+export const findAllStatesByCountryIdRepo = async (
+  countryId: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<State[]> => {
+  return await client
+    .select()
+    .from(TB_states)
+    .where(and(eq(TB_states.countryId, countryId), notDeleted(includeDeleted)))
+    .orderBy(TB_states.id);
+};
+
+export const deleteStatesByCountryIdRepo = async (
+  countryId: number,
+  client: DbClient = db,
+): Promise<State[]> => {
+  return await client
+    .update(TB_states)
+    .set({ deletedAt: new Date(), version: sql`${TB_states.version} + 1` })
+    .where(and(eq(TB_states.countryId, countryId), isNull(TB_states.deletedAt)))
+    .returning();
+};
+
+export const purgeStatesByCountryIdRepo = async (
+  countryId: number,
+  client: DbClient = db,
+): Promise<State[]> => {
+  return await client
+    .delete(TB_states)
+    .where(eq(TB_states.countryId, countryId))
+    .returning();
+};
+
+export const reassignStatesRepo = async (
+  fromCountryId: number,
+  toCountryId: number,
+  { client = db, includeDeleted }: FindOptions = {},
+): Promise<State[]> => {
+  return await client
+    .update(TB_states)
+    .set({
+      countryId: toCountryId,
+      updatedAt: new Date(),
+      version: sql`${TB_states.version} + 1`,
+    })
+    .where(
+      and(eq(TB_states.countryId, fromCountryId), notDeleted(includeDeleted)),
+    )
+    .returning();
+};
+
 export const existsStateRepo = async (id: number): Promise<boolean> => {
   const [result] = await db
     .select({ count: sql<number>`count(*)` })
     .from(TB_states)
-    .where(eq(TB_states.id, id));
+    .where(and(eq(TB_states.id, id), isNull(TB_states.deletedAt)));
   return Number(result?.count || 0) > 0;
 };
+
+export const findStateTreeRepo = async (
+  id: number,
+  options: TreeOptions,
+): Promise<StateTree | null> => {
+  if (options.depth < 1) {
+    return await findStateByIdRepo(id);
+  }
+
+  const cities = rankedCitiesSubquery(eq(TB_cities.stateId, id));
+
+  const rows = await db
+    .select({
+      state: TB_states,
+      city: {
+        id: cities.id,
+        name: cities.name,
+        stateId: cities.stateId,
+        latitude: cities.latitude,
+        longitude: cities.longitude,
+        createdAt: cities.createdAt,
+        updatedAt: cities.updatedAt,
+        deletedAt: cities.deletedAt,
+        version: cities.version,
+      },
+    })
+    .from(TB_states)
+    .leftJoin(
+      cities,
+      and(eq(cities.stateId, TB_states.id), rankWindow(cities.rank, options)),
+    )
+    .where(and(eq(TB_states.id, id), isNull(TB_states.deletedAt)))
+    .orderBy(cities.rank);
+
+  if (!rows.length) {
+    return null;
+  }
+
+  return {
+    ...rows[0].state,
+    cities: rows.flatMap(({ city }) => (city ? [city] : [])),
+  };
+};
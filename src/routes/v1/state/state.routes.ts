@@ -1,19 +1,40 @@
 import { Router } from "express";
 import { validate } from "../../../shared/middlewares/validation.middleware";
 import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import {
+  guardHardDelete,
+  guardIncludeDeleted,
+  guardRestore,
+} from "../../../shared/middlewares/soft-delete.middleware";
 import {
   createState,
   deleteState,
+  deleteStateBoundary,
+  exportStates,
+  getStateBoundary,
   getStateById,
   getStatesByCountryId,
+  getStateTree,
+  importStates,
+  patchState,
+  restoreState,
+  setStateBoundary,
   updateState,
 } from "./state.controller";
 import {
   createStateSchema,
   updateStateSchema,
   countryIdParamSchema,
+  stateExportQuerySchema,
+  stateListFiltersSchema,
+  stateTreeQuerySchema,
 } from "./state.validation";
+import { boundaryBodySchema } from "../geo/geo.validation";
+import { createTranslationRouter } from "../translation/translation.routes";
 import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+import { v_import_options } from "../../../shared/utils/_zod-utils/v-import-options";
+import { v_include_deleted } from "../../../shared/utils/_zod-utils/v-soft-delete";
+import { v_delete_options } from "../../../shared/utils/_zod-utils/v-delete-options";
 
 const stateRouter: Router = Router();
 
@@ -25,16 +46,52 @@ stateRouter.get(
   "/country/:countryId",
   validate({
     params: countryIdParamSchema,
+    query: stateListFiltersSchema,
   }),
+  guardIncludeDeleted,
   getStatesByCountryId,
 );
 
+// GET /states/export - Stream states as CSV, NDJSON or GeoJSON
+stateRouter.get(
+  "/export",
+  validate({
+    query: stateExportQuerySchema,
+  }),
+  guardIncludeDeleted,
+  exportStates,
+);
+
+// GET /states/:id/tree - Get state with its cities
+stateRouter.get(
+  "/:id/tree",
+  validate({
+    params: idParamSchema,
+    query: stateTreeQuerySchema,
+  }),
+  getStateTree,
+);
+
+// /states/:id/translations - Localized names, see translation.routes.ts
+stateRouter.use("/:id/translations", createTranslationRouter("state"));
+
+// GET /states/:id/boundary - Get the GeoJSON boundary of a state
+stateRouter.get(
+  "/:id/boundary",
+  validate({
+    params: idParamSchema,
+  }),
+  getStateBoundary,
+);
+
 // GET /states/:id - Get state by ID
 stateRouter.get(
   "/:id",
   validate({
     params: idParamSchema,
+    query: v_include_deleted,
   }),
+  guardIncludeDeleted,
   getStateById,
 );
 
@@ -47,7 +104,17 @@ stateRouter.post(
   createState,
 );
 
-// PUT /states/:id - Update state
+// POST /states/import - Bulk import states from CSV or NDJSON
+stateRouter.post(
+  "/import",
+  validate({
+    query: v_import_options,
+  }),
+  importStates,
+  patchState,
+);
+
+// PUT /states/:id - Update state, requires the current ETag in If-Match
 stateRouter.put(
   "/:id",
   validate({
@@ -57,12 +124,53 @@ stateRouter.put(
   updateState,
 );
 
-// DELETE /states/:id - Delete state
+// PATCH /states/:id - Merge Patch or JSON Patch a state, requires the current ETag in If-Match
+stateRouter.patch(
+  "/:id",
+  validate({
+    params: idParamSchema,
+  }),
+  patchState,
+);
+
+// PUT /states/:id/boundary - Set the boundary as a GeoJSON Polygon or MultiPolygon
+stateRouter.put(
+  "/:id/boundary",
+  validate({
+    params: idParamSchema,
+    body: boundaryBodySchema,
+  }),
+  setStateBoundary,
+);
+
+// DELETE /states/:id/boundary - Remove the boundary of a state
+stateRouter.delete(
+  "/:id/boundary",
+  validate({
+    params: idParamSchema,
+  }),
+  deleteStateBoundary,
+);
+
+// POST /states/:id/restore - Restore a soft-deleted state (admin only)
+stateRouter.post(
+  "/:id/restore",
+  guardRestore,
+  validate({
+    params: idParamSchema,
+  }),
+  restoreState,
+);
+
+// DELETE /states/:id - Soft delete state, or purge it with ?hard=true (admin only);
+// ?policy=restrict|cascade|reassign decides what happens to its cities
 stateRouter.delete(
   "/:id",
   validate({
     params: idParamSchema,
+    query: v_delete_options,
   }),
+  guardHardDelete,
   deleteState,
 );
 
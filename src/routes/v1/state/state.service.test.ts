@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createStateService, updateStateService } from "./state.service";
+import {
+  createStateRepo,
+  findStateByIdRepo,
+  updateStateRepo,
+} from "./state.repo";
+import { findCountryByIdRepo } from "../country/country.repo";
+import { BadRequestError } from "../../../shared/utils/http-errors.util";
+
+vi.mock("../../../shared/db", () => ({
+  db: { transaction: (run: (tx: object) => unknown) => run({}) },
+}));
+vi.mock("./state.repo");
+vi.mock("../country/country.repo");
+vi.mock("../audit/audit.service");
+vi.mock("../../../shared/kafka/geo-events");
+
+const LIVE_COUNTRY = 1;
+const DELETED_COUNTRY = 2;
+const state = { id: 5, name: "Bavaria", countryId: LIVE_COUNTRY, version: 1 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  // Deleted countries are hidden from the finder, like any other caller sees them
+  vi.mocked(findCountryByIdRepo).mockImplementation(async (id) =>
+    id === LIVE_COUNTRY ? ({ id } as never) : null,
+  );
+  vi.mocked(findStateByIdRepo).mockResolvedValue(state as never);
+  vi.mocked(createStateRepo).mockResolvedValue(state as never);
+  vi.mocked(updateStateRepo).mockResolvedValue(state as never);
+});
+
+describe("createStateService", () => {
+  it("creates a state under a live country", async () => {
+    await expect(
+      createStateService({ name: "Bavaria", countryId: LIVE_COUNTRY }),
+    ).resolves.toEqual(state);
+  });
+
+  it("rejects a deleted country", async () => {
+    await expect(
+      createStateService({ name: "Bavaria", countryId: DELETED_COUNTRY }),
+    ).rejects.toThrow(
+      new BadRequestError(`Country with ID ${DELETED_COUNTRY} does not exist.`),
+    );
+    expect(createStateRepo).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateStateService", () => {
+  it("moves a state to a live country", async () => {
+    await expect(
+      updateStateService(state.id, { countryId: LIVE_COUNTRY }),
+    ).resolves.toEqual(state);
+  });
+
+  it("rejects moving a state to a deleted country", async () => {
+    await expect(
+      updateStateService(state.id, { countryId: DELETED_COUNTRY }),
+    ).rejects.toThrow(BadRequestError);
+    expect(updateStateRepo).not.toHaveBeenCalled();
+  });
+
+  it("leaves the country alone when it is not changed", async () => {
+    await updateStateService(state.id, { name: "Bayern" });
+
+    expect(findCountryByIdRepo).not.toHaveBeenCalled();
+  });
+});
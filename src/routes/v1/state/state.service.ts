@@ -1,23 +1,99 @@
 import {
   createStateRepo,
   deleteStateRepo,
+  purgeStateRepo,
+  restoreStateRepo,
   findStatesByCountryIdRepo,
   findStateByIdRepo,
   updateStateRepo,
+  streamStatesRepo,
   existsStateRepo,
+  findStateTreeRepo,
+  findStatesByNameRepo,
+  type StateListOptions,
+  type StateTree,
+  type TreeOptions,
 } from "./state.repo";
+import { findCountryByIdRepo } from "../country/country.repo";
+import {
+  deleteCitiesByStateIdsRepo,
+  findAllCitiesByStateIdsRepo,
+  purgeCitiesByStateIdsRepo,
+  reassignCitiesRepo,
+} from "../city/city.repo";
 import { type State, type NewState } from "../../../shared/db/schema";
+import { db, type DbClient, type FindOptions } from "../../../shared/db";
+import {
+  type DeleteOptions,
+  type DeleteReport,
+} from "../../../shared/db/delete-policy";
+import { runImport, type ImportReport } from "../../../shared/db/bulk-import";
+import { type RowStream } from "../../../shared/db/stream-rows";
+import { type ListQueryOptions } from "../../../shared/db/list-query";
+import { type ParsedImportRow } from "../../../shared/utils/import-parser.util";
+import {
+  recordAuditService,
+  recordChildAuditsService,
+} from "../audit/audit.service";
+import {
+  childGeoChanges,
+  publishGeoEvent,
+  publishGeoEvents,
+  type GeoChange,
+} from "../../../shared/kafka/geo-events";
+import {
+  localizeOneService,
+  localizeService,
+} from "../translation/translation.service";
+import { entityTag, matchesEntityTag } from "../../../shared/utils/etag.util";
+import {
+  patchEntity,
+  type PatchFormat,
+} from "../../../shared/utils/json-patch.util";
+import { resolveCountryIdService } from "../country/country.service";
+import { countryRefSchema } from "../country/country.validation";
+import { createStateSchema, stateRefSchema } from "./state.validation";
+import {
+  coordinatePairIssue,
+  hasCoordinatePair,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { z } from "zod";
+import { resolveLimit, type Page } from "../../../shared/db/paginate";
 import {
   BadRequestError,
+  ConflictError,
+  HttpError,
+  PreconditionFailedError,
   NotFoundError,
 } from "../../../shared/utils/http-errors.util";
 
-// Optionally we could check if country exists before creating/updating state.
-// We can assume foreign key constraint will throw an error, which we catch.
+// The foreign key alone would accept a soft-deleted country
+const assertCountryExists = async (countryId: number) => {
+  const country = await findCountryByIdRepo(countryId);
+  if (!country) {
+    throw new BadRequestError(`Country with ID ${countryId} does not exist.`);
+  }
+};
 
 export const createStateService = async (data: NewState): Promise<State> => {
+  await assertCountryExists(data.countryId);
+
   try {
-    return await createStateRepo(data);
+    const state = await db.transaction(async (tx) => {
+      const state = await createStateRepo(data, tx);
+      await recordAuditService(
+        { entity: "state", entityId: state.id, action: "create", after: state },
+        tx,
+      );
+      return state;
+    });
+    publishGeoEvent({
+      entity: "state",
+      action: "created",
+      id: state.id,
+      after: state,
+    });
+    return state;
   } catch (error: any) {
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
@@ -29,28 +105,61 @@ export const createStateService = async (data: NewState): Promise<State> => {
   }
 };
 
-export const getStateByIdService = async (id: number): Promise<State> => {
-  const state = await findStateByIdRepo(id);
+export const getStateByIdService = async (
+  id: number,
+  { includeDeleted }: Pick<FindOptions, "includeDeleted"> = {},
+): Promise<State> => {
+  const state = await findStateByIdRepo(id, { includeDeleted });
   if (!state) {
     throw new NotFoundError(`State with ID ${id} not found`);
   }
 
-  return state;
+  return await localizeOneService("state", state);
+};
+
+export const getStateTreeService = async (
+  id: number,
+  options: TreeOptions,
+): Promise<StateTree> => {
+  const tree = await findStateTreeRepo(id, {
+    ...options,
+    limit: options.limit && resolveLimit(options.limit),
+  });
+  if (!tree) {
+    throw new NotFoundError(`State with ID ${id} not found`);
+  }
+
+  return tree;
 };
 
 export const getStatesByCountryIdService = async (
   countryId: number,
-): Promise<State[]> => {
+  options?: StateListOptions,
+): Promise<Page<Partial<State>>> => {
   try {
-    return await findStatesByCountryIdRepo(countryId);
+    const page = await findStatesByCountryIdRepo(countryId, options);
+    return { ...page, rows: await localizeService("state", page.rows) };
   } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     throw new BadRequestError("Failed to fetch states for country", error);
   }
 };
 
+export const exportStatesService = (
+  options?: ListQueryOptions & {
+    countryId?: number;
+    includeDeleted?: boolean;
+  },
+): RowStream => {
+  return streamStatesRepo(options);
+};
+
 export const updateStateService = async (
   id: number,
   data: Partial<NewState>,
+  { ifMatch }: { ifMatch?: string } = {},
 ): Promise<State> => {
   // Check if state exists
   const existingState = await findStateByIdRepo(id);
@@ -58,9 +167,56 @@ export const updateStateService = async (
     throw new NotFoundError(`State with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingState)) {
+    throw new PreconditionFailedError(
+      `State with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingState) },
+    );
+  }
+
+  if (!hasCoordinatePair({ ...existingState, ...data })) {
+    throw new BadRequestError(coordinatePairIssue.message);
+  }
+  if (data.countryId !== undefined) {
+    await assertCountryExists(data.countryId);
+  }
+
   try {
-    return await updateStateRepo(id, data);
+    const state = await db.transaction(async (tx) => {
+      // Guards against a concurrent write landing after the check above
+      const state = await updateStateRepo(id, data, {
+        client: tx,
+        version: existingState.version,
+      });
+      if (!state) {
+        throw new PreconditionFailedError(
+          `State with ID ${id} has been modified, fetch it again before updating`,
+        );
+      }
+      await recordAuditService(
+        {
+          entity: "state",
+          entityId: id,
+          action: "update",
+          before: existingState,
+          after: state,
+        },
+        tx,
+      );
+      return state;
+    });
+    publishGeoEvent({
+      entity: "state",
+      action: "updated",
+      id,
+      before: existingState,
+      after: state,
+    });
+    return state;
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
         `Country with ID ${data.countryId} does not exist.`,
@@ -71,16 +227,152 @@ export const updateStateService = async (
   }
 };
 
-export const deleteStateService = async (id: number): Promise<State> => {
-  // Check if state exists
+export const patchStateService = async (
+  id: number,
+  format: PatchFormat,
+  patch: unknown,
+  { ifMatch }: { ifMatch?: string } = {},
+): Promise<State> => {
   const existingState = await findStateByIdRepo(id);
   if (!existingState) {
     throw new NotFoundError(`State with ID ${id} not found`);
   }
 
+  if (ifMatch && !matchesEntityTag(ifMatch, existingState)) {
+    throw new PreconditionFailedError(
+      `State with ID ${id} has been modified, fetch it again before updating`,
+      { etag: entityTag(existingState) },
+    );
+  }
+
+  const data = patchEntity(format, existingState, patch, createStateSchema);
+
+  // Pin the update to the version the patch was applied to
+  return await updateStateService(id, data, {
+    ifMatch: entityTag(existingState),
+  });
+};
+
+export const deleteStateService = async (
+  id: number,
+  { hard = false, policy = "restrict", reassignTo }: DeleteOptions = {},
+): Promise<DeleteReport<State>> => {
+  // Check if state exists, a purge may also target an already deleted one
+  const existingState = await findStateByIdRepo(id, { includeDeleted: hard });
+  if (!existingState) {
+    throw new NotFoundError(`State with ID ${id} not found`);
+  }
+
+  if (policy === "reassign") {
+    if (reassignTo === undefined || reassignTo === id) {
+      throw new BadRequestError(
+        "Cities must be reassigned to a different state.",
+      );
+    }
+    const target = await findStateByIdRepo(reassignTo);
+    if (!target) {
+      throw new BadRequestError(`State with ID ${reassignTo} does not exist.`);
+    }
+  }
+
+  // Cities are published along with the state once the delete commits
+  const changes: GeoChange[] = [];
   try {
-    return await deleteStateRepo(id);
+    const result = await db.transaction(async (tx) => {
+      // A purge has to deal with soft-deleted cities too, the foreign key still sees them
+      const cities = await findAllCitiesByStateIdsRepo([id], {
+        client: tx,
+        includeDeleted: hard,
+      });
+      const affected = { cities: cities.length };
+
+      if (policy === "restrict" && affected.cities) {
+        throw new ConflictError(
+          `State with ID ${id} still has ${affected.cities} cities`,
+          affected,
+        );
+      }
+
+      if (policy === "cascade") {
+        const citiesAfter = hard
+          ? await purgeCitiesByStateIdsRepo([id], tx)
+          : await deleteCitiesByStateIdsRepo([id], tx);
+        // A purge returns the removed rows, which are gone afterwards
+        await recordChildAuditsService(
+          {
+            entity: "city",
+            action: "delete",
+            before: cities,
+            after: hard ? [] : citiesAfter,
+          },
+          tx,
+        );
+        changes.push(
+          ...childGeoChanges(
+            "city",
+            "deleted",
+            cities,
+            hard ? [] : citiesAfter,
+          ),
+        );
+      }
+
+      if (policy === "reassign") {
+        const citiesAfter = await reassignCitiesRepo(id, reassignTo!, {
+          client: tx,
+          includeDeleted: hard,
+        });
+        await recordChildAuditsService(
+          {
+            entity: "city",
+            action: "update",
+            before: cities,
+            after: citiesAfter,
+          },
+          tx,
+        );
+        changes.push(
+          ...childGeoChanges("city", "updated", cities, citiesAfter),
+        );
+      }
+
+      const state = hard
+        ? await purgeStateRepo(id, tx)
+        : await deleteStateRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "state",
+          entityId: id,
+          action: "delete",
+          before: existingState,
+          after: hard ? null : state,
+        },
+        tx,
+      );
+
+      return {
+        deleted: state,
+        policy,
+        hard,
+        affected,
+        reassignedTo: reassignTo,
+      };
+    });
+    publishGeoEvents([
+      ...changes,
+      {
+        entity: "state",
+        action: "deleted",
+        id,
+        before: existingState,
+        after: hard ? null : result.deleted,
+      },
+    ]);
+    return result;
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
     if (error.message?.includes("foreign key constraint")) {
       throw new BadRequestError(
         `Cannot delete state because it is referenced by another entity.`,
@@ -90,3 +382,132 @@ export const deleteStateService = async (id: number): Promise<State> => {
     throw new BadRequestError("Failed to delete state", error);
   }
 };
+
+export const restoreStateService = async (id: number): Promise<State> => {
+  const existingState = await findStateByIdRepo(id, { includeDeleted: true });
+  if (!existingState) {
+    throw new NotFoundError(`State with ID ${id} not found`);
+  }
+  if (!existingState.deletedAt) {
+    throw new BadRequestError(`State with ID ${id} is not deleted`);
+  }
+
+  const country = await findCountryByIdRepo(existingState.countryId);
+  if (!country) {
+    throw new ConflictError(
+      `Country with ID ${existingState.countryId} is deleted, restore it first.`,
+    );
+  }
+
+  try {
+    const state = await db.transaction(async (tx) => {
+      const state = await restoreStateRepo(id, tx);
+      await recordAuditService(
+        {
+          entity: "state",
+          entityId: id,
+          action: "restore",
+          before: existingState,
+          after: state,
+        },
+        tx,
+      );
+      return state;
+    });
+    publishGeoEvent({
+      entity: "state",
+      action: "updated",
+      id,
+      before: existingState,
+      after: state,
+    });
+    return state;
+  } catch (error) {
+    throw new BadRequestError("Failed to restore state", error);
+  }
+};
+
+export type StateRef = z.infer<typeof stateRefSchema>;
+
+export const resolveStateIdService = async (
+  ref: StateRef,
+  client?: DbClient,
+): Promise<number> => {
+  if (ref.stateId !== undefined) {
+    const state = await findStateByIdRepo(ref.stateId, { client });
+    if (!state) {
+      throw new BadRequestError(`State with ID ${ref.stateId} does not exist.`);
+    }
+    return state.id;
+  }
+
+  if (ref.stateName) {
+    const hasCountry =
+      ref.countryId !== undefined || !!ref.countryCode || !!ref.countryName;
+    const countryId = hasCountry
+      ? await resolveCountryIdService(ref, client)
+      : undefined;
+
+    const states = await findStatesByNameRepo(ref.stateName, countryId, {
+      client,
+    });
+    if (states.length > 1) {
+      throw new BadRequestError(
+        `State name '${ref.stateName}' is ambiguous, add a country code or name.`,
+      );
+    }
+    if (!states.length) {
+      throw new BadRequestError(
+        `State with name '${ref.stateName}' does not exist.`,
+      );
+    }
+    return states[0].id;
+  }
+
+  throw new BadRequestError("State ID or name is required.");
+};
+
+export const importStatesService = async (
+  rows: AsyncIterable<ParsedImportRow>,
+  dryRun: boolean,
+): Promise<ImportReport> => {
+  const changes: GeoChange[] = [];
+  const report = await runImport({
+    rows,
+    dryRun,
+    importRow: async (record, tx) => {
+      const countryId = await resolveCountryIdService(
+        countryRefSchema.parse(record),
+        tx,
+      );
+      const data = createStateSchema.parse({ ...record, countryId });
+
+      const [existingState] = await findStatesByNameRepo(
+        data.name,
+        data.countryId,
+        { client: tx },
+      );
+      if (existingState) {
+        return "skipped";
+      }
+
+      const state = await createStateRepo(data, tx);
+      await recordAuditService(
+        { entity: "state", entityId: state.id, action: "create", after: state },
+        tx,
+      );
+      changes.push({
+        entity: "state",
+        action: "created",
+        id: state.id,
+        after: state,
+      });
+      return "created";
+    },
+  });
+
+  if (report.committed) {
+    publishGeoEvents(changes);
+  }
+  return report;
+};
@@ -1,27 +1,63 @@
 import { z } from "zod";
+import { v_list_filters } from "../../../shared/utils/_zod-utils/v-list-filters";
+import { v_export_options } from "../../../shared/utils/_zod-utils/v-export-options";
+import {
+  coordinatePairIssue,
+  hasCoordinatePair,
+  v_coordinates,
+} from "../../../shared/utils/_zod-utils/v-coordinates";
+import { countryRefSchema } from "../country/country.validation";
 
 // Zod schemas for state validation
-export const createStateSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Name must be at least 2 characters")
-    .max(255, "Name must not exceed 255 characters")
-    .trim(),
-  countryId: z.number().int("Country ID must be an integer"),
-});
+export const createStateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(2, "Name must be at least 2 characters")
+      .max(255, "Name must not exceed 255 characters")
+      .trim(),
+    countryId: z.number().int("Country ID must be an integer"),
+  })
+  .merge(v_coordinates)
+  .refine(hasCoordinatePair, coordinatePairIssue);
 
-export const updateStateSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Name must be at least 2 characters")
-    .max(255, "Name must not exceed 255 characters")
-    .trim()
-    .optional(),
-  countryId: z.number().int("Country ID must be an integer").optional(),
-});
+export const updateStateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(2, "Name must be at least 2 characters")
+      .max(255, "Name must not exceed 255 characters")
+      .trim()
+      .optional(),
+    countryId: z.number().int("Country ID must be an integer").optional(),
+  })
+  .merge(v_coordinates);
 
 export const countryIdParamSchema = z.object({
   countryId: z.string().refine((val) => !isNaN(Number(val)), {
     message: "Country ID must be a valid number",
   }),
 });
+
+export const stateListFiltersSchema = v_list_filters;
+
+export const stateExportQuerySchema = stateListFiltersSchema
+  .merge(v_export_options)
+  .extend({
+    countryId: z.coerce
+      .number()
+      .int("Country ID must be an integer")
+      .optional(),
+  });
+
+export const stateTreeQuerySchema = z.object({
+  depth: z.coerce.number().int().min(0).max(1).default(1),
+  limit: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().positive().optional(),
+});
+
+// Reference to a parent state by ID, or by name within an optional country
+export const stateRefSchema = countryRefSchema.extend({
+  stateId: z.coerce.number().int("State ID must be an integer").optional(),
+  stateName: z.string().trim().optional(),
+});
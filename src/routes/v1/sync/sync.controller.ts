@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { getSyncChangesService } from "./sync.service";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import { syncChangesQuerySchema } from "./sync.validation";
+
+// GET /sync/changes
+export const getSyncChanges = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { query } = validateRequest(req, { query: syncChangesQuerySchema });
+    const page = await getSyncChangesService(query);
+    success(res, page, "Changes retrieved successfully");
+  },
+);
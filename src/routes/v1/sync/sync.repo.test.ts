@@ -0,0 +1,152 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import {
+  findChangesSinceRepo,
+  findPositionBeforeRepo,
+  type ChangePosition,
+} from "./sync.repo";
+import { syncChangesQuerySchema } from "./sync.validation";
+import { db } from "../../../shared/db";
+import { ensureChangeLog } from "../../../shared/db/change-log";
+
+vi.mock("../../../shared/db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  return { db: drizzle(new PGlite()) };
+});
+
+const START: ChangePosition = { xid: 0, seq: 0 };
+
+const ids = async (since = START, limit = 100) =>
+  (await findChangesSinceRepo(since, limit)).map(
+    (entry) => `${entry.entity}:${entry.entityId}:${entry.action}`,
+  );
+
+beforeAll(async () => {
+  for (const table of ["countries", "states", "cities"]) {
+    await db.execute(
+      sql.raw(
+        `create table ${table} (id serial primary key, name text not null, deleted_at timestamp)`,
+      ),
+    );
+  }
+  await db.execute(sql`
+    create table change_log (
+      entity varchar(20) not null,
+      entity_id integer not null,
+      xid bigint not null default pg_current_xact_id()::text::bigint,
+      seq bigserial not null,
+      action varchar(10) not null,
+      changed_at timestamp not null default now(),
+      primary key (entity, entity_id)
+    )
+  `);
+  await db.execute(sql`insert into countries (name) values ('Seeded')`);
+  await ensureChangeLog();
+});
+
+beforeEach(async () => {
+  await db.execute(sql`truncate change_log, cities restart identity`);
+});
+
+describe("change log", () => {
+  it("is seeded with the live rows", async () => {
+    await db.execute(sql`truncate change_log`);
+    await ensureChangeLog();
+
+    expect(await ids()).toEqual(["country:1:upsert"]);
+  });
+
+  it("keeps one row per record, at its latest change", async () => {
+    await db.execute(sql`insert into cities (name) values ('A'), ('B')`);
+    await db.execute(sql`update cities set name = 'A2' where id = 1`);
+    await db.execute(sql`update cities set deleted_at = now() where id = 1`);
+
+    expect(await ids()).toEqual(["city:2:upsert", "city:1:delete"]);
+    const [{ count }] = (
+      await db.execute(sql`select count(*)::int as count from change_log`)
+    ).rows as { count: number }[];
+    expect(count).toBe(2);
+  });
+
+  it("records purges as tombstones", async () => {
+    await db.execute(sql`insert into cities (id, name) values (7, 'A')`);
+    await db.execute(sql`delete from cities where id = 7`);
+
+    expect(await ids()).toEqual(["city:7:delete"]);
+  });
+});
+
+describe("findChangesSinceRepo", () => {
+  it("pages through every change once", async () => {
+    for (const name of ["A", "B", "C", "D", "E"]) {
+      await db.execute(sql`insert into cities (name) values (${name})`);
+    }
+
+    const seen: number[] = [];
+    let since = START;
+    for (;;) {
+      const page = await findChangesSinceRepo(since, 2);
+      if (!page.length) break;
+      seen.push(...page.map((entry) => entry.entityId));
+      since = page[page.length - 1];
+    }
+
+    expect(seen).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("moves a changed record behind the cursor", async () => {
+    await db.execute(sql`insert into cities (name) values ('A'), ('B')`);
+    const [, last] = await findChangesSinceRepo(START, 2);
+
+    await db.execute(sql`update cities set name = 'A2' where id = 1`);
+
+    expect(await ids(last)).toEqual(["city:1:upsert"]);
+  });
+
+  it("holds back changes of transactions still running", async () => {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`insert into cities (name) values ('A')`);
+      expect(await findChangesSinceRepo(START, 10, tx)).toEqual([]);
+    });
+
+    expect(await ids()).toEqual(["city:1:upsert"]);
+  });
+});
+
+describe("findPositionBeforeRepo", () => {
+  it("starts right before the first change since the date", async () => {
+    await db.execute(sql`insert into cities (name) values ('A'), ('B')`);
+    await db.execute(
+      sql`update change_log set changed_at = '2024-01-01' where entity_id = 1`,
+    );
+
+    const since = await findPositionBeforeRepo(new Date("2024-06-01"));
+    expect(await ids(since)).toEqual(["city:2:upsert"]);
+  });
+
+  it("falls back to the watermark", async () => {
+    await db.execute(sql`insert into cities (name) values ('A')`);
+
+    const since = await findPositionBeforeRepo(new Date("2999-01-01"));
+    expect(await ids(since)).toEqual([]);
+
+    await db.execute(sql`insert into cities (name) values ('B')`);
+    expect(await ids(since)).toEqual(["city:2:upsert"]);
+  });
+});
+
+describe("syncChangesQuerySchema", () => {
+  it.each([
+    [undefined, START],
+    ["0", START],
+    ["812:4051", { xid: 812, seq: 4051 }],
+    ["2024-05-01T00:00:00Z", new Date("2024-05-01T00:00:00Z")],
+  ])("reads since=%s", (since, expected) => {
+    expect(syncChangesQuerySchema.parse({ since }).since).toEqual(expected);
+  });
+
+  it.each(["4051", "812:", "yesterday"])("rejects since=%s", (since) => {
+    expect(syncChangesQuerySchema.safeParse({ since }).success).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_changeLog,
+  TB_cities,
+  TB_countries,
+  TB_states,
+  type ChangeEntity,
+  type ChangeLogEntry,
+} from "../../../shared/db/schema";
+import { and, gte, inArray, isNull, sql } from "drizzle-orm";
+
+const TABLES = {
+  country: TB_countries,
+  state: TB_states,
+  city: TB_cities,
+};
+
+// Where a change sits in the feed: its transaction, then its sequence number
+export interface ChangePosition {
+  xid: number;
+  seq: number;
+}
+
+// Every transaction below this id has ended, anything above may still commit
+const watermark = sql`pg_snapshot_xmin(pg_current_snapshot())::text::bigint`;
+
+const settled = sql`${TB_changeLog.xid} < ${watermark}`;
+
+/**
+ * Position right before the first change made at or after `date`. Without
+ * one, the watermark, since transactions still running may yet add changes.
+ */
+export const findPositionBeforeRepo = async (
+  date: Date,
+  client: DbClient = db,
+): Promise<ChangePosition> => {
+  const [first] = await client
+    .select({ xid: TB_changeLog.xid, seq: TB_changeLog.seq })
+    .from(TB_changeLog)
+    .where(and(gte(TB_changeLog.changedAt, date), settled))
+    .orderBy(TB_changeLog.xid, TB_changeLog.seq)
+    .limit(1);
+  if (first) {
+    return { xid: first.xid, seq: first.seq - 1 };
+  }
+
+  const { rows } = await client.execute(sql`select ${watermark} as xid`);
+  return { xid: Number(rows[0].xid), seq: 0 };
+};
+
+/**
+ * The changes after `since`, in the order their transactions started. Stops
+ * short of the oldest transaction still running, so a change can never show
+ * up later behind a cursor that was already handed out.
+ */
+export const findChangesSinceRepo = async (
+  { xid, seq }: ChangePosition,
+  limit: number,
+  client: DbClient = db,
+): Promise<ChangeLogEntry[]> => {
+  return await client
+    .select()
+    .from(TB_changeLog)
+    .where(
+      and(
+        sql`(${TB_changeLog.xid}, ${TB_changeLog.seq}) > (${xid}, ${seq})`,
+        settled,
+      ),
+    )
+    .orderBy(TB_changeLog.xid, TB_changeLog.seq)
+    .limit(limit);
+};
+
+// Live rows only; anything else is reported by its tombstone
+export const findLiveRowsRepo = async (
+  entity: ChangeEntity,
+  ids: number[],
+  client: DbClient = db,
+): Promise<Record<string, unknown>[]> => {
+  if (!ids.length) {
+    return [];
+  }
+
+  const table = TABLES[entity];
+  return await client
+    .select()
+    .from(table)
+    .where(and(inArray(table.id, ids), isNull(table.deletedAt)));
+};
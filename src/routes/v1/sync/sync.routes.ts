@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { authMiddleware } from "../../../shared/middlewares/auth.middleware";
+import { getSyncChanges } from "./sync.controller";
+import { syncChangesQuerySchema } from "./sync.validation";
+
+const syncRouter: Router = Router();
+
+// Apply auth middleware to all routes
+syncRouter.use(authMiddleware);
+
+// GET /sync/changes - Countries, states and cities changed after a cursor, with tombstones
+syncRouter.get(
+  "/changes",
+  validate({
+    query: syncChangesQuerySchema,
+  }),
+  getSyncChanges,
+);
+
+export { syncRouter };
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import {
+  findChangesSinceRepo,
+  findLiveRowsRepo,
+  findPositionBeforeRepo,
+  type ChangePosition,
+} from "./sync.repo";
+import { syncChangesQuerySchema } from "./sync.validation";
+import { db } from "../../../shared/db";
+import {
+  CHANGE_ENTITIES,
+  type ChangeAction,
+  type ChangeEntity,
+} from "../../../shared/db/schema";
+import { BadRequestError } from "../../../shared/utils/http-errors.util";
+
+export type SyncChangesInput = z.infer<typeof syncChangesQuerySchema>;
+
+export interface SyncChange {
+  seq: number;
+  entity: ChangeEntity;
+  id: number;
+  action: ChangeAction;
+  changedAt: Date;
+  // The current row for upserts, null for tombstones
+  data: Record<string, unknown> | null;
+}
+
+export interface SyncPage {
+  changes: SyncChange[];
+  // Pass back as `since` to continue; unchanged when nothing was returned
+  cursor: string;
+  hasMore: boolean;
+}
+
+// Read back by `syncChangesQuerySchema`
+const encodeSyncCursor = ({ xid, seq }: ChangePosition): string =>
+  `${xid}:${seq}`;
+
+/**
+ * Reads a page of the change feed and the rows it points at from a single
+ * snapshot, so every upsert comes with the row as of that change.
+ */
+export const getSyncChangesService = async ({
+  since,
+  limit,
+}: SyncChangesInput): Promise<SyncPage> => {
+  try {
+    return await db.transaction(
+      async (tx) => {
+        const from =
+          since instanceof Date
+            ? await findPositionBeforeRepo(since, tx)
+            : since;
+        const entries = await findChangesSinceRepo(from, limit + 1, tx);
+        const page = entries.slice(0, limit);
+
+        const rows = new Map<string, Record<string, unknown>>();
+        for (const entity of CHANGE_ENTITIES) {
+          const ids = page
+            .filter((entry) => entry.entity === entity)
+            .filter((entry) => entry.action === "upsert")
+            .map((entry) => entry.entityId);
+          for (const row of await findLiveRowsRepo(entity, ids, tx)) {
+            rows.set(`${entity}:${row.id}`, row);
+          }
+        }
+
+        const changes = page.map((entry): SyncChange => {
+          const data = rows.get(`${entry.entity}:${entry.entityId}`) ?? null;
+          return {
+            seq: entry.seq,
+            entity: entry.entity,
+            id: entry.entityId,
+            action: data ? "upsert" : "delete",
+            changedAt: entry.changedAt,
+            data,
+          };
+        });
+
+        return {
+          changes,
+          cursor: encodeSyncCursor(page.length ? page[page.length - 1] : from),
+          hasMore: entries.length > limit,
+        };
+      },
+      { isolationLevel: "repeatable read", accessMode: "read only" },
+    );
+  } catch (error) {
+    throw new BadRequestError("Failed to retrieve changes", error);
+  }
+};
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+export const syncChangesQuerySchema = z.object({
+  // A cursor from an earlier response, or an ISO timestamp for a first sync
+  since: z
+    .string()
+    .trim()
+    .default("0")
+    .transform((value, ctx) => {
+      if (value === "0") {
+        return { xid: 0, seq: 0 };
+      }
+      const cursor = /^(\d+):(\d+)$/.exec(value);
+      if (cursor) {
+        return { xid: Number(cursor[1]), seq: Number(cursor[2]) };
+      }
+      // A bare number is no cursor, and would read as a year otherwise
+      const date = /^\d+$/.test(value) ? new Date(NaN) : new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Since must be a cursor or an ISO timestamp",
+        });
+        return z.NEVER;
+      }
+      return date;
+    }),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+});
@@ -0,0 +1,54 @@
+import { Request, Response } from "express";
+import {
+  deleteTranslationService,
+  getTranslationsService,
+  setTranslationService,
+} from "./translation.service";
+import { type TranslatableEntity } from "./translation.repo";
+import { success } from "../../../shared/api-response/response-handler";
+import { asyncHandler } from "../../../shared/utils/async-handler.util";
+import { validateRequest } from "../../../shared/utils/zod-validate.util";
+import {
+  translationBodySchema,
+  translationParamsSchema,
+} from "./translation.validation";
+
+// Handlers are built per entity, since one router serves all three
+
+// GET /:entity/:id/translations
+export const getTranslations = (entity: TranslatableEntity) =>
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const translations = await getTranslationsService(entity, Number(id));
+    success(res, translations, "Translations retrieved successfully");
+  });
+
+// PUT /:entity/:id/translations/:locale
+export const setTranslation = (entity: TranslatableEntity) =>
+  asyncHandler(async (req: Request, res: Response) => {
+    const { params, body } = validateRequest(req, {
+      params: translationParamsSchema,
+      body: translationBodySchema,
+    });
+    const translation = await setTranslationService(
+      entity,
+      params.id,
+      params.locale,
+      body.name,
+    );
+    success(res, translation, "Translation saved successfully");
+  });
+
+// DELETE /:entity/:id/translations/:locale
+export const deleteTranslation = (entity: TranslatableEntity) =>
+  asyncHandler(async (req: Request, res: Response) => {
+    const { params } = validateRequest(req, {
+      params: translationParamsSchema,
+    });
+    const translation = await deleteTranslationService(
+      entity,
+      params.id,
+      params.locale,
+    );
+    success(res, translation, "Translation deleted successfully");
+  });
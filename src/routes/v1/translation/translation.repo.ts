@@ -0,0 +1,150 @@
+import { db, type DbClient } from "../../../shared/db";
+import {
+  TB_cities,
+  TB_cityTranslations,
+  TB_countries,
+  TB_countryTranslations,
+  TB_states,
+  TB_stateTranslations,
+  type Translation,
+  type TranslationTable,
+} from "../../../shared/db/schema";
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import { qualified } from "../../../shared/db/qualified";
+
+export type TranslatableEntity = "country" | "state" | "city";
+
+export const translationTables: Record<TranslatableEntity, TranslationTable> = {
+  country: TB_countryTranslations,
+  state: TB_stateTranslations,
+  city: TB_cityTranslations,
+};
+
+export const findTranslationsRepo = async (
+  entity: TranslatableEntity,
+  entityId: number,
+  client: DbClient = db,
+): Promise<Translation[]> => {
+  const table = translationTables[entity];
+  return await client
+    .select()
+    .from(table)
+    .where(eq(table.entityId, entityId))
+    .orderBy(table.locale);
+};
+
+export const findTranslationRepo = async (
+  entity: TranslatableEntity,
+  entityId: number,
+  locale: string,
+  client: DbClient = db,
+): Promise<Translation | null> => {
+  const table = translationTables[entity];
+  const [translation] = await client
+    .select()
+    .from(table)
+    .where(and(eq(table.entityId, entityId), eq(table.locale, locale)))
+    .limit(1);
+  return translation || null;
+};
+
+// Every translation of the given rows in any of the locales
+export const findTranslationsInLocalesRepo = async (
+  entity: TranslatableEntity,
+  entityIds: number[],
+  locales: string[],
+): Promise<Translation[]> => {
+  if (!entityIds.length || !locales.length) {
+    return [];
+  }
+
+  const table = translationTables[entity];
+  return await db
+    .select()
+    .from(table)
+    .where(
+      and(inArray(table.entityId, entityIds), inArray(table.locale, locales)),
+    );
+};
+
+export const upsertTranslationRepo = async (
+  entity: TranslatableEntity,
+  data: Pick<Translation, "entityId" | "locale" | "name">,
+  client: DbClient = db,
+): Promise<Translation> => {
+  const table = translationTables[entity];
+  const [translation] = await client
+    .insert(table)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [table.entityId, table.locale],
+      set: { name: data.name, updatedAt: new Date() },
+    })
+    .returning();
+  return translation;
+};
+
+export const deleteTranslationRepo = async (
+  entity: TranslatableEntity,
+  entityId: number,
+  locale: string,
+  client: DbClient = db,
+): Promise<Translation | null> => {
+  const table = translationTables[entity];
+  const [translation] = await client
+    .delete(table)
+    .where(and(eq(table.entityId, entityId), eq(table.locale, locale)))
+    .returning();
+  return translation || null;
+};
+
+const translatedTables = {
+  country: TB_countries,
+  state: TB_states,
+  city: TB_cities,
+};
+
+/**
+ * A translation is part of the translated row's representation, so changing
+ * one moves the row to a new version and ETag.
+ */
+export const bumpTranslatedVersionRepo = async (
+  entity: TranslatableEntity,
+  entityId: number,
+  client: DbClient = db,
+): Promise<void> => {
+  const table = translatedTables[entity];
+  await client
+    .update(table)
+    .set({ updatedAt: new Date(), version: sql`${table.version} + 1` })
+    .where(eq(table.id, entityId));
+};
+
+/**
+ * SQL counterpart of localizing a row in code, for queries that select names
+ * of joined rows: the translation in the most preferred locale, or `name`.
+ */
+export const localizedName = (
+  entity: TranslatableEntity,
+  id: AnyPgColumn,
+  name: AnyPgColumn,
+  locales: string[],
+): SQL<string> => {
+  if (!locales.length) {
+    return sql<string>`${name}`;
+  }
+
+  const table = translationTables[entity];
+  const preference = sql.join(
+    locales.map((locale) => sql`${locale}`),
+    sql`, `,
+  );
+  return sql<string>`coalesce((
+    select ${qualified(table.name)} from ${table}
+    where ${qualified(table.entityId)} = ${qualified(id)}
+      and ${qualified(table.locale)} in (${preference})
+    order by array_position(array[${preference}]::varchar[], ${qualified(table.locale)})
+    limit 1
+  ), ${qualified(name)})`;
+};
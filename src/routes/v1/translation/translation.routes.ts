@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { validate } from "../../../shared/middlewares/validation.middleware";
+import { requireRole } from "../../../shared/middlewares/auth.middleware";
+import {
+  deleteTranslation,
+  getTranslations,
+  setTranslation,
+} from "./translation.controller";
+import { type TranslatableEntity } from "./translation.repo";
+import {
+  translationBodySchema,
+  translationParamsSchema,
+} from "./translation.validation";
+import { idParamSchema } from "../../../shared/utils/_zod-utils/id-params";
+
+/**
+ * Translation endpoints for one entity, mounted under its `/:id/translations`.
+ * Reads follow the parent router's auth; writes are admin only.
+ */
+export const createTranslationRouter = (entity: TranslatableEntity): Router => {
+  const translationRouter: Router = Router({ mergeParams: true });
+
+  // GET /:id/translations - List every translated name
+  translationRouter.get(
+    "/",
+    validate({
+      params: idParamSchema,
+    }),
+    getTranslations(entity),
+  );
+
+  // PUT /:id/translations/:locale - Add or replace the name in a BCP 47 locale
+  translationRouter.put(
+    "/:locale",
+    requireRole("admin"),
+    validate({
+      params: translationParamsSchema,
+      body: translationBodySchema,
+    }),
+    setTranslation(entity),
+  );
+
+  // DELETE /:id/translations/:locale - Remove the name in a locale
+  translationRouter.delete(
+    "/:locale",
+    requireRole("admin"),
+    validate({
+      params: translationParamsSchema,
+    }),
+    deleteTranslation(entity),
+  );
+
+  return translationRouter;
+};
@@ -0,0 +1,173 @@
+import {
+  bumpTranslatedVersionRepo,
+  deleteTranslationRepo,
+  findTranslationRepo,
+  findTranslationsInLocalesRepo,
+  findTranslationsRepo,
+  upsertTranslationRepo,
+  type TranslatableEntity,
+} from "./translation.repo";
+import { findCountryByIdRepo } from "../country/country.repo";
+import { findStateByIdRepo } from "../state/state.repo";
+import { findCityByIdRepo } from "../city/city.repo";
+import { recordAuditService } from "../audit/audit.service";
+import { db } from "../../../shared/db";
+import { type Translation } from "../../../shared/db/schema";
+import { getRequestContext } from "../../../shared/middlewares/request-context.middleware";
+import {
+  BadRequestError,
+  HttpError,
+  NotFoundError,
+} from "../../../shared/utils/http-errors.util";
+
+const ENTITY_LABELS: Record<TranslatableEntity, string> = {
+  country: "Country",
+  state: "State",
+  city: "City",
+};
+
+const finders = {
+  country: findCountryByIdRepo,
+  state: findStateByIdRepo,
+  city: findCityByIdRepo,
+};
+
+const assertEntityExists = async (entity: TranslatableEntity, id: number) => {
+  const row = await finders[entity](id);
+  if (!row) {
+    throw new NotFoundError(`${ENTITY_LABELS[entity]} with ID ${id} not found`);
+  }
+};
+
+// Audited as an update of the translated row, keyed by locale
+const translationField = (locale: string) => `name.${locale}`;
+
+export const getTranslationsService = async (
+  entity: TranslatableEntity,
+  id: number,
+): Promise<Translation[]> => {
+  await assertEntityExists(entity, id);
+  return await findTranslationsRepo(entity, id);
+};
+
+export const setTranslationService = async (
+  entity: TranslatableEntity,
+  id: number,
+  locale: string,
+  name: string,
+): Promise<Translation> => {
+  await assertEntityExists(entity, id);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await findTranslationRepo(entity, id, locale, tx);
+      const translation = await upsertTranslationRepo(
+        entity,
+        { entityId: id, locale, name },
+        tx,
+      );
+      if (existing?.name !== name) {
+        await bumpTranslatedVersionRepo(entity, id, tx);
+      }
+      await recordAuditService(
+        {
+          entity,
+          entityId: id,
+          action: "update",
+          before: { [translationField(locale)]: existing?.name ?? null },
+          after: { [translationField(locale)]: name },
+        },
+        tx,
+      );
+      return translation;
+    });
+  } catch (error) {
+    throw new BadRequestError(`Failed to save ${entity} translation`, error);
+  }
+};
+
+export const deleteTranslationService = async (
+  entity: TranslatableEntity,
+  id: number,
+  locale: string,
+): Promise<Translation> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const translation = await deleteTranslationRepo(entity, id, locale, tx);
+      if (!translation) {
+        throw new NotFoundError(
+          `${ENTITY_LABELS[entity]} with ID ${id} has no '${locale}' translation`,
+        );
+      }
+      await bumpTranslatedVersionRepo(entity, id, tx);
+      await recordAuditService(
+        {
+          entity,
+          entityId: id,
+          action: "update",
+          before: { [translationField(locale)]: translation.name },
+          after: { [translationField(locale)]: null },
+        },
+        tx,
+      );
+      return translation;
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new BadRequestError(`Failed to delete ${entity} translation`, error);
+  }
+};
+
+/**
+ * Swaps each row's `name` for its translation in the best locale the caller
+ * accepts. Rows without a matching translation, and every row when no
+ * Accept-Language was sent, keep the default name.
+ */
+export const localizeService = async <
+  T extends { id?: number; name?: string | null },
+>(
+  entity: TranslatableEntity,
+  rows: T[],
+): Promise<T[]> => {
+  const locales = getRequestContext()?.locales ?? [];
+  const ids = rows
+    .filter((row) => typeof row.name === "string")
+    .flatMap((row) => (row.id === undefined ? [] : [row.id]));
+  if (!locales.length || !ids.length) {
+    return rows;
+  }
+
+  const best = new Map<number, Translation>();
+  for (const translation of await findTranslationsInLocalesRepo(
+    entity,
+    ids,
+    locales,
+  )) {
+    const current = best.get(translation.entityId);
+    if (
+      !current ||
+      locales.indexOf(translation.locale) < locales.indexOf(current.locale)
+    ) {
+      best.set(translation.entityId, translation);
+    }
+  }
+
+  return rows.map((row) => {
+    const translation = row.id === undefined ? undefined : best.get(row.id);
+    return translation && typeof row.name === "string"
+      ? { ...row, name: translation.name }
+      : row;
+  });
+};
+
+export const localizeOneService = async <
+  T extends { id: number; name: string },
+>(
+  entity: TranslatableEntity,
+  row: T,
+): Promise<T> => {
+  const [localized] = await localizeService(entity, [row]);
+  return localized;
+};
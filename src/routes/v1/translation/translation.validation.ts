@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { v_locale } from "../../../shared/utils/_zod-utils/v-locale";
+
+export const translationParamsSchema = z.object({
+  id: z.coerce.number(),
+  locale: v_locale,
+});
+
+export const translationBodySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(255, "Name must not exceed 255 characters"),
+});
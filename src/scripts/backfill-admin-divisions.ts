@@ -0,0 +1,15 @@
+import * as dotenv from "dotenv";
+dotenv.config({ path: `${process.cwd()}/.env` });
+import { backfillAdminDivisions } from "../shared/db/admin-divisions";
+import { logger } from "../shared/logger";
+
+// One-off: creates the division rows of states and cities that predate them
+backfillAdminDivisions()
+  .then((states) => {
+    logger.info(`Admin divisions backfilled for ${states} states`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.error("Failed to backfill admin divisions:", error);
+    process.exit(1);
+  });
@@ -18,6 +18,14 @@ const {
   KAFKA_RETRY_BACKOFF_MS = "300",
   KAFKA_LOG_LEVEL = "info",
   ENABLE_KAFKA = "true",
+
+  // Pagination
+  PAGINATION_DEFAULT_LIMIT = "20",
+  PAGINATION_MAX_LIMIT = "100",
+
+  // Autocomplete
+  AUTOCOMPLETE_CACHE_SIZE = "1000",
+  AUTOCOMPLETE_CACHE_TTL_MS = "60000",
 } = process.env;
 
 if (NODE_ENV === "production") {
@@ -61,5 +69,17 @@ export const APP_SETTINGS = {
     LOG_LEVEL: KAFKA_LOG_LEVEL as "debug" | "info" | "warn" | "error",
     ENABLED: ENABLE_KAFKA !== "false",
   },
+
+  // Pagination Settings
+  PAGINATION: {
+    DEFAULT_LIMIT: parseInt(PAGINATION_DEFAULT_LIMIT),
+    MAX_LIMIT: parseInt(PAGINATION_MAX_LIMIT),
+  },
+
+  // Autocomplete Settings
+  AUTOCOMPLETE: {
+    CACHE_SIZE: parseInt(AUTOCOMPLETE_CACHE_SIZE),
+    CACHE_TTL_MS: parseInt(AUTOCOMPLETE_CACHE_TTL_MS),
+  },
 };
 
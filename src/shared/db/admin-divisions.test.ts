@@ -0,0 +1,178 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import { db } from ".";
+import {
+  backfillAdminDivisions,
+  ensureAdminDivisions,
+} from "./admin-divisions";
+
+vi.mock(".", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  return { db: drizzle(new PGlite()) };
+});
+
+const divisions = async () =>
+  (
+    await db.execute(sql`
+      select level, name, country_id, state_id, city_id, parent_id,
+        deleted_at is not null as deleted, version
+      from admin_divisions order by id
+    `)
+  ).rows;
+
+beforeAll(async () => {
+  await db.execute(
+    sql`create table countries (id serial primary key, name text not null)`,
+  );
+  await db.execute(sql`
+    create table states (
+      id serial primary key,
+      country_id integer not null references countries (id) on delete cascade,
+      name text not null,
+      deleted_at timestamp
+    )
+  `);
+  await db.execute(sql`
+    create table cities (
+      id serial primary key,
+      state_id integer not null references states (id) on delete cascade,
+      name text not null,
+      deleted_at timestamp
+    )
+  `);
+  await db.execute(sql`
+    create table admin_divisions (
+      id serial primary key,
+      country_id integer not null references countries (id) on delete cascade,
+      state_id integer not null references states (id) on delete cascade,
+      city_id integer references cities (id) on delete cascade,
+      parent_id integer references admin_divisions (id) on delete cascade,
+      level varchar(20) not null,
+      name varchar(255) not null,
+      updated_at timestamp not null default now(),
+      deleted_at timestamp,
+      version integer not null default 1
+    )
+  `);
+  await db.execute(sql`
+    create unique index admin_divisions_state_id_idx on admin_divisions (state_id)
+    where level = 'state'
+  `);
+  await db.execute(
+    sql`create unique index admin_divisions_city_id_idx on admin_divisions (city_id)`,
+  );
+  await ensureAdminDivisions();
+});
+
+beforeEach(async () => {
+  await db.execute(
+    sql`truncate countries, states, cities, admin_divisions restart identity cascade`,
+  );
+  await db.execute(
+    sql`insert into countries (name) values ('France'), ('Belgium')`,
+  );
+});
+
+describe("admin division triggers", () => {
+  it("mirrors new states and cities, bulk inserts included", async () => {
+    await db.execute(
+      sql`insert into states (country_id, name) values (1, 'Nord')`,
+    );
+    await db.execute(
+      sql`insert into cities (state_id, name) values (1, 'Lille'), (1, 'Roubaix')`,
+    );
+
+    expect(await divisions()).toEqual([
+      expect.objectContaining({
+        level: "state",
+        name: "Nord",
+        parent_id: null,
+      }),
+      expect.objectContaining({ level: "city", name: "Lille", parent_id: 1 }),
+      expect.objectContaining({ level: "city", name: "Roubaix", parent_id: 1 }),
+    ]);
+  });
+
+  it("follows renames and soft deletes, and skips writes that change nothing", async () => {
+    await db.execute(
+      sql`insert into states (country_id, name) values (1, 'Nord')`,
+    );
+    await db.execute(
+      sql`insert into cities (state_id, name) values (1, 'Lille')`,
+    );
+
+    await db.execute(sql`update cities set name = 'Lille' where id = 1`);
+    await db.execute(sql`update cities set deleted_at = now() where id = 1`);
+    await db.execute(sql`update states set name = 'Nord (59)' where id = 1`);
+
+    expect(await divisions()).toEqual([
+      expect.objectContaining({ name: "Nord (59)", version: 2 }),
+      expect.objectContaining({ name: "Lille", deleted: true, version: 2 }),
+    ]);
+  });
+
+  it("keeps a city under its county until it moves to another state", async () => {
+    await db.execute(
+      sql`insert into states (country_id, name) values (1, 'Nord'), (2, 'Hainaut')`,
+    );
+    await db.execute(
+      sql`insert into cities (state_id, name) values (1, 'Lille')`,
+    );
+    await db.execute(sql`
+      insert into admin_divisions (country_id, state_id, parent_id, level, name)
+      values (1, 1, 1, 'county', 'Lille Metropole')
+    `);
+    await db.execute(
+      sql`update admin_divisions set parent_id = 4 where id = 3`,
+    );
+
+    await db.execute(sql`update cities set name = 'Lille-Centre' where id = 1`);
+    expect(await divisions()).toContainEqual(
+      expect.objectContaining({ name: "Lille-Centre", parent_id: 4 }),
+    );
+
+    await db.execute(sql`update cities set state_id = 2 where id = 1`);
+    expect(await divisions()).toContainEqual(
+      expect.objectContaining({
+        name: "Lille-Centre",
+        country_id: 2,
+        state_id: 2,
+        parent_id: 2,
+      }),
+    );
+  });
+
+  it("moves a state's whole branch to its new country", async () => {
+    await db.execute(
+      sql`insert into states (country_id, name) values (1, 'Nord')`,
+    );
+    await db.execute(
+      sql`insert into cities (state_id, name) values (1, 'Lille')`,
+    );
+
+    await db.execute(sql`update states set country_id = 2 where id = 1`);
+
+    expect((await divisions()).map((row) => row.country_id)).toEqual([2, 2]);
+  });
+});
+
+describe("backfillAdminDivisions", () => {
+  it("creates the divisions of rows written without the triggers", async () => {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`set local session_replication_role = replica`);
+      await tx.execute(
+        sql`insert into states (country_id, name) values (1, 'Nord'), (1, 'Somme')`,
+      );
+      await tx.execute(
+        sql`insert into cities (state_id, name) values (1, 'Lille'), (2, 'Amiens')`,
+      );
+    });
+    expect(await divisions()).toEqual([]);
+
+    expect(await backfillAdminDivisions(1)).toBe(2);
+    expect(
+      (await divisions()).map((row) => `${row.level}:${row.name}`),
+    ).toEqual(["state:Nord", "city:Lille", "state:Somme", "city:Amiens"]);
+  });
+});
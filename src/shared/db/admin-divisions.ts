@@ -0,0 +1,164 @@
+import { sql } from "drizzle-orm";
+import { db } from ".";
+import { logger } from "../logger";
+
+// Only serializes workers installing the triggers at the same time
+const INSTALL_LOCK = "pg_advisory_xact_lock(hashtext('admin_divisions'))";
+
+/**
+ * Upserts the `state` and `city` division rows of the given ids from the
+ * states and cities tables. Rows that already match are left alone, so their
+ * version only moves on a real change.
+ */
+const SYNC_FUNCTIONS = [
+  sql.raw(`
+    create or replace function sync_state_divisions(ids integer[]) returns void
+    language sql as $$
+      insert into admin_divisions (country_id, state_id, level, name, deleted_at)
+      select states.country_id, states.id, 'state', states.name, states.deleted_at
+      from states
+      where states.id = any(ids)
+      on conflict (state_id) where level = 'state' do update set
+        country_id = excluded.country_id,
+        name = excluded.name,
+        deleted_at = excluded.deleted_at,
+        updated_at = now(),
+        version = admin_divisions.version + 1
+      where (admin_divisions.country_id, admin_divisions.name, admin_divisions.deleted_at)
+        is distinct from (excluded.country_id, excluded.name, excluded.deleted_at);
+
+      -- Whole branches follow their state to another country
+      update admin_divisions set country_id = states.country_id
+      from states
+      where admin_divisions.state_id = states.id
+        and admin_divisions.country_id <> states.country_id
+        and states.id = any(ids);
+    $$
+  `),
+  // A city moved to another state is hung directly under that state again
+  sql.raw(`
+    create or replace function sync_city_divisions(ids integer[]) returns void
+    language sql as $$
+      insert into admin_divisions (country_id, state_id, city_id, parent_id, level, name, deleted_at)
+      select states.country_id, cities.state_id, cities.id, parent.id, 'city', cities.name, cities.deleted_at
+      from cities
+      join states on states.id = cities.state_id
+      join admin_divisions parent on parent.state_id = cities.state_id and parent.level = 'state'
+      where cities.id = any(ids)
+      on conflict (city_id) do update set
+        country_id = excluded.country_id,
+        parent_id = case
+          when admin_divisions.state_id = excluded.state_id then admin_divisions.parent_id
+          else excluded.parent_id
+        end,
+        state_id = excluded.state_id,
+        name = excluded.name,
+        deleted_at = excluded.deleted_at,
+        updated_at = now(),
+        version = admin_divisions.version + 1
+      where (admin_divisions.country_id, admin_divisions.state_id, admin_divisions.name, admin_divisions.deleted_at)
+        is distinct from (excluded.country_id, excluded.state_id, excluded.name, excluded.deleted_at);
+    $$
+  `),
+];
+
+const TRACKED_TABLES = [
+  { table: "states", sync: "sync_state_divisions" },
+  { table: "cities", sync: "sync_city_divisions" },
+] as const;
+
+// Postgres only passes transition tables to single-event triggers
+const TRACKED_EVENTS = ["insert", "update"] as const;
+
+const triggerFunction = (sync: string) =>
+  sql.raw(`
+    create or replace function ${sync}_trigger() returns trigger
+    language plpgsql as $$
+    begin
+      perform ${sync}(array(select id from changed));
+      return null;
+    end
+    $$
+  `);
+
+/**
+ * Installs the triggers that mirror every write to states and cities into
+ * their division rows, cascades and bulk statements included. They run once
+ * per statement inside the writer's transaction, so the two models commit
+ * together and a service cannot forget to sync them. Purges need no trigger,
+ * the foreign keys cascade them.
+ *
+ * Divisions stay a table rather than a view over states and cities because
+ * the `county`, `district` and `municipality` levels created through
+ * `/admin-divisions` only exist there, and a city keeps its place under them.
+ */
+export const ensureAdminDivisions = async () => {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql.raw(`select ${INSTALL_LOCK}`));
+      for (const statement of SYNC_FUNCTIONS) {
+        await tx.execute(statement);
+      }
+
+      for (const { table, sync } of TRACKED_TABLES) {
+        await tx.execute(triggerFunction(sync));
+        for (const event of TRACKED_EVENTS) {
+          const trigger = `${table}_admin_divisions_${event}`;
+          await tx.execute(
+            sql.raw(`drop trigger if exists ${trigger} on ${table}`),
+          );
+          await tx.execute(
+            sql.raw(
+              `create trigger ${trigger} after ${event} on ${table} ` +
+                `referencing new table as changed ` +
+                `for each statement execute function ${sync}_trigger()`,
+            ),
+          );
+        }
+      }
+    });
+  } catch (error) {
+    logger.warn("Failed to set up the admin division triggers", { error });
+  }
+};
+
+/**
+ * Creates the division rows of states and cities written before the triggers
+ * were installed. Run once after deploying divisions
+ * (`npm run backfill:divisions`). Each batch of states commits on its own, so
+ * a large tree never sits in one long transaction, and a rerun only touches
+ * rows that still differ.
+ */
+export const backfillAdminDivisions = async (batchSize = 500) => {
+  // The backfill runs through the same functions as the triggers
+  await ensureAdminDivisions();
+
+  let lastId = 0;
+  let states = 0;
+
+  for (;;) {
+    const { rows } = await db.execute<{ id: number }>(sql`
+      select id from states where id > ${lastId} order by id limit ${batchSize}
+    `);
+    if (!rows.length) {
+      return states;
+    }
+
+    const stateIds = rows.map(({ id }) => Number(id));
+    const ids = sql`array[${sql.join(
+      stateIds.map((id) => sql`${id}`),
+      sql`, `,
+    )}]::integer[]`;
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`select sync_state_divisions(${ids})`);
+      await tx.execute(sql`
+        select sync_city_divisions(array(
+          select id from cities where state_id = any(${ids})
+        ))
+      `);
+    });
+    lastId = stateIds[stateIds.length - 1];
+    states += stateIds.length;
+    logger.info("Backfilled admin divisions", { states });
+  }
+};
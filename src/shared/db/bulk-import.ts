@@ -0,0 +1,107 @@
+import { ZodError } from "zod";
+import { db, type DbTransaction } from ".";
+import { HttpError } from "../utils/http-errors.util";
+import { type ParsedImportRow } from "../utils/import-parser.util";
+
+export type ImportRowStatus = "created" | "updated" | "skipped";
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+  details?: unknown;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+// Thrown to roll the import transaction back without failing the request
+class ImportRollback extends Error {}
+
+const toRowError = (line: number, error: unknown): ImportRowError => {
+  if (error instanceof ZodError) {
+    return {
+      line,
+      message: "Validation failed",
+      details: error.flatten().fieldErrors,
+    };
+  }
+  if (error instanceof HttpError) {
+    return { line, message: error.message, details: error.details };
+  }
+  return {
+    line,
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
+
+/**
+ * Imports every parsed row inside a single transaction. Each row runs in its
+ * own savepoint so one bad row is reported without aborting the others; the
+ * transaction is only committed when no row failed and this is not a dry run.
+ */
+export const runImport = async ({
+  rows,
+  dryRun,
+  importRow,
+}: {
+  rows: AsyncIterable<ParsedImportRow>;
+  dryRun: boolean;
+  importRow: (
+    record: Record<string, unknown>,
+    tx: DbTransaction,
+  ) => Promise<ImportRowStatus>;
+}): Promise<ImportReport> => {
+  const report: ImportReport = {
+    dryRun,
+    committed: false,
+    total: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  try {
+    await db.transaction(async (tx) => {
+      for await (const row of rows) {
+        report.total++;
+
+        if (!row.record) {
+          report.failed++;
+          report.errors.push({ line: row.line, message: row.error! });
+          continue;
+        }
+
+        try {
+          const status = await tx.transaction((savepoint) =>
+            importRow(row.record!, savepoint),
+          );
+          report[status]++;
+        } catch (error) {
+          report.failed++;
+          report.errors.push(toRowError(row.line, error));
+        }
+      }
+
+      if (dryRun || report.failed > 0) {
+        throw new ImportRollback();
+      }
+    });
+    report.committed = true;
+  } catch (error) {
+    if (!(error instanceof ImportRollback)) {
+      throw error;
+    }
+  }
+
+  return report;
+};
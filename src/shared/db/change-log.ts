@@ -0,0 +1,93 @@
+import { sql } from "drizzle-orm";
+import { db } from ".";
+import { logger } from "../logger";
+
+// Only serializes workers installing the triggers at the same time
+const INSTALL_LOCK = "pg_advisory_xact_lock(hashtext('change_log'))";
+
+const TRACKED_TABLES = [
+  { table: "countries", entity: "country" },
+  { table: "states", entity: "state" },
+  { table: "cities", entity: "city" },
+] as const;
+
+const RECORD_FUNCTION = sql.raw(`
+  create or replace function record_geo_change() returns trigger
+  language plpgsql as $$
+  declare
+    record_id integer;
+    change varchar;
+  begin
+    if tg_op = 'UPDATE' and new is not distinct from old then
+      return null;
+    end if;
+
+    if tg_op = 'DELETE' then
+      record_id := old.id;
+      change := 'delete';
+    else
+      record_id := new.id;
+      change := case when new.deleted_at is null then 'upsert' else 'delete' end;
+    end if;
+
+    -- Replaces the record's earlier change, the new xid and seq move it to
+    -- the end of the feed
+    insert into change_log (entity, entity_id, action)
+    values (tg_argv[0], record_id, change)
+    on conflict (entity, entity_id) do update set
+      xid = excluded.xid,
+      seq = excluded.seq,
+      action = excluded.action,
+      changed_at = excluded.changed_at;
+    return null;
+  end
+  $$
+`);
+
+/**
+ * Installs the triggers that feed the sync change log from every write to
+ * countries, states and cities, cascades and bulk statements included. An
+ * empty log is seeded with the live rows so a sync from cursor 0 returns the
+ * whole dataset.
+ *
+ * Writers never wait on each other for the log. Instead the feed holds back
+ * changes until every older transaction has ended, so a long import delays
+ * the feed (not other writes) until it commits.
+ */
+export const ensureChangeLog = async () => {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql.raw(`select ${INSTALL_LOCK}`));
+      await tx.execute(RECORD_FUNCTION);
+
+      for (const { table, entity } of TRACKED_TABLES) {
+        await tx.execute(
+          sql.raw(`drop trigger if exists ${table}_change_log on ${table}`),
+        );
+        await tx.execute(
+          sql.raw(
+            `create trigger ${table}_change_log after insert or update or delete on ${table} ` +
+              `for each row execute function record_geo_change('${entity}')`,
+          ),
+        );
+      }
+
+      const { rows } = await tx.execute(
+        sql`select exists (select 1 from change_log) as seeded`,
+      );
+      if (rows[0]?.seeded) {
+        return;
+      }
+      for (const { table, entity } of TRACKED_TABLES) {
+        await tx.execute(
+          sql.raw(
+            `insert into change_log (entity, entity_id, action) ` +
+              `select '${entity}', id, 'upsert' from ${table} where deleted_at is null order by id`,
+          ),
+        );
+      }
+    });
+  } catch (error) {
+    logger.warn("Failed to set up the sync change log", { error });
+  }
+};
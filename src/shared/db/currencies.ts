@@ -0,0 +1,52 @@
+import { isNotNull } from "drizzle-orm";
+import { db, type DbClient } from ".";
+import { TB_countries, TB_currencies, type NewCurrency } from "./schema";
+import { logger } from "../logger";
+
+const currencyNames = new Intl.DisplayNames(["en"], { type: "currency" });
+
+// Name, symbol and minor units as known to ICU; unknown codes get 2 decimals
+const currencyDefaults = (code: string): NewCurrency => {
+  const format = new Intl.NumberFormat("en", {
+    style: "currency",
+    currency: code,
+    currencyDisplay: "narrowSymbol",
+  });
+  return {
+    code,
+    name: currencyNames.of(code) ?? null,
+    symbol:
+      format.formatToParts(1).find((part) => part.type === "currency")?.value ??
+      null,
+    minorUnits: format.resolvedOptions().maximumFractionDigits ?? 2,
+  };
+};
+
+// Adds codes that are not on file yet, leaving existing rows untouched
+export const registerCurrencies = async (
+  codes: string[],
+  client: DbClient = db,
+): Promise<void> => {
+  const unique = [...new Set(codes)];
+  if (!unique.length) {
+    return;
+  }
+
+  await client
+    .insert(TB_currencies)
+    .values(unique.map(currencyDefaults))
+    .onConflictDoNothing();
+};
+
+// Registers the currencies of countries saved before the table existed
+export const ensureCurrencies = async () => {
+  try {
+    const rows = await db
+      .selectDistinct({ code: TB_countries.currencyCode })
+      .from(TB_countries)
+      .where(isNotNull(TB_countries.currencyCode));
+    await registerCurrencies(rows.map(({ code }) => code!));
+  } catch (error) {
+    logger.warn("Failed to register country currencies", { error });
+  }
+};
@@ -0,0 +1,17 @@
+export type DeletePolicy = "restrict" | "cascade" | "reassign";
+
+export interface DeleteOptions {
+  hard?: boolean;
+  policy?: DeletePolicy;
+  // Parent the children move to under the `reassign` policy
+  reassignTo?: number;
+}
+
+export interface DeleteReport<T> {
+  deleted: T;
+  policy: DeletePolicy;
+  hard: boolean;
+  // Number of child rows deleted or moved, keyed by entity
+  affected: Record<string, number>;
+  reassignedTo?: number;
+}
@@ -0,0 +1,60 @@
+import { and, isNotNull, isNull } from "drizzle-orm";
+import { db } from ".";
+import { TB_countries } from "./schema";
+import { logger } from "../logger";
+import {
+  getDialCodes,
+  setDialCodes,
+  toDialPrefix,
+  type DialCode,
+} from "../utils/phone.util";
+
+// Country writes show up in phone parsing within this window
+const MAX_AGE_MS = 60_000;
+
+let loadedAt = 0;
+
+/**
+ * Refreshes the in-memory dial codes from the countries table once they are
+ * older than `MAX_AGE_MS`, or right away with `force`.
+ */
+export const loadDialCodes = async ({
+  force = false,
+}: { force?: boolean } = {}): Promise<DialCode[]> => {
+  if (!force && Date.now() - loadedAt < MAX_AGE_MS) {
+    return getDialCodes();
+  }
+
+  const rows = await db
+    .select({
+      countryId: TB_countries.id,
+      country: TB_countries.code,
+      name: TB_countries.name,
+      phoneCode: TB_countries.phoneCode,
+    })
+    .from(TB_countries)
+    .where(
+      and(isNotNull(TB_countries.phoneCode), isNull(TB_countries.deletedAt)),
+    )
+    .orderBy(TB_countries.id);
+
+  setDialCodes(
+    rows
+      .map(({ phoneCode, ...row }) => ({
+        ...row,
+        ...toDialPrefix(phoneCode!),
+      }))
+      .filter(({ callingCode }) => callingCode !== ""),
+  );
+  loadedAt = Date.now();
+  return getDialCodes();
+};
+
+// Loads the dial codes on startup; a failure is logged and retried on use
+export const ensureDialCodes = async () => {
+  try {
+    await loadDialCodes({ force: true });
+  } catch (error) {
+    logger.warn("Failed to load dial codes", { error });
+  }
+};
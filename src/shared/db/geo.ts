@@ -0,0 +1,38 @@
+import { and, between, gte, lte, or, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+  EARTH_RADIUS_KM,
+  type BoundingBox,
+  type Coordinates,
+} from "../utils/geo.util";
+
+export interface CoordinateColumns {
+  latitude: AnyPgColumn;
+  longitude: AnyPgColumn;
+}
+
+/**
+ * Range condition on the coordinate columns. It can use a plain btree index,
+ * so it runs before the haversine distance is worked out for every row.
+ */
+export const withinBoundingBox = (
+  { latitude, longitude }: CoordinateColumns,
+  box: BoundingBox,
+): SQL | undefined =>
+  and(
+    between(latitude, box.minLatitude, box.maxLatitude),
+    box.minLongitude <= box.maxLongitude
+      ? between(longitude, box.minLongitude, box.maxLongitude)
+      : or(gte(longitude, box.minLongitude), lte(longitude, box.maxLongitude)),
+  );
+
+// Great-circle distance in kilometres, mirroring `haversineKm`
+export const distanceKm = (
+  { latitude, longitude }: CoordinateColumns,
+  point: Coordinates,
+): SQL<number> =>
+  sql<number>`2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+    power(sin(radians(${latitude} - ${point.latitude}::float8) / 2), 2) +
+    cos(radians(${point.latitude}::float8)) * cos(radians(${latitude})) *
+    power(sin(radians(${longitude} - ${point.longitude}::float8) / 2), 2)
+  )))`;
@@ -9,6 +9,22 @@ const pool = new Pool({
 });
 export const db = drizzle({ client: pool, schema });
 
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Repos accept either the pool or an open transaction
+export type DbClient = typeof db | DbTransaction;
+
+export interface FindOptions {
+  client?: DbClient;
+  // Soft-deleted rows are hidden unless explicitly requested
+  includeDeleted?: boolean;
+}
+
+export interface UpdateOptions {
+  client?: DbClient;
+  // Only update the row while it is still at this version
+  version?: number;
+}
+
 export const checkDBConnection = async () => {
     try {
         await db.select().from(schema.user).limit(1);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  integer,
+  pgTable,
+  serial,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { and } from "drizzle-orm";
+import { buildListQuery, type ListQueryConfig } from "./list-query";
+import { BadRequestError } from "../utils/http-errors.util";
+
+const TB_items = pgTable("items", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }),
+  rank: integer("rank"),
+  createdAt: timestamp("created_at"),
+});
+
+const config: ListQueryConfig = {
+  columns: {
+    id: TB_items.id,
+    name: TB_items.name,
+    rank: TB_items.rank,
+    createdAt: TB_items.createdAt,
+  },
+  filterable: ["id", "name", "rank", "createdAt"],
+  sortable: ["id", "name", "createdAt"],
+  defaultSort: { field: "id", direction: "asc" },
+};
+
+const dialect = new PgDialect();
+
+describe("buildListQuery", () => {
+  it("builds a case-insensitive contains on text fields", () => {
+    const { where } = buildListQuery(config, {
+      filters: [
+        { type: "text", field: "name", condition: "contains", value: "ber" },
+      ],
+    });
+    const query = dialect.sqlToQuery(and(where)!);
+    expect(query.sql).toBe('"items"."name" ilike $1');
+    expect(query.params).toEqual(["%ber%"]);
+  });
+
+  it.each(["id", "rank", "createdAt"])(
+    "rejects contains on the non-text field %s",
+    (field) => {
+      expect(() =>
+        buildListQuery(config, {
+          filters: [{ type: "text", field, condition: "contains", value: "1" }],
+        }),
+      ).toThrow(
+        new BadRequestError(
+          `Filter 'contains' only works on text fields, '${field}' is not one`,
+        ),
+      );
+    },
+  );
+
+  it("coerces range bounds to the filter type", () => {
+    const { where } = buildListQuery(config, {
+      filters: [
+        { type: "number", field: "rank", condition: "between", value: "2,5" },
+      ],
+    });
+    const query = dialect.sqlToQuery(and(where)!);
+    expect(query.sql).toBe('"items"."rank" between $1 and $2');
+    expect(query.params).toEqual([2, 5]);
+  });
+
+  it("rejects fields the config does not declare", () => {
+    expect(() => buildListQuery(config, { sort: { Asc: "rank" } })).toThrow(
+      "Unknown sort field 'rank'",
+    );
+  });
+
+  it("falls back to the default sort", () => {
+    expect(buildListQuery(config).sorts).toEqual([
+      { field: "id", direction: "asc", column: TB_items.id },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  and,
+  asc,
+  between,
+  desc,
+  eq,
+  gt,
+  ilike,
+  lt,
+  ne,
+  type SQL,
+} from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import { BadRequestError } from "../utils/http-errors.util";
+import {
+  type FilterData,
+  type ListFilters,
+} from "../utils/_zod-utils/v-list-filters";
+
+/**
+ * Declares which columns of a resource may be exposed through the generic
+ * list filters. `columns` is the set of selectable fields; `filterable` and
+ * `sortable` are subsets of its keys.
+ */
+export interface ListQueryConfig {
+  columns: Record<string, AnyPgColumn>;
+  filterable: string[];
+  sortable: string[];
+  defaultSort: ListSort;
+}
+
+export interface ListSort {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+export type ListQueryOptions = Partial<
+  Pick<ListFilters, "filters" | "sort" | "fields">
+>;
+
+export interface ListQuery {
+  where?: SQL;
+  sorts: (ListSort & { column: AnyPgColumn })[];
+  orderBy: SQL[];
+  selection?: Record<string, AnyPgColumn>;
+}
+
+const coerceValue = (filter: FilterData, raw: number | string) => {
+  switch (filter.type) {
+    case "number": {
+      const value = Number(raw);
+      if (Number.isNaN(value)) {
+        throw new BadRequestError(
+          `Filter value for '${filter.field}' must be a number`,
+        );
+      }
+      return value;
+    }
+    case "date": {
+      const value = new Date(raw);
+      if (Number.isNaN(value.getTime())) {
+        throw new BadRequestError(
+          `Filter value for '${filter.field}' must be a valid date`,
+        );
+      }
+      return value;
+    }
+    default:
+      return String(raw);
+  }
+};
+
+const buildCondition = (column: AnyPgColumn, filter: FilterData): SQL => {
+  switch (filter.condition) {
+    case "equals":
+      return eq(column, coerceValue(filter, filter.value));
+    case "not equal":
+      return ne(column, coerceValue(filter, filter.value));
+    case "greater than":
+      return gt(column, coerceValue(filter, filter.value));
+    case "less than":
+      return lt(column, coerceValue(filter, filter.value));
+    case "contains":
+      // Postgres has no `ilike` for numbers or timestamps
+      if (column.dataType !== "string") {
+        throw new BadRequestError(
+          `Filter 'contains' only works on text fields, '${filter.field}' is not one`,
+        );
+      }
+      return ilike(column, `%${filter.value}%`);
+    case "between": {
+      // Range bounds are passed as a single "min,max" value
+      const bounds = String(filter.value).split(",");
+      if (bounds.length !== 2) {
+        throw new BadRequestError(
+          `Filter value for '${filter.field}' must be in the form 'min,max'`,
+        );
+      }
+      return between(
+        column,
+        coerceValue(filter, bounds[0].trim()),
+        coerceValue(filter, bounds[1].trim()),
+      );
+    }
+  }
+};
+
+const assertAllowed = (allowed: string[], field: string, kind: string) => {
+  if (!allowed.includes(field)) {
+    throw new BadRequestError(`Unknown ${kind} field '${field}'`, {
+      allowed,
+    });
+  }
+};
+
+/**
+ * Turns `v_list_filters` options into drizzle where/order/select clauses.
+ * Any field that is not declared in the resource config is rejected with a 400.
+ */
+export const buildListQuery = (
+  config: ListQueryConfig,
+  options: ListQueryOptions = {},
+): ListQuery => {
+  const conditions = (options.filters ?? []).map((filter) => {
+    assertAllowed(config.filterable, filter.field, "filter");
+    return buildCondition(config.columns[filter.field], filter);
+  });
+
+  const requestedSorts: ListSort[] = [];
+  if (options.sort?.Asc) {
+    requestedSorts.push({ field: options.sort.Asc, direction: "asc" });
+  }
+  if (options.sort?.Desc) {
+    requestedSorts.push({ field: options.sort.Desc, direction: "desc" });
+  }
+  requestedSorts.forEach(({ field }) =>
+    assertAllowed(config.sortable, field, "sort"),
+  );
+
+  const sorts = (
+    requestedSorts.length ? requestedSorts : [config.defaultSort]
+  ).map((sort) => ({ ...sort, column: config.columns[sort.field] }));
+
+  let selection: Record<string, AnyPgColumn> | undefined;
+  if (options.fields?.length) {
+    selection = {};
+    for (const field of options.fields) {
+      assertAllowed(Object.keys(config.columns), field, "select");
+      selection[field] = config.columns[field];
+    }
+  }
+
+  return {
+    where: conditions.length ? and(...conditions) : undefined,
+    sorts,
+    orderBy: sorts.map(({ column, direction }) =>
+      direction === "asc" ? asc(column) : desc(column),
+    ),
+    selection,
+  };
+};
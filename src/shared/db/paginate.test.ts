@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import {
+  PgDialect,
+  pgTable,
+  serial,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import {
+  decodeCursor,
+  encodeCursor,
+  keysetCondition,
+  keysetOrderBy,
+  paginate,
+  withIdTiebreaker,
+  type KeysetSort,
+} from "./paginate";
+import { db } from ".";
+
+vi.mock(".", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  return { db: drizzle(new PGlite()) };
+});
+
+const TB_items = pgTable("items", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+const dialect = new PgDialect();
+
+const byCreatedAt: KeysetSort[] = withIdTiebreaker(
+  [{ field: "createdAt", direction: "desc", column: TB_items.createdAt }],
+  TB_items.id,
+);
+
+describe("cursors", () => {
+  it("round-trips values and revives dates", () => {
+    const createdAt = new Date("2024-03-01T10:20:30.456Z");
+    const cursor = encodeCursor({ createdAt, id: 7 }, byCreatedAt, "next");
+
+    expect(decodeCursor(cursor, byCreatedAt)).toEqual({
+      d: "next",
+      s: "createdAt:desc,id:asc",
+      v: [createdAt, 7],
+    });
+  });
+
+  it("rejects a cursor issued for another sort", () => {
+    const byName = withIdTiebreaker(
+      [{ field: "name", direction: "asc", column: TB_items.name }],
+      TB_items.id,
+    );
+    const cursor = encodeCursor({ name: "a", id: 1 }, byName, "next");
+
+    expect(() => decodeCursor(cursor, byCreatedAt)).toThrow(
+      "Cursor does not match the requested sort",
+    );
+  });
+
+  it("rejects garbage", () => {
+    expect(() => decodeCursor("not-a-cursor", byCreatedAt)).toThrow(
+      "Invalid cursor",
+    );
+  });
+});
+
+describe("keysetCondition", () => {
+  it("compares timestamps at the millisecond precision they are read at", () => {
+    const createdAt = new Date("2024-03-01T10:20:30.456Z");
+    const query = dialect.sqlToQuery(
+      keysetCondition(byCreatedAt, [createdAt, 7], "next")!,
+    );
+
+    expect(query.sql).toBe(
+      `(date_trunc('milliseconds', "items"."created_at") < $1 or ` +
+        `(date_trunc('milliseconds', "items"."created_at") = $2 and "items"."id" > $3))`,
+    );
+    expect(query.params).toEqual([
+      "2024-03-01T10:20:30.456Z",
+      "2024-03-01T10:20:30.456Z",
+      7,
+    ]);
+  });
+
+  it("flips the comparison when reading backwards", () => {
+    const query = dialect.sqlToQuery(
+      keysetCondition(
+        byCreatedAt,
+        [new Date("2024-03-01T10:20:30.456Z"), 7],
+        "prev",
+      )!,
+    );
+    expect(query.sql).toContain(
+      `date_trunc('milliseconds', "items"."created_at") > $1`,
+    );
+    expect(query.sql).toContain(`"items"."id" < $3`);
+  });
+
+  it("orders by the same keys it compares", () => {
+    const orderBy = keysetOrderBy(byCreatedAt).map(
+      (clause) => dialect.sqlToQuery(clause).sql,
+    );
+    expect(orderBy).toEqual([
+      `date_trunc('milliseconds', "items"."created_at") desc`,
+      `"items"."id" asc`,
+    ]);
+  });
+});
+
+describe("paginate", () => {
+  const config = {
+    columns: { id: TB_items.id, name: TB_items.name },
+    filterable: [],
+    sortable: ["name"],
+    defaultSort: { field: "id", direction: "asc" as const },
+  };
+
+  beforeAll(async () => {
+    await db.execute(
+      sql`create table items (id serial primary key, name varchar(255), created_at timestamp not null default now())`,
+    );
+    await db.execute(
+      sql`insert into items (name) values ('b'), (null), ('a'), (null), ('c')`,
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.execute(sql`drop table items`);
+  });
+
+  // Follows `next` cursors to the end, then `prev` cursors back to the start
+  const walk = async (direction: "Asc" | "Desc") => {
+    const sort = { [direction]: "name" };
+    const read = (cursor?: string) =>
+      paginate<{ id: number }>({
+        table: TB_items,
+        idColumn: TB_items.id,
+        config,
+        options: { sort, limit: 2, cursor },
+      });
+
+    const pages: number[][] = [];
+    let page = await read();
+    pages.push(page.rows.map((row) => row.id));
+    while (page.cursors.next && pages.length < 10) {
+      page = await read(page.cursors.next);
+      pages.push(page.rows.map((row) => row.id));
+    }
+
+    const back: number[][] = [];
+    while (page.cursors.prev && back.length < 10) {
+      page = await read(page.cursors.prev);
+      back.unshift(page.rows.map((row) => row.id));
+    }
+    return { forward: pages.flat(), back: back.flat() };
+  };
+
+  it.each([
+    ["Asc", [3, 1, 5, 2, 4]],
+    ["Desc", [5, 1, 3, 2, 4]],
+  ] as const)(
+    "pages across NULL sort keys, kept last (%s)",
+    async (direction, ids) => {
+      const { forward, back } = await walk(direction);
+
+      expect(forward).toEqual(ids);
+      // Every row but the last page's, read again on the way back
+      expect(back).toEqual(ids.slice(0, 4));
+    },
+  );
+});
+
+describe("nullable sort keys", () => {
+  const byName = withIdTiebreaker(
+    [{ field: "name", direction: "asc", column: TB_items.name }],
+    TB_items.id,
+  );
+
+  it("orders NULLs last, and first when reading backwards", () => {
+    const clauses = (reverse: boolean) =>
+      keysetOrderBy(byName, reverse).map(
+        (clause) => dialect.sqlToQuery(clause).sql,
+      );
+
+    expect(clauses(false)).toEqual([
+      `"items"."name" asc nulls last`,
+      `"items"."id" asc`,
+    ]);
+    expect(clauses(true)).toEqual([
+      `"items"."name" desc nulls first`,
+      `"items"."id" desc`,
+    ]);
+  });
+
+  it("matches a NULL cursor value with is null", () => {
+    const query = dialect.sqlToQuery(
+      keysetCondition(byName, [null, 4], "next")!,
+    );
+
+    expect(query.sql).toBe(
+      `(false or ("items"."name" is null and "items"."id" > $1))`,
+    );
+  });
+});
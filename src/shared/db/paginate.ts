@@ -0,0 +1,292 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { type AnyPgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { db } from ".";
+import { APP_SETTINGS } from "../app-settings";
+import { BadRequestError } from "../utils/http-errors.util";
+import { c_pagination } from "../utils/_zod-utils/v-pagination";
+import { type ListFilters } from "../utils/_zod-utils/v-list-filters";
+import {
+  buildListQuery,
+  type ListQueryConfig,
+  type ListSort,
+} from "./list-query";
+
+export type PaginateOptions = Partial<
+  Pick<ListFilters, "filters" | "sort" | "fields" | "page" | "limit" | "cursor">
+>;
+
+export interface Page<T> {
+  rows: T[];
+  count: number;
+  page: {
+    page: number | null;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+  cursors: {
+    next: string | null;
+    prev: string | null;
+  };
+}
+
+export type KeysetSort = ListSort & { column: AnyPgColumn };
+
+interface Cursor {
+  // Direction to read from the cursor position
+  d: "next" | "prev";
+  // Sort signature the cursor was issued for
+  s: string;
+  // Values of the sort columns (id last) at the cursor position
+  v: unknown[];
+}
+
+const sortSignature = (sorts: KeysetSort[]) =>
+  sorts.map(({ field, direction }) => `${field}:${direction}`).join(",");
+
+export const encodeCursor = (
+  row: Record<string, unknown>,
+  sorts: KeysetSort[],
+  direction: Cursor["d"],
+): string => {
+  const cursor: Cursor = {
+    d: direction,
+    s: sortSignature(sorts),
+    v: sorts.map(({ field }) => row[field]),
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+export const decodeCursor = (value: string, sorts: KeysetSort[]): Cursor => {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch (e) {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  if (
+    (cursor?.d !== "next" && cursor?.d !== "prev") ||
+    !Array.isArray(cursor.v) ||
+    cursor.v.length !== sorts.length
+  ) {
+    throw new BadRequestError("Invalid cursor");
+  }
+  if (cursor.s !== sortSignature(sorts)) {
+    throw new BadRequestError("Cursor does not match the requested sort");
+  }
+
+  // JSON turns dates into strings, revive them for timestamp columns
+  cursor.v = cursor.v.map((value, i) =>
+    sorts[i].column.dataType === "date" && value !== null
+      ? new Date(value as string)
+      : value,
+  );
+
+  return cursor;
+};
+
+/**
+ * Postgres keeps timestamps to the microsecond but they are read back as
+ * millisecond Dates, so a cursor value never equals the stored one. Timestamp
+ * sort keys are therefore ordered and compared at millisecond precision.
+ */
+export const keysetKey = (column: AnyPgColumn): SQL =>
+  column.columnType === "PgTimestamp"
+    ? sql`date_trunc('milliseconds', ${column})`
+    : sql`${column}`;
+
+// Bound the way the column itself would bind it, e.g. dates as UTC ISO strings
+const keysetValue = (column: AnyPgColumn, value: unknown) =>
+  column.columnType === "PgTimestamp" && value instanceof Date
+    ? column.mapToDriverValue(value)
+    : value;
+
+/**
+ * Nullable sort keys keep their NULLs last in either direction; reading
+ * backwards walks the same order in reverse, so they come first there.
+ */
+export const keysetOrderBy = (sorts: KeysetSort[], reverse = false): SQL[] =>
+  sorts.map(({ column, direction }) => {
+    const ascending = (direction === "asc") !== reverse;
+    const key = keysetKey(column);
+    if (column.notNull) {
+      return ascending ? asc(key) : desc(key);
+    }
+    return sql`${key} ${sql.raw(ascending ? "asc" : "desc")} nulls ${sql.raw(
+      reverse ? "first" : "last",
+    )}`;
+  });
+
+/**
+ * Appends the primary key as a final tiebreaker so that every sort used for
+ * keyset pagination is a total order.
+ */
+export const withIdTiebreaker = (
+  sorts: KeysetSort[],
+  idColumn: AnyPgColumn,
+): KeysetSort[] =>
+  sorts.some(({ field }) => field === "id")
+    ? sorts
+    : [...sorts, { field: "id", direction: "asc", column: idColumn }];
+
+// Same sort key as the cursor; `= NULL` would never match
+const keysetEqual = (column: AnyPgColumn, value: unknown): SQL | undefined =>
+  value === null
+    ? isNull(keysetKey(column))
+    : eq(keysetKey(column), keysetValue(column, value));
+
+// Sort key past the cursor's, with NULLs sorted after every value
+const keysetPast = (
+  { column, direction }: KeysetSort,
+  value: unknown,
+  next: boolean,
+): SQL | undefined => {
+  const key = keysetKey(column);
+  const compare = (direction === "asc") === next ? gt : lt;
+  if (column.notNull) {
+    return compare(key, keysetValue(column, value));
+  }
+  if (next) {
+    return value === null
+      ? sql`false`
+      : or(compare(key, keysetValue(column, value)), isNull(key));
+  }
+  return value === null
+    ? isNotNull(key)
+    : compare(key, keysetValue(column, value));
+};
+
+/**
+ * Builds the lexicographic "row comes after the cursor" condition, e.g.
+ * `(a > va) OR (a = va AND b > vb)`, honoring each column's direction.
+ */
+export const keysetCondition = (
+  sorts: KeysetSort[],
+  values: unknown[],
+  direction: Cursor["d"],
+): SQL | undefined =>
+  or(
+    ...sorts.map((sort, i) =>
+      and(
+        ...sorts
+          .slice(0, i)
+          .map((prev, j) => keysetEqual(prev.column, values[j])),
+        keysetPast(sort, values[i], direction === "next"),
+      ),
+    ),
+  );
+
+export const resolveLimit = (limit?: number) =>
+  Math.min(
+    limit ?? APP_SETTINGS.PAGINATION.DEFAULT_LIMIT,
+    APP_SETTINGS.PAGINATION.MAX_LIMIT,
+  );
+
+/**
+ * Runs a filtered list query in offset mode (`page`/`limit`) or keyset mode
+ * (`cursor`) and returns the rows with total count, page metadata and cursors.
+ */
+export const paginate = async <T>({
+  table,
+  idColumn,
+  config,
+  options = {},
+  where,
+}: {
+  table: PgTable;
+  idColumn: AnyPgColumn;
+  config: ListQueryConfig;
+  options?: PaginateOptions;
+  where?: SQL;
+}): Promise<Page<T>> => {
+  const listQuery = buildListQuery(config, options);
+  const sorts = withIdTiebreaker(listQuery.sorts, idColumn);
+  const limit = resolveLimit(options.limit);
+  const cursor = options.cursor
+    ? decodeCursor(options.cursor, sorts)
+    : undefined;
+  const page = cursor ? null : (options.page ?? 1);
+
+  const baseWhere = and(where, listQuery.where);
+
+  // Cursor rows need the sort columns even when `fields` narrows the selection
+  const selection = listQuery.selection
+    ? {
+        ...listQuery.selection,
+        ...Object.fromEntries(
+          sorts.map(({ field, column }) => [field, column]),
+        ),
+      }
+    : getTableColumns(table);
+
+  // Reading backwards flips the order; rows are reversed again below
+  const reverse = cursor?.d === "prev";
+  const orderBy = keysetOrderBy(sorts, reverse);
+
+  const query = db
+    .select(selection)
+    .from(table)
+    .where(
+      cursor
+        ? and(baseWhere, keysetCondition(sorts, cursor.v, cursor.d))
+        : baseWhere,
+    )
+    .orderBy(...orderBy)
+    .limit(limit + 1)
+    .$dynamic();
+
+  if (page !== null) {
+    query.offset(c_pagination({ page, limit }).offset);
+  }
+
+  const [fetched, [total]] = await Promise.all([
+    query,
+    db.select({ count: count() }).from(table).where(baseWhere),
+  ]);
+
+  const hasMore = fetched.length > limit;
+  const rows = fetched.slice(0, limit) as Record<string, unknown>[];
+  if (reverse) {
+    rows.reverse();
+  }
+
+  const hasNext = reverse ? true : hasMore;
+  const hasPrev = reverse ? hasMore : cursor ? true : page! > 1;
+  const totalCount = Number(total?.count ?? 0);
+
+  return {
+    rows: rows as T[],
+    count: totalCount,
+    page: {
+      page,
+      limit,
+      totalPages: Math.ceil(totalCount / limit),
+      hasNext,
+      hasPrev,
+    },
+    cursors: {
+      next:
+        hasNext && rows.length
+          ? encodeCursor(rows[rows.length - 1], sorts, "next")
+          : null,
+      prev:
+        hasPrev && rows.length ? encodeCursor(rows[0], sorts, "prev") : null,
+    },
+  };
+};
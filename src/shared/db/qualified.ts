@@ -0,0 +1,9 @@
+import { getTableName, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+
+/**
+ * Fully qualified column reference. Drizzle leaves table names out of
+ * single-table queries, which is ambiguous inside a correlated subquery.
+ */
+export const qualified = (column: AnyPgColumn): SQL =>
+  sql`${sql.identifier(getTableName(column.table))}.${sql.identifier(column.name)}`;
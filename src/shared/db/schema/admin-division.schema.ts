@@ -0,0 +1,71 @@
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgTable,
+  serial,
+  timestamp,
+  uniqueIndex,
+  varchar,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+import { TB_states } from "./state.schema";
+import { TB_cities } from "./city.schema";
+
+// Ordered from the top of a country down; any level may nest in itself
+export const ADMIN_DIVISION_LEVELS = [
+  "state",
+  "county",
+  "district",
+  "municipality",
+  "city",
+] as const;
+
+/**
+ * Every state and city has a division row mirroring it, so the division tree
+ * runs from a state down to its cities with any number of levels between.
+ */
+export const TB_adminDivisions = pgTable(
+  "admin_divisions",
+  {
+    id: serial("id").primaryKey(),
+    countryId: integer("country_id")
+      .references(() => TB_countries.id, { onDelete: "cascade" })
+      .notNull(),
+    // The state at the root of this division's branch
+    stateId: integer("state_id")
+      .references(() => TB_states.id, { onDelete: "cascade" })
+      .notNull(),
+    // Only set on `city` rows
+    cityId: integer("city_id").references(() => TB_cities.id, {
+      onDelete: "cascade",
+    }),
+    // Null on `state` rows only
+    parentId: integer("parent_id").references(
+      (): AnyPgColumn => TB_adminDivisions.id,
+      { onDelete: "cascade" },
+    ),
+    level: varchar("level", {
+      length: 20,
+      enum: ADMIN_DIVISION_LEVELS,
+    }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    code: varchar("code", { length: 20 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+    version: integer("version").default(1).notNull(),
+  },
+  (table) => ({
+    parentIdx: index("admin_divisions_parent_id_idx").on(table.parentId),
+    stateIdx: uniqueIndex("admin_divisions_state_id_idx")
+      .on(table.stateId)
+      .where(sql`level = 'state'`),
+    cityIdx: uniqueIndex("admin_divisions_city_id_idx").on(table.cityId),
+  }),
+);
+
+export type AdminDivisionLevel = (typeof ADMIN_DIVISION_LEVELS)[number];
+export type AdminDivision = typeof TB_adminDivisions.$inferSelect;
+export type NewAdminDivision = typeof TB_adminDivisions.$inferInsert;
@@ -0,0 +1,25 @@
+import {
+  integer,
+  jsonb,
+  pgTable,
+  serial,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+export const TB_auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entity: varchar("entity", { length: 50 }).notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: varchar("action", { length: 20 }).notNull(),
+  actorId: varchar("actor_id", { length: 255 }),
+  // Claims of the JWT the change was made with
+  actor: jsonb("actor"),
+  // Changed fields only, as { field: { before, after } }
+  diff: jsonb("diff").notNull(),
+  requestId: varchar("request_id", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuditLog = typeof TB_auditLog.$inferSelect;
+export type NewAuditLog = typeof TB_auditLog.$inferInsert;
@@ -0,0 +1,40 @@
+import {
+  doublePrecision,
+  integer,
+  jsonb,
+  pgTable,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+import { TB_states } from "./state.schema";
+import { type BoundaryGeometry } from "../../utils/geo.util";
+
+// The bounding box is derived from the geometry on write so containment
+// lookups can discard most boundaries with a range check
+const boundaryColumns = () => ({
+  geometry: jsonb("geometry").$type<BoundaryGeometry>().notNull(),
+  minLatitude: doublePrecision("min_latitude").notNull(),
+  maxLatitude: doublePrecision("max_latitude").notNull(),
+  minLongitude: doublePrecision("min_longitude").notNull(),
+  maxLongitude: doublePrecision("max_longitude").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const TB_countryBoundaries = pgTable("country_boundaries", {
+  countryId: integer("country_id")
+    .primaryKey()
+    .references(() => TB_countries.id, { onDelete: "cascade" }),
+  ...boundaryColumns(),
+});
+
+export const TB_stateBoundaries = pgTable("state_boundaries", {
+  stateId: integer("state_id")
+    .primaryKey()
+    .references(() => TB_states.id, { onDelete: "cascade" }),
+  ...boundaryColumns(),
+});
+
+export type CountryBoundary = typeof TB_countryBoundaries.$inferSelect;
+export type NewCountryBoundary = typeof TB_countryBoundaries.$inferInsert;
+export type StateBoundary = typeof TB_stateBoundaries.$inferSelect;
+export type NewStateBoundary = typeof TB_stateBoundaries.$inferInsert;
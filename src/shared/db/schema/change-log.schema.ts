@@ -0,0 +1,46 @@
+import { sql } from "drizzle-orm";
+import {
+  bigint,
+  bigserial,
+  index,
+  integer,
+  pgTable,
+  primaryKey,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+export const CHANGE_ENTITIES = ["country", "state", "city"] as const;
+export const CHANGE_ACTIONS = ["upsert", "delete"] as const;
+
+export type ChangeEntity = (typeof CHANGE_ENTITIES)[number];
+export type ChangeAction = (typeof CHANGE_ACTIONS)[number];
+
+/**
+ * The latest change of every record, filled by database triggers (see
+ * `ensureChangeLog`) and never by the services. A new change replaces the
+ * record's row, so the log stays as large as the dataset.
+ */
+export const TB_changeLog = pgTable(
+  "change_log",
+  {
+    entity: varchar("entity", { length: 20, enum: CHANGE_ENTITIES }).notNull(),
+    entityId: integer("entity_id").notNull(),
+    // Writing transaction, the feed only serves it once every older one ended
+    xid: bigint("xid", { mode: "number" })
+      .default(sql`pg_current_xact_id()::text::bigint`)
+      .notNull(),
+    // Orders the changes of one transaction
+    seq: bigserial("seq", { mode: "number" }).notNull(),
+    // Soft deletes and purges are both recorded as "delete" tombstones
+    action: varchar("action", { length: 10, enum: CHANGE_ACTIONS }).notNull(),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.entity, table.entityId] }),
+    positionIdx: index("change_log_position_idx").on(table.xid, table.seq),
+    changedAtIdx: index("change_log_changed_at_idx").on(table.changedAt),
+  }),
+);
+
+export type ChangeLogEntry = typeof TB_changeLog.$inferSelect;
@@ -0,0 +1,39 @@
+import {
+  integer,
+  pgTable,
+  serial,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { TB_cities } from "./city.schema";
+
+export const CITY_ALIAS_TYPES = [
+  "historical",
+  "abbreviation",
+  "colloquial",
+] as const;
+
+export const TB_cityAliases = pgTable(
+  "city_aliases",
+  {
+    id: serial("id").primaryKey(),
+    cityId: integer("city_id")
+      .references(() => TB_cities.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: varchar("type", { length: 20, enum: CITY_ALIAS_TYPES }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    cityNameIdx: uniqueIndex("city_aliases_city_id_name_idx").on(
+      table.cityId,
+      table.name,
+    ),
+  }),
+);
+
+export type CityAliasType = (typeof CITY_ALIAS_TYPES)[number];
+export type CityAlias = typeof TB_cityAliases.$inferSelect;
+export type NewCityAlias = typeof TB_cityAliases.$inferInsert;
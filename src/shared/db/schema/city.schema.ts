@@ -1,4 +1,6 @@
 import {
+  doublePrecision,
+  index,
   integer,
   pgTable,
   serial,
@@ -7,15 +9,29 @@ import {
 } from "drizzle-orm/pg-core";
 import { TB_states } from "./state.schema";
 
-export const TB_cities = pgTable("cities", {
-  id: serial("id").primaryKey(),
-  name: varchar("name", { length: 255 }).notNull(),
-  stateId: integer("state_id")
-    .references(() => TB_states.id)
-    .notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const TB_cities = pgTable(
+  "cities",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    stateId: integer("state_id")
+      .references(() => TB_states.id)
+      .notNull(),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+    version: integer("version").default(1).notNull(),
+  },
+  (table) => ({
+    // Serves the bounding-box prefilter of nearby lookups
+    coordinatesIdx: index("cities_coordinates_idx").on(
+      table.latitude,
+      table.longitude,
+    ),
+  }),
+);
 
 export type City = typeof TB_cities.$inferSelect;
 export type NewCity = typeof TB_cities.$inferInsert;
@@ -0,0 +1,33 @@
+import {
+  doublePrecision,
+  integer,
+  pgTable,
+  primaryKey,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+
+/**
+ * Land borders, stored once in each direction so the neighbors of a country
+ * are a single indexed lookup.
+ */
+export const TB_countryBorders = pgTable(
+  "country_borders",
+  {
+    countryId: integer("country_id")
+      .references(() => TB_countries.id, { onDelete: "cascade" })
+      .notNull(),
+    neighborId: integer("neighbor_id")
+      .references(() => TB_countries.id, { onDelete: "cascade" })
+      .notNull(),
+    lengthKm: doublePrecision("length_km"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.countryId, table.neighborId] }),
+  }),
+);
+
+export type CountryBorder = typeof TB_countryBorders.$inferSelect;
+export type NewCountryBorder = typeof TB_countryBorders.$inferInsert;
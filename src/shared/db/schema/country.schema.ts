@@ -1,13 +1,38 @@
-import { pgTable, serial, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { doublePrecision, integer, pgTable, serial, text, timestamp, uniqueIndex, varchar } from 'drizzle-orm/pg-core';
 
 export const TB_countries = pgTable('countries', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull(),
     code: varchar('code', { length: 10 }).notNull(),
     phoneCode: varchar('phone_code', { length: 10 }),
+    // ISO 3166-1 codes; `code` stays free-form for existing clients
+    iso2: varchar('iso2', { length: 2 }),
+    iso3: varchar('iso3', { length: 3 }),
+    isoNumeric: varchar('iso_numeric', { length: 3 }),
+    capital: varchar('capital', { length: 255 }),
+    currencyCode: varchar('currency_code', { length: 3 }),
+    continent: varchar('continent', { length: 20 }),
+    region: varchar('region', { length: 100 }),
+    // IANA time zone names
+    timezones: text('timezones').array(),
+    // Full-match pattern for the country's postal codes, e.g. `\d{5}`
+    postalCodeRegex: text('postal_code_regex'),
+    // Template with `{line1}`, `{city}`, `{postalCode}`... placeholders
+    addressFormat: text('address_format'),
+    // Centroid, used as a map anchor
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+    deletedAt: timestamp('deleted_at'),
+    version: integer('version').default(1).notNull(),
+}, (table) => ({
+    // A deleted country keeps its ISO codes, so only live ones must be unique
+    iso2Idx: uniqueIndex('countries_iso2_idx').on(table.iso2).where(sql`deleted_at is null`),
+    iso3Idx: uniqueIndex('countries_iso3_idx').on(table.iso3).where(sql`deleted_at is null`),
+    isoNumericIdx: uniqueIndex('countries_iso_numeric_idx').on(table.isoNumeric).where(sql`deleted_at is null`),
+}));
 
 export type Country = typeof TB_countries.$inferSelect;
 export type NewCountry = typeof TB_countries.$inferInsert;
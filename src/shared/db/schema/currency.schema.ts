@@ -0,0 +1,50 @@
+import {
+  date,
+  integer,
+  numeric,
+  pgTable,
+  serial,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+export const TB_currencies = pgTable("currencies", {
+  // ISO 4217 alphabetic code; countries link to it through `currency_code`
+  code: varchar("code", { length: 3 }).primaryKey(),
+  name: varchar("name", { length: 100 }),
+  symbol: varchar("symbol", { length: 10 }),
+  // Digits after the decimal point, used to round converted amounts
+  minorUnits: integer("minor_units").default(2).notNull(),
+});
+
+export const TB_exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    id: serial("id").primaryKey(),
+    // One unit of `baseCode` buys `rate` units of `quoteCode`
+    baseCode: varchar("base_code", { length: 3 })
+      .references(() => TB_currencies.code)
+      .notNull(),
+    quoteCode: varchar("quote_code", { length: 3 })
+      .references(() => TB_currencies.code)
+      .notNull(),
+    rate: numeric("rate", { precision: 24, scale: 12 }).notNull(),
+    // A rate applies from this day until the next one for the same pair
+    effectiveDate: date("effective_date").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pairDateIdx: uniqueIndex("exchange_rates_pair_date_idx").on(
+      table.baseCode,
+      table.quoteCode,
+      table.effectiveDate,
+    ),
+  }),
+);
+
+export type Currency = typeof TB_currencies.$inferSelect;
+export type NewCurrency = typeof TB_currencies.$inferInsert;
+export type ExchangeRate = typeof TB_exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof TB_exchangeRates.$inferInsert;
@@ -1,3 +1,13 @@
 export * from "./country.schema";
 export * from "./state.schema";
 export * from "./city.schema";
+export * from "./audit-log.schema";
+export * from "./boundary.schema";
+export * from "./language.schema";
+export * from "./translation.schema";
+export * from "./city-alias.schema";
+export * from "./postal-code.schema";
+export * from "./admin-division.schema";
+export * from "./country-border.schema";
+export * from "./currency.schema";
+export * from "./change-log.schema";
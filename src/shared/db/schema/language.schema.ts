@@ -0,0 +1,27 @@
+import { integer, pgTable, primaryKey, varchar } from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+
+export const TB_languages = pgTable("languages", {
+  // ISO 639-1 where one exists, otherwise ISO 639-3
+  code: varchar("code", { length: 3 }).primaryKey(),
+  name: varchar("name", { length: 100 }),
+});
+
+export const TB_countryLanguages = pgTable(
+  "country_languages",
+  {
+    countryId: integer("country_id")
+      .references(() => TB_countries.id, { onDelete: "cascade" })
+      .notNull(),
+    languageCode: varchar("language_code", { length: 3 })
+      .references(() => TB_languages.code)
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.countryId, table.languageCode] }),
+  }),
+);
+
+export type Language = typeof TB_languages.$inferSelect;
+export type NewLanguage = typeof TB_languages.$inferInsert;
+export type CountryLanguage = typeof TB_countryLanguages.$inferSelect;
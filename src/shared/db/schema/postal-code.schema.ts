@@ -0,0 +1,44 @@
+import {
+  doublePrecision,
+  index,
+  integer,
+  pgTable,
+  serial,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+import { TB_cities } from "./city.schema";
+
+export const TB_postalCodes = pgTable(
+  "postal_codes",
+  {
+    id: serial("id").primaryKey(),
+    countryId: integer("country_id")
+      .references(() => TB_countries.id, { onDelete: "cascade" })
+      .notNull(),
+    // Normalized with `normalizePostalCode`
+    code: varchar("code", { length: 20 }).notNull(),
+    // Place name from the source data; kept when no city could be matched
+    placeName: varchar("place_name", { length: 255 }).notNull(),
+    cityId: integer("city_id").references(() => TB_cities.id, {
+      onDelete: "set null",
+    }),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    countryCodePlaceIdx: uniqueIndex("postal_codes_country_code_place_idx").on(
+      table.countryId,
+      table.code,
+      table.placeName,
+    ),
+    cityIdx: index("postal_codes_city_id_idx").on(table.cityId),
+  }),
+);
+
+export type PostalCode = typeof TB_postalCodes.$inferSelect;
+export type NewPostalCode = typeof TB_postalCodes.$inferInsert;
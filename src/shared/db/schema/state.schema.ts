@@ -1,12 +1,17 @@
-import { integer, pgTable, serial, timestamp, varchar } from 'drizzle-orm/pg-core';
+import { doublePrecision, integer, pgTable, serial, timestamp, varchar } from 'drizzle-orm/pg-core';
 import { TB_countries } from './country.schema';
 
 export const TB_states = pgTable('states', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull(),
     countryId: integer('country_id').references(() => TB_countries.id).notNull(),
+    // Centroid, used as a map anchor
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at'),
+    version: integer('version').default(1).notNull(),
 });
 
 export type State = typeof TB_states.$inferSelect;
@@ -0,0 +1,56 @@
+import {
+  integer,
+  pgTable,
+  primaryKey,
+  timestamp,
+  varchar,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { TB_countries } from "./country.schema";
+import { TB_states } from "./state.schema";
+import { TB_cities } from "./city.schema";
+
+// One table per entity so translations go away with a purged row
+const translationTable = <TName extends string>(
+  name: TName,
+  entityColumn: string,
+  parent: () => AnyPgColumn,
+) =>
+  pgTable(
+    name,
+    {
+      entityId: integer(entityColumn)
+        .references(parent, { onDelete: "cascade" })
+        .notNull(),
+      // Canonical BCP 47 tag, e.g. "pt-BR"
+      locale: varchar("locale", { length: 35 }).notNull(),
+      name: varchar("name", { length: 255 }).notNull(),
+      createdAt: timestamp("created_at").defaultNow().notNull(),
+      updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => ({
+      pk: primaryKey({ columns: [table.entityId, table.locale] }),
+    }),
+  );
+
+export const TB_countryTranslations = translationTable(
+  "country_translations",
+  "country_id",
+  () => TB_countries.id,
+);
+
+export const TB_stateTranslations = translationTable(
+  "state_translations",
+  "state_id",
+  () => TB_states.id,
+);
+
+export const TB_cityTranslations = translationTable(
+  "city_translations",
+  "city_id",
+  () => TB_cities.id,
+);
+
+export type TranslationTable = ReturnType<typeof translationTable<string>>;
+export type Translation = typeof TB_countryTranslations.$inferSelect;
+export type NewTranslation = typeof TB_countryTranslations.$inferInsert;
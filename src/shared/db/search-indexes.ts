@@ -0,0 +1,33 @@
+import { sql } from "drizzle-orm";
+import { db } from ".";
+import { logger } from "../logger";
+
+// Drizzle cannot declare operator-class indexes, so they are kept here
+const STATEMENTS = [
+  sql`create extension if not exists pg_trgm`,
+  sql`create index if not exists countries_name_trgm_idx on countries using gin (name gin_trgm_ops)`,
+  sql`create index if not exists states_name_trgm_idx on states using gin (name gin_trgm_ops)`,
+  sql`create index if not exists cities_name_trgm_idx on cities using gin (name gin_trgm_ops)`,
+  sql`create index if not exists country_translations_name_trgm_idx on country_translations using gin (name gin_trgm_ops)`,
+  sql`create index if not exists state_translations_name_trgm_idx on state_translations using gin (name gin_trgm_ops)`,
+  sql`create index if not exists city_translations_name_trgm_idx on city_translations using gin (name gin_trgm_ops)`,
+  sql`create index if not exists city_aliases_name_trgm_idx on city_aliases using gin (name gin_trgm_ops)`,
+  // Serves `lower(name) like 'prefix%'` for city autocomplete
+  sql`create index if not exists cities_name_prefix_idx on cities (lower(name) text_pattern_ops)`,
+  sql`create index if not exists city_aliases_name_prefix_idx on city_aliases (lower(name) text_pattern_ops)`,
+];
+
+/**
+ * Creates the extensions and indexes search relies on. Every statement is
+ * idempotent; failures are logged rather than fatal so a database user
+ * without DDL rights can still serve (slower) searches.
+ */
+export const ensureSearchIndexes = async () => {
+  for (const statement of STATEMENTS) {
+    try {
+      await db.execute(statement);
+    } catch (error) {
+      logger.warn("Failed to create search index", { error });
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import { pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+import { streamRows } from "./stream-rows";
+import { db } from ".";
+
+vi.mock(".", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  return { db: drizzle(new PGlite()) };
+});
+
+const TB_items = pgTable("items", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+const config = {
+  columns: {
+    id: TB_items.id,
+    name: TB_items.name,
+    createdAt: TB_items.createdAt,
+  },
+  filterable: [],
+  sortable: ["createdAt"],
+  defaultSort: { field: "id", direction: "asc" as const },
+};
+
+const collect = async (rows: AsyncGenerator<Record<string, unknown>>) => {
+  const seen: unknown[] = [];
+  for await (const row of rows) {
+    seen.push(row.id);
+    // A cursor that never advances would otherwise spin forever
+    if (seen.length > 20) break;
+  }
+  return seen;
+};
+
+describe("streamRows", () => {
+  beforeAll(async () => {
+    await db.execute(
+      sql`create table items (id serial primary key, name varchar(255) not null, created_at timestamp not null)`,
+    );
+    // Same transaction `now()`, stored to the microsecond
+    await db.execute(
+      sql`insert into items (name, created_at)
+          select 'item ' || n, '2024-05-01 12:00:00.123456'
+          from generate_series(1, 5) as n`,
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.execute(sql`drop table items`);
+  });
+
+  it.each(["Asc", "Desc"] as const)(
+    "walks rows sharing a timestamp exactly once (%s)",
+    async (direction) => {
+      const { rows } = streamRows({
+        table: TB_items,
+        idColumn: TB_items.id,
+        config,
+        options: { sort: { [direction]: "createdAt" } },
+        batchSize: 2,
+      });
+
+      expect(await collect(rows)).toEqual([1, 2, 3, 4, 5]);
+    },
+  );
+});
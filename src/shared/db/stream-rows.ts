@@ -0,0 +1,82 @@
+import { and, type SQL } from "drizzle-orm";
+import { type AnyPgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { db } from ".";
+import {
+  type ListQueryConfig,
+  type ListQueryOptions,
+  buildListQuery,
+} from "./list-query";
+import { keysetCondition, keysetOrderBy, withIdTiebreaker } from "./paginate";
+
+const BATCH_SIZE = 1000;
+
+export interface RowStream {
+  columns: string[];
+  rows: AsyncGenerator<Record<string, unknown>>;
+}
+
+/**
+ * Walks every row matching the list filters in keyset-ordered batches, so an
+ * export only ever holds one batch in memory. Filters are validated eagerly so
+ * bad input fails before anything is written to the response.
+ */
+export const streamRows = ({
+  table,
+  idColumn,
+  config,
+  options = {},
+  where,
+  batchSize = BATCH_SIZE,
+}: {
+  table: PgTable;
+  idColumn: AnyPgColumn;
+  config: ListQueryConfig;
+  options?: ListQueryOptions;
+  where?: SQL;
+  batchSize?: number;
+}): RowStream => {
+  const listQuery = buildListQuery(config, options);
+  const sorts = withIdTiebreaker(listQuery.sorts, idColumn);
+  const columns = options.fields?.length
+    ? options.fields
+    : Object.keys(config.columns);
+
+  const selection = {
+    ...Object.fromEntries(
+      columns.map((field) => [field, config.columns[field]]),
+    ),
+    ...Object.fromEntries(sorts.map(({ field, column }) => [field, column])),
+  };
+  const orderBy = keysetOrderBy(sorts);
+
+  async function* rows() {
+    let last: unknown[] | undefined;
+
+    while (true) {
+      const batch: Record<string, unknown>[] = await db
+        .select(selection)
+        .from(table)
+        .where(
+          and(
+            where,
+            listQuery.where,
+            last ? keysetCondition(sorts, last, "next") : undefined,
+          ),
+        )
+        .orderBy(...orderBy)
+        .limit(batchSize);
+
+      for (const row of batch) {
+        yield Object.fromEntries(columns.map((field) => [field, row[field]]));
+      }
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      const tail = batch[batch.length - 1];
+      last = sorts.map(({ field }) => tail[field]);
+    }
+  }
+
+  return { columns, rows: rows() };
+};
@@ -49,6 +49,59 @@ export const OrderCreatedEventSchema = BaseEventSchema.extend({
     }),
 });
 
+// Geography Events
+// Records as stored, `before` is null on create and `after` is null on purge
+export const GeoChangePayloadSchema = z.object({
+    id: z.number().int(),
+    before: z.record(z.unknown()).nullable(),
+    after: z.record(z.unknown()).nullable(),
+});
+
+export const CountryCreatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("country.created"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const CountryUpdatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("country.updated"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const CountryDeletedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("country.deleted"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const StateCreatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("state.created"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const StateUpdatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("state.updated"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const StateDeletedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("state.deleted"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const CityCreatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("city.created"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const CityUpdatedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("city.updated"),
+    payload: GeoChangePayloadSchema,
+});
+
+export const CityDeletedEventSchema = BaseEventSchema.extend({
+    eventType: z.literal("city.deleted"),
+    payload: GeoChangePayloadSchema,
+});
+
 // DLQ Events
 export const DLQMessageEventSchema = BaseEventSchema.extend({
     eventType: z.literal("dlq.message"),
@@ -68,6 +121,15 @@ export const EventSchema = z.discriminatedUnion("eventType", [
     UserUpdatedEventSchema,
     UserDeletedEventSchema,
     OrderCreatedEventSchema,
+    CountryCreatedEventSchema,
+    CountryUpdatedEventSchema,
+    CountryDeletedEventSchema,
+    StateCreatedEventSchema,
+    StateUpdatedEventSchema,
+    StateDeletedEventSchema,
+    CityCreatedEventSchema,
+    CityUpdatedEventSchema,
+    CityDeletedEventSchema,
     DLQMessageEventSchema,
 ]);
 
@@ -77,6 +139,26 @@ export type UserCreatedEvent = z.infer<typeof UserCreatedEventSchema>;
 export type UserUpdatedEvent = z.infer<typeof UserUpdatedEventSchema>;
 export type UserDeletedEvent = z.infer<typeof UserDeletedEventSchema>;
 export type OrderCreatedEvent = z.infer<typeof OrderCreatedEventSchema>;
+export type GeoChangePayload = z.infer<typeof GeoChangePayloadSchema>;
+export type CountryCreatedEvent = z.infer<typeof CountryCreatedEventSchema>;
+export type CountryUpdatedEvent = z.infer<typeof CountryUpdatedEventSchema>;
+export type CountryDeletedEvent = z.infer<typeof CountryDeletedEventSchema>;
+export type StateCreatedEvent = z.infer<typeof StateCreatedEventSchema>;
+export type StateUpdatedEvent = z.infer<typeof StateUpdatedEventSchema>;
+export type StateDeletedEvent = z.infer<typeof StateDeletedEventSchema>;
+export type CityCreatedEvent = z.infer<typeof CityCreatedEventSchema>;
+export type CityUpdatedEvent = z.infer<typeof CityUpdatedEventSchema>;
+export type CityDeletedEvent = z.infer<typeof CityDeletedEventSchema>;
+export type GeoEvent =
+    | CountryCreatedEvent
+    | CountryUpdatedEvent
+    | CountryDeletedEvent
+    | StateCreatedEvent
+    | StateUpdatedEvent
+    | StateDeletedEvent
+    | CityCreatedEvent
+    | CityUpdatedEvent
+    | CityDeletedEvent;
 export type DLQMessageEvent = z.infer<typeof DLQMessageEventSchema>;
 export type KafkaEvent = z.infer<typeof EventSchema>;
 
@@ -85,6 +167,7 @@ export const KAFKA_TOPICS = {
     USER_EVENTS: "user.events",
     ORDER_EVENTS: "order.events",
     NOTIFICATION_EVENTS: "notification.events",
+    GEO_EVENTS: "geo.events",
     DLQ: "dead-letter-queue",
 } as const;
 
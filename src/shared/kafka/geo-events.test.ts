@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { childGeoChanges } from "./geo-events";
+
+describe("childGeoChanges", () => {
+  it("pairs each child with its snapshot after the change", () => {
+    const before = [
+      { id: 1, stateId: 7 },
+      { id: 2, stateId: 7 },
+    ];
+    const after = [
+      { id: 2, stateId: 9 },
+      { id: 1, stateId: 9 },
+    ];
+
+    expect(childGeoChanges("city", "updated", before, after)).toEqual([
+      {
+        entity: "city",
+        action: "updated",
+        id: 1,
+        before: before[0],
+        after: after[1],
+      },
+      {
+        entity: "city",
+        action: "updated",
+        id: 2,
+        before: before[1],
+        after: after[0],
+      },
+    ]);
+  });
+
+  it("leaves purged children without an after snapshot", () => {
+    expect(childGeoChanges("state", "deleted", [{ id: 3 }], [])).toEqual([
+      {
+        entity: "state",
+        action: "deleted",
+        id: 3,
+        before: { id: 3 },
+        after: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { kafkaProducer } from "./kafka-producer.service";
+import { KAFKA_TOPICS, type GeoEvent } from "./event-types";
+import { APP_SETTINGS } from "../app-settings";
+import { logger } from "../logger";
+import { getRequestContext } from "../middlewares/request-context.middleware";
+
+export type GeoEventEntity = "country" | "state" | "city";
+export type GeoEventAction = "created" | "updated" | "deleted";
+
+export interface GeoChange {
+  entity: GeoEventEntity;
+  action: GeoEventAction;
+  id: number;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Round-trips through JSON so dates go out the way the API serves them
+const toJson = (record?: object | null): Record<string, unknown> | null =>
+  record ? JSON.parse(JSON.stringify(record)) : null;
+
+const toEvent = ({ entity, action, id, before, after }: GeoChange) => {
+  const context = getRequestContext();
+  const actorId = context?.user?.id ?? context?.user?.sub;
+  return {
+    eventType: `${entity}.${action}` as GeoEvent["eventType"],
+    version: "1.0",
+    metadata: {
+      requestId: context?.requestId,
+      actorId: actorId === undefined ? undefined : String(actorId),
+    },
+    payload: { id, before: toJson(before), after: toJson(after) },
+  };
+};
+
+// Keyed by record, so the events of one record stay on one partition in order
+const eventKey = ({
+  eventType,
+  payload,
+}: {
+  eventType: string;
+  payload: { id: number };
+}) => `${eventType.split(".")[0]}:${payload.id}`;
+
+// Largest batch the producer accepts
+const BATCH_SIZE = 1000;
+
+/**
+ * Publishes geography changes to `geo.events`. Call it once the transaction
+ * has committed; it returns right away and a failed publish is only logged,
+ * since the change itself has already been saved. Nothing is sent while
+ * Kafka is disabled.
+ */
+export const publishGeoEvents = (changes: GeoChange[]): void => {
+  if (!APP_SETTINGS.KAFKA.ENABLED) {
+    return;
+  }
+
+  for (let start = 0; start < changes.length; start += BATCH_SIZE) {
+    const events = changes.slice(start, start + BATCH_SIZE).map(toEvent);
+    const publish =
+      events.length === 1
+        ? kafkaProducer.publishEvent<GeoEvent>(
+            KAFKA_TOPICS.GEO_EVENTS,
+            events[0],
+            { key: eventKey(events[0]) },
+          )
+        : kafkaProducer.publishBatch<GeoEvent>(
+            KAFKA_TOPICS.GEO_EVENTS,
+            events,
+            {
+              keyExtractor: eventKey,
+            },
+          );
+
+    publish.catch((error) => {
+      logger.warn("Failed to publish geography events", {
+        count: events.length,
+        error,
+      });
+    });
+  }
+};
+
+export const publishGeoEvent = (change: GeoChange): void =>
+  publishGeoEvents([change]);
+
+/**
+ * Changes for the child rows a delete policy touched, pairing each row by id
+ * with its snapshot after the change. Rows missing from `after` were purged.
+ */
+export const childGeoChanges = (
+  entity: GeoEventEntity,
+  action: GeoEventAction,
+  before: { id: number }[],
+  after: { id: number }[],
+): GeoChange[] => {
+  const changed = new Map(after.map((row) => [row.id, row]));
+  return before.map((row) => ({
+    entity,
+    action,
+    id: row.id,
+    before: row,
+    after: changed.get(row.id) ?? null,
+  }));
+};
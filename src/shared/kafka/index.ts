@@ -12,3 +12,6 @@ export * from "./kafka-init";
 
 // Export event types
 export * from "./event-types";
+
+// Export geography event publishing
+export * from "./geo-events";
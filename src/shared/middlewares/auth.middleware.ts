@@ -1,6 +1,36 @@
 import { Request, Response, NextFunction } from "express";
-import jsonwebtoken from "jsonwebtoken";
-import { UnauthorizedError } from "../utils/http-errors.util";
+import jsonwebtoken, { type JwtPayload } from "jsonwebtoken";
+import { ForbiddenError, UnauthorizedError } from "../utils/http-errors.util";
+
+export type AuthUser = JwtPayload & {
+  id?: number | string;
+  role?: string;
+  roles?: string[];
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const verifyRequest = (req: Request): AuthUser => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    throw new UnauthorizedError("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const secret = process.env.JWT_SECRET || "secret";
+
+  const decoded = jsonwebtoken.verify(token, secret);
+  return typeof decoded === "string" ? { sub: decoded } : decoded;
+};
+
+const hasRole = (user: AuthUser, roles: string[]) =>
+  roles.some((role) => user.role === role || user.roles?.includes(role));
 
 export const authMiddleware = (
   req: Request,
@@ -8,20 +38,59 @@ export const authMiddleware = (
   next: NextFunction,
 ) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      throw new UnauthorizedError("Unauthorized");
-    }
-
-    const token = authHeader.split(" ")[1];
-    const secret = process.env.JWT_SECRET || "secret";
-
-    const decoded = jsonwebtoken.verify(token, secret);
-    // @ts-ignore
-    req.user = decoded;
+    req.user = verifyRequest(req);
 
     next();
   } catch (error) {
     next(new UnauthorizedError("Unauthorized"));
   }
 };
+
+// Decodes the token when one is sent, for routes that also serve anonymous callers
+export const optionalAuthMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (req.headers.authorization) {
+    try {
+      req.user = verifyRequest(req);
+    } catch (error) {
+      return next(new UnauthorizedError("Unauthorized"));
+    }
+  }
+
+  next();
+};
+
+/**
+ * Only lets the request through when the caller holds one of the roles.
+ * Routers without `authMiddleware` still get the token verified here.
+ */
+export const requireRole = (...roles: string[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.user ??= verifyRequest(req);
+    } catch (error) {
+      return next(new UnauthorizedError("Unauthorized"));
+    }
+
+    if (!hasRole(req.user, roles)) {
+      return next(
+        new ForbiddenError(`Requires one of the roles: ${roles.join(", ")}`),
+      );
+    }
+
+    next();
+  };
+};
+
+// Applies `requireRole` only when the request asks for something privileged
+export const requireRoleIf = (
+  predicate: (req: Request) => boolean,
+  ...roles: string[]
+) => {
+  const guard = requireRole(...roles);
+  return (req: Request, res: Response, next: NextFunction) =>
+    predicate(req) ? guard(req, res, next) : next();
+};
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { type AuthUser } from "./auth.middleware";
+import { parseAcceptLanguage } from "../utils/locale.util";
+
+export interface RequestContext {
+  requestId: string;
+  // Accept-Language preferences with fallbacks, best first
+  locales: string[];
+  // Populated once auth has run, so it is read through the request
+  readonly user?: AuthUser;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Tags every request with an id (reusing an incoming `X-Request-Id`) and
+ * makes it, along with the authenticated user and preferred locales,
+ * available to services without threading `req` through every call.
+ */
+export const requestContextMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const incoming = req.get("x-request-id");
+  const requestId =
+    incoming && incoming.length <= 100 ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  // Names in the response depend on the requested language
+  res.vary("Accept-Language");
+
+  storage.run(
+    {
+      requestId,
+      locales: parseAcceptLanguage(req.get("accept-language")),
+      get user() {
+        return req.user;
+      },
+    },
+    next,
+  );
+};
+
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
@@ -0,0 +1,17 @@
+import { requireRole, requireRoleIf } from "./auth.middleware";
+
+// Deleted rows are only visible to auditors and admins
+export const guardIncludeDeleted = requireRoleIf(
+  (req) => req.query.includeDeleted === "true",
+  "admin",
+  "auditor",
+);
+
+// Purging skips the soft delete and cannot be undone
+export const guardHardDelete = requireRoleIf(
+  (req) => req.query.hard === "true",
+  "admin",
+);
+
+// Restoring brings back data someone chose to delete
+export const guardRestore = requireRole("admin");
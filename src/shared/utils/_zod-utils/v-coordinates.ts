@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// CSV imports hand every cell over as a string
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+export const v_latitude = z.preprocess(
+  toNumber,
+  z
+    .number({ invalid_type_error: "Latitude must be a number" })
+    .min(-90, "Latitude must be between -90 and 90")
+    .max(90, "Latitude must be between -90 and 90"),
+);
+
+export const v_longitude = z.preprocess(
+  toNumber,
+  z
+    .number({ invalid_type_error: "Longitude must be a number" })
+    .min(-180, "Longitude must be between -180 and 180")
+    .max(180, "Longitude must be between -180 and 180"),
+);
+
+export const v_coordinates = z.object({
+  latitude: v_latitude.optional(),
+  longitude: v_longitude.optional(),
+});
+
+// A lone latitude or longitude cannot be placed on a map
+export const hasCoordinatePair = (value: {
+  latitude?: number | null;
+  longitude?: number | null;
+}) => (value.latitude == null) === (value.longitude == null);
+
+export const coordinatePairIssue = {
+  message: "Latitude and longitude must be provided together",
+  path: ["longitude"],
+};
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { v_hard_delete } from "./v-soft-delete";
+
+export const v_delete_options = v_hard_delete
+  .extend({
+    policy: z.enum(["restrict", "cascade", "reassign"]).default("restrict"),
+    reassignTo: z.coerce.number().int().positive().optional(),
+  })
+  .refine((data) => data.policy !== "reassign" || data.reassignTo, {
+    message: "reassignTo is required when policy is reassign",
+    path: ["reassignTo"],
+  });
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const v_export_options = z.object({
+  format: z.enum(["csv", "ndjson", "geojson"]).optional(),
+});
+
+export type ExportOptions = z.infer<typeof v_export_options>;
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { v_latitude, v_longitude } from "./v-coordinates";
+
+const v_position = z.tuple([v_longitude, v_latitude]).rest(z.number());
+
+const v_linear_ring = z
+  .array(v_position)
+  .min(4, "A linear ring needs at least four positions")
+  .refine(
+    (ring) =>
+      ring[0][0] === ring[ring.length - 1][0] &&
+      ring[0][1] === ring[ring.length - 1][1],
+    "A linear ring must end at its first position",
+  );
+
+// The first ring is the exterior, any further rings are holes
+const v_polygon = z.array(v_linear_ring).min(1, "A polygon needs a ring");
+
+export const v_boundary_geometry = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("Polygon"),
+    coordinates: v_polygon,
+  }),
+  z.object({
+    type: z.literal("MultiPolygon"),
+    coordinates: z.array(v_polygon).min(1, "A multipolygon needs a polygon"),
+  }),
+]);
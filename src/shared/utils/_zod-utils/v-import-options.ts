@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const v_import_options = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  format: z.enum(["csv", "ndjson"]).optional(),
+});
+
+export type ImportOptions = z.infer<typeof v_import_options>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// CSV imports carry lists in a single cell, separated by commas, semicolons or spaces
+const splitList = (value: unknown) =>
+  typeof value === "string"
+    ? value.split(/[\s,;]+/).filter((item) => item !== "")
+    : value;
+
+export const v_iso_alpha2 = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{2}$/, "ISO alpha-2 code must be two letters");
+
+export const v_iso_alpha3 = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "ISO alpha-3 code must be three letters");
+
+// Numeric codes keep their leading zeros, so 4 becomes "004"
+export const v_iso_numeric = z.preprocess(
+  (value) =>
+    typeof value === "number" || typeof value === "string"
+      ? String(value).trim().padStart(3, "0")
+      : value,
+  z.string().regex(/^\d{3}$/, "ISO numeric code must be three digits"),
+);
+
+export const v_currency_code = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency code must be a three-letter ISO 4217 code");
+
+export const v_language_code = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z]{2,3}$/, "Language code must be an ISO 639 code");
+
+// Stored in canonical casing, as resolved by the runtime's time zone database
+export const v_timezone = z
+  .string()
+  .trim()
+  .transform((timeZone, ctx) => {
+    try {
+      return new Intl.DateTimeFormat("en", { timeZone }).resolvedOptions()
+        .timeZone;
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `'${timeZone}' is not an IANA time zone`,
+      });
+      return z.NEVER;
+    }
+  });
+
+export const v_language_codes = z.preprocess(
+  splitList,
+  z.array(v_language_code).transform((codes) => [...new Set(codes)]),
+);
+
+export const v_timezones = z.preprocess(
+  splitList,
+  z.array(v_timezone).transform((zones) => [...new Set(zones)]),
+);
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const v_pointer = z.string().regex(/^(\/.*)?$/, "Must be a JSON Pointer");
+
+// Any JSON value, including null, but the member itself is required
+const v_value = z.unknown().refine((value) => value !== undefined, {
+  message: "Required",
+});
+
+export const v_json_patch_operation = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: v_pointer, value: v_value }),
+  z.object({ op: z.literal("remove"), path: v_pointer }),
+  z.object({ op: z.literal("replace"), path: v_pointer, value: v_value }),
+  z.object({ op: z.literal("move"), from: v_pointer, path: v_pointer }),
+  z.object({ op: z.literal("copy"), from: v_pointer, path: v_pointer }),
+  z.object({ op: z.literal("test"), path: v_pointer, value: v_value }),
+]);
+
+export const v_json_patch = z.array(v_json_patch_operation);
+
+export type JsonPatchOperation = z.infer<typeof v_json_patch_operation>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { v_include_deleted } from "./v-soft-delete";
 
 export interface FilterData {
   type: "text" | "number" | "select" | "date";
@@ -13,15 +14,35 @@ export interface FilterData {
     | "not equal";
 }
 
+export const v_filter_data: z.ZodType<FilterData> = z.object({
+  type: z.enum(["text", "number", "select", "date"]),
+  value: z.union([z.number(), z.string()]),
+  field: z.string().min(1),
+  condition: z.enum([
+    "equals",
+    "greater than",
+    "less than",
+    "between",
+    "contains",
+    "not equal",
+  ]),
+});
+
 export const v_list_filters = z.object({
-  page: z.coerce.number().optional(),
-  limit: z.coerce.number().optional(),
-  fields: z.string().transform((str = ""): string[] => {
-    return str?.length ? str.split(",").filter((s) => !!s) : [];
-  }),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fields: z
+    .string()
+    .optional()
+    .transform((str = ""): string[] => {
+      return str?.length ? str.split(",").filter((s) => !!s) : [];
+    }),
   sort: z
     .string()
+    .optional()
     .transform((str, ctx): Partial<{ Asc: string; Desc: string }> => {
+      if (!str) return {};
       try {
         return JSON.parse(str);
       } catch (e) {
@@ -29,14 +50,19 @@ export const v_list_filters = z.object({
         return z.NEVER;
       }
     }),
-  filters: z.string().transform((str, ctx): Record<string, string> => {
-    try {
-      return JSON.parse(str);
-    } catch (e) {
+  filters: z
+    .string()
+    .optional()
+    .transform((str, ctx): FilterData[] => {
+      if (!str) return [];
+      try {
+        const parsed = z.array(v_filter_data).safeParse(JSON.parse(str));
+        if (parsed.success) return parsed.data;
+      } catch (e) {}
       ctx.addIssue({ code: "custom", message: "Invalid filters" });
       return z.NEVER;
-    }
-  }),
+    }),
+  includeDeleted: v_include_deleted.shape.includeDeleted,
 });
 
 export type ListFilters = z.infer<typeof v_list_filters>;
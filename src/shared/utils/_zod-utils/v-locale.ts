@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { canonicalLocale } from "../locale.util";
+
+// BCP 47 tag, stored in canonical casing ("pt-br" becomes "pt-BR")
+export const v_locale = z
+  .string()
+  .trim()
+  .max(35, "Locale must not exceed 35 characters")
+  .transform((tag, ctx) => {
+    const locale = canonicalLocale(tag);
+    if (!locale) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `'${tag}' is not a valid BCP 47 locale`,
+      });
+      return z.NEVER;
+    }
+    return locale;
+  });
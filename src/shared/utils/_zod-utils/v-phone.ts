@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { getDialCodes, parsePhoneNumber } from "../phone.util";
+
+const invalidPhoneNumber = "Phone number must be a valid international number";
+
+/**
+ * International phone number ("+44 20 7946 0958", "0044 ..."), checked
+ * against the calling codes of our countries and normalized to E.164.
+ */
+export const v_phone_number = z
+  .string()
+  .trim()
+  .max(50, "Phone number must not exceed 50 characters")
+  .transform((value, ctx) => {
+    const phone = parsePhoneNumber(value);
+    if (!phone.valid) {
+      ctx.addIssue({ code: "custom", message: invalidPhoneNumber });
+      return z.NEVER;
+    }
+    return phone.e164!;
+  });
+
+/**
+ * Object-level refinement for schemas holding a phone number next to a
+ * country code, so national numbers ("020 7946 0958") are accepted too.
+ * The country field takes the country's own code.
+ */
+export const refinePhoneNumber =
+  <T extends Record<string, unknown>>(
+    phoneField: keyof T,
+    countryField: keyof T,
+  ) =>
+  (value: T, ctx: z.RefinementCtx) => {
+    const phone = value[phoneField];
+    if (typeof phone !== "string") return;
+
+    const countryCode = value[countryField];
+    const country = getDialCodes().find(
+      (dialCode) =>
+        typeof countryCode === "string" &&
+        dialCode.country.toUpperCase() === countryCode.toUpperCase(),
+    );
+    if (!parsePhoneNumber(phone, { country }).valid) {
+      ctx.addIssue({
+        code: "custom",
+        message: invalidPhoneNumber,
+        path: [phoneField as string],
+      });
+    }
+  };
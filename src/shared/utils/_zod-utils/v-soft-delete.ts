@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const v_include_deleted = z.object({
+  includeDeleted: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const v_hard_delete = z.object({
+  hard: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
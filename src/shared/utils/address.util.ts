@@ -0,0 +1,109 @@
+export interface AddressParts {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export const ADDRESS_PLACEHOLDERS = [
+  "line1",
+  "line2",
+  "city",
+  "state",
+  "postalCode",
+  "country",
+  "countryCode",
+] as const;
+
+export type AddressPlaceholder = (typeof ADDRESS_PLACEHOLDERS)[number];
+
+// Used for countries without an `addressFormat` of their own
+export const DEFAULT_ADDRESS_FORMAT =
+  "{line1}\n{line2}\n{city}, {state} {postalCode}\n{country}";
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export const isValidAddressFormat = (template: string): boolean =>
+  [...template.matchAll(PLACEHOLDER)].every(([, name]) =>
+    (ADDRESS_PLACEHOLDERS as readonly string[]).includes(name),
+  );
+
+/**
+ * Fills a template such as "{postalCode} {city}". Separators left dangling by
+ * empty fields are trimmed and empty lines dropped.
+ */
+export const formatAddress = (
+  template: string,
+  values: Partial<Record<AddressPlaceholder, string | null>>,
+): string =>
+  template
+    .replace(
+      PLACEHOLDER,
+      (_, name: AddressPlaceholder) => values[name]?.trim() ?? "",
+    )
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/\s+/g, " ")
+        .replace(/\s+,/g, ",")
+        .replace(/^[\s,]+|[\s,]+$/g, ""),
+    )
+    .filter((line) => line !== "")
+    .join("\n");
+
+const hasDigit = (token: string) => /\d/.test(token);
+
+// Postal codes sit at either end of the state or city, "IL 62701", "75008 Paris"
+const splitPostalCode = (segment: string) => {
+  const tokens = segment.split(/\s+/);
+  let start = tokens.length;
+  while (start > 0 && hasDigit(tokens[start - 1])) start--;
+  if (start === tokens.length) {
+    let end = 0;
+    while (end < tokens.length && hasDigit(tokens[end])) end++;
+    return {
+      postalCode: tokens.slice(0, end).join(" "),
+      rest: tokens.slice(end).join(" "),
+    };
+  }
+  return {
+    postalCode: tokens.slice(start).join(" "),
+    rest: tokens.slice(0, start).join(" "),
+  };
+};
+
+/**
+ * Splits a free-form address on commas and line breaks, reading it right to
+ * left: country, state, city, then up to two street lines. A postal code is
+ * taken from the state or city segment.
+ */
+export const parseAddressText = (text: string): AddressParts => {
+  const segments = text
+    .split(/[\n,]/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment !== "");
+  const address: AddressParts = {};
+
+  if (segments.length > 1) address.country = segments.pop();
+
+  for (const field of ["state", "city"] as const) {
+    const segment = segments.pop();
+    if (!segment) break;
+
+    const { postalCode, rest } = address.postalCode
+      ? { postalCode: "", rest: segment }
+      : splitPostalCode(segment);
+    if (postalCode) address.postalCode = postalCode;
+    if (rest) address[field] = rest;
+  }
+
+  if (segments.length) {
+    address.line1 = segments.shift();
+  }
+  if (segments.length) {
+    address.line2 = segments.join(", ");
+  }
+  return address;
+};
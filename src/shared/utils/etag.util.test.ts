@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { type Request, type Response } from "express";
+import {
+  entityTag,
+  matchesEntityTag,
+  requireIfMatch,
+  setEntityTag,
+} from "./etag.util";
+import { PreconditionRequiredError } from "./http-errors.util";
+
+const entity = { version: 3 };
+
+describe("entityTag", () => {
+  it("quotes the version", () => {
+    expect(entityTag(entity)).toBe('"3"');
+  });
+
+  it("is set as the ETag header", () => {
+    const headers: Record<string, string> = {};
+    const res = {
+      setHeader: (name: string, value: string) => (headers[name] = value),
+    } as unknown as Response;
+
+    setEntityTag(res, entity);
+
+    expect(headers).toEqual({ ETag: '"3"' });
+  });
+});
+
+describe("matchesEntityTag", () => {
+  it.each(['"3"', ' "3" ', '"2", "3"', "*"])("matches %s", (ifMatch) => {
+    expect(matchesEntityTag(ifMatch, entity)).toBe(true);
+  });
+
+  it.each(['"2"', 'W/"3"', "3", ""])("rejects %s", (ifMatch) => {
+    expect(matchesEntityTag(ifMatch, entity)).toBe(false);
+  });
+});
+
+describe("requireIfMatch", () => {
+  const request = (ifMatch?: string) =>
+    ({ get: () => ifMatch }) as unknown as Request;
+
+  it("returns the header", () => {
+    expect(requireIfMatch(request('"3"'))).toBe('"3"');
+  });
+
+  it("demands the header", () => {
+    expect(() => requireIfMatch(request())).toThrow(PreconditionRequiredError);
+  });
+});
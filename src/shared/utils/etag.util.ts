@@ -0,0 +1,34 @@
+import { type Request, type Response } from "express";
+import { PreconditionRequiredError } from "./http-errors.util";
+
+export interface Versioned {
+  version: number;
+}
+
+export const entityTag = ({ version }: Versioned) => `"${version}"`;
+
+/**
+ * Tags a single-entity response with its version. Express compares it with
+ * `If-None-Match` when the body is sent and answers 304 on a match.
+ */
+export const setEntityTag = (res: Response, entity: Versioned) => {
+  res.setHeader("ETag", entityTag(entity));
+};
+
+export const requireIfMatch = (req: Request): string => {
+  const ifMatch = req.get("if-match");
+  if (!ifMatch) {
+    throw new PreconditionRequiredError(
+      "If-Match header with the current ETag is required",
+    );
+  }
+  return ifMatch;
+};
+
+// If-Match uses strong comparison, so weak tags never match
+export const matchesEntityTag = (ifMatch: string, entity: Versioned) =>
+  ifMatch.trim() === "*" ||
+  ifMatch
+    .split(",")
+    .map((tag) => tag.trim())
+    .includes(entityTag(entity));
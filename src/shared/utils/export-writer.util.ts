@@ -0,0 +1,135 @@
+import { type Request, type Response } from "express";
+import { once } from "events";
+import { BadRequestError } from "./http-errors.util";
+import { logger } from "../logger";
+
+export type ExportFormat = "csv" | "ndjson" | "geojson";
+
+export interface GeoJsonGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  geojson: "application/geo+json",
+};
+
+/**
+ * Picks the export format from the explicit `format` option, falling back to
+ * content negotiation on the Accept header. CSV wins when any type is
+ * accepted.
+ */
+export const resolveExportFormat = (
+  req: Request,
+  format?: ExportFormat,
+): ExportFormat => {
+  if (format) return format;
+
+  const accepted = req.accepts(Object.values(MIME_TYPES));
+  const resolved = (Object.keys(MIME_TYPES) as ExportFormat[]).find(
+    (key) => MIME_TYPES[key] === accepted,
+  );
+  if (!resolved) {
+    throw new BadRequestError(
+      "Unsupported export format, use csv, ndjson or geojson",
+    );
+  }
+  return resolved;
+};
+
+const serialize = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : value;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "object" && !(value instanceof Date)
+      ? JSON.stringify(value)
+      : String(serialize(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (values: unknown[]) => `${values.map(csvCell).join(",")}\n`;
+
+/**
+ * Streams rows to the response in the requested format, waiting for the
+ * socket to drain so slow clients never cause rows to pile up in memory.
+ */
+export const writeExport = async (
+  res: Response,
+  {
+    format,
+    filename,
+    columns,
+    rows,
+    geometry = () => null,
+  }: {
+    format: ExportFormat;
+    filename: string;
+    columns: string[];
+    rows: AsyncIterable<Record<string, unknown>>;
+    geometry?: (row: Record<string, unknown>) => GeoJsonGeometry | null;
+  },
+): Promise<void> => {
+  const iterator = rows[Symbol.asyncIterator]();
+
+  // Fetch the first batch before committing to a 200 so query errors still
+  // reach the error handler as a JSON response
+  let next = await iterator.next();
+
+  res.status(200);
+  res.setHeader("Content-Type", `${MIME_TYPES[format]}; charset=utf-8`);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename}.${format}"`,
+  );
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) {
+      await Promise.race([once(res, "drain"), once(res, "close")]);
+    }
+  };
+
+  try {
+    if (format === "csv") {
+      await write(csvLine(columns));
+    } else if (format === "geojson") {
+      await write('{"type":"FeatureCollection","features":[');
+    }
+
+    let first = true;
+    while (!next.done && !res.destroyed) {
+      const row = next.value;
+
+      if (format === "csv") {
+        await write(csvLine(columns.map((column) => row[column])));
+      } else if (format === "ndjson") {
+        await write(`${JSON.stringify(row)}\n`);
+      } else {
+        const feature = {
+          type: "Feature",
+          id: row.id,
+          geometry: geometry(row),
+          properties: row,
+        };
+        await write(`${first ? "" : ","}${JSON.stringify(feature)}`);
+      }
+
+      first = false;
+      next = await iterator.next();
+    }
+
+    if (format === "geojson") {
+      await write("]}");
+    }
+    res.end();
+  } catch (error) {
+    // Headers are already sent, so the only option left is to cut the stream
+    logger.error("Export stream failed", { filename, error });
+    res.destroy(error as Error);
+  } finally {
+    await iterator.return?.(undefined);
+  }
+};
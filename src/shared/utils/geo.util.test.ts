@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  boundingBox,
+  containsPoint,
+  geometryBoundingBox,
+  haversineKm,
+  type BoundaryGeometry,
+  type Position,
+} from "./geo.util";
+
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+describe("haversineKm", () => {
+  it("measures great-circle distances", () => {
+    expect(haversineKm(PARIS, LONDON)).toBeCloseTo(343.6, 0);
+    expect(haversineKm(LONDON, PARIS)).toBeCloseTo(343.6, 0);
+  });
+
+  it("is zero for the same point", () => {
+    expect(haversineKm(PARIS, PARIS)).toBe(0);
+  });
+
+  it("reaches half the circumference between antipodes", () => {
+    expect(
+      haversineKm(
+        { latitude: 0, longitude: 0 },
+        { latitude: 0, longitude: 180 },
+      ),
+    ).toBeCloseTo(Math.PI * 6371.0088, 6);
+  });
+});
+
+describe("boundingBox", () => {
+  it("reaches at least the radius in every direction", () => {
+    const box = boundingBox(PARIS, 100);
+    const edges = [
+      { latitude: box.maxLatitude, longitude: PARIS.longitude },
+      { latitude: box.minLatitude, longitude: PARIS.longitude },
+      { latitude: PARIS.latitude, longitude: box.maxLongitude },
+      { latitude: PARIS.latitude, longitude: box.minLongitude },
+    ];
+
+    for (const edge of edges) {
+      expect(haversineKm(PARIS, edge)).toBeGreaterThanOrEqual(100 - 1e-6);
+    }
+    // Degrees of longitude shrink away from the equator
+    expect(box.maxLongitude - box.minLongitude).toBeGreaterThan(
+      box.maxLatitude - box.minLatitude,
+    );
+  });
+
+  it("wraps around the antimeridian", () => {
+    const box = boundingBox({ latitude: -17.7, longitude: 179.9 }, 50);
+
+    expect(box.minLongitude).toBeGreaterThan(box.maxLongitude);
+    expect(box.minLongitude).toBeLessThan(179.9);
+    expect(box.maxLongitude).toBeGreaterThan(-180);
+    expect(box.maxLongitude).toBeLessThan(-179);
+  });
+
+  it("spans every longitude around a pole", () => {
+    expect(boundingBox({ latitude: 89.5, longitude: 10 }, 100)).toEqual({
+      minLatitude: expect.closeTo(88.6, 1),
+      maxLatitude: 90,
+      minLongitude: -180,
+      maxLongitude: 180,
+    });
+  });
+});
+
+const square = (west: number, south: number, size: number): Position[] => [
+  [west, south],
+  [west + size, south],
+  [west + size, south + size],
+  [west, south + size],
+  [west, south],
+];
+
+// A 10° square with a 2° hole in the middle, plus an island to the east
+const BOUNDARY: BoundaryGeometry = {
+  type: "MultiPolygon",
+  coordinates: [[square(0, 0, 10), square(4, 4, 2)], [square(20, 0, 1)]],
+};
+
+describe("containsPoint", () => {
+  it.each([
+    ["the mainland", 1, 1],
+    ["the island", 20.5, 0.5],
+  ])("finds points on %s", (_, longitude, latitude) => {
+    expect(containsPoint(BOUNDARY, { latitude, longitude })).toBe(true);
+  });
+
+  it.each([
+    ["the hole", 5, 5],
+    ["the sea", 15, 5],
+    ["the north", 5, 11],
+  ])("leaves out points in %s", (_, longitude, latitude) => {
+    expect(containsPoint(BOUNDARY, { latitude, longitude })).toBe(false);
+  });
+
+  it("reads a single Polygon", () => {
+    const polygon: BoundaryGeometry = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [0, 10],
+          [0, 0],
+        ],
+      ],
+    };
+
+    expect(containsPoint(polygon, { latitude: 2, longitude: 2 })).toBe(true);
+    expect(containsPoint(polygon, { latitude: 8, longitude: 8 })).toBe(false);
+  });
+});
+
+describe("geometryBoundingBox", () => {
+  it("spans the outer rings of every polygon", () => {
+    expect(geometryBoundingBox(BOUNDARY)).toEqual({
+      minLatitude: 0,
+      maxLatitude: 10,
+      minLongitude: 0,
+      maxLongitude: 21,
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { type GeoJsonGeometry } from "./export-writer.util";
+
+export const EARTH_RADIUS_KM = 6371.0088;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Latitude and longitude ranges enclosing a circle. `minLongitude` is greater
+ * than `maxLongitude` when the box wraps around the antimeridian.
+ */
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+// GeoJSON positions are [longitude, latitude], optionally followed by altitude
+export type Position = [number, number, ...number[]];
+export type PolygonCoordinates = Position[][];
+
+export type BoundaryGeometry =
+  | { type: "Polygon"; coordinates: PolygonCoordinates }
+  | { type: "MultiPolygon"; coordinates: PolygonCoordinates[] };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const haversineKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const boundingBox = (
+  { latitude, longitude }: Coordinates,
+  radiusKm: number,
+): BoundingBox => {
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const minLatitude = latitude - toDegrees(angularRadius);
+  const maxLatitude = latitude + toDegrees(angularRadius);
+
+  // A circle covering a pole spans every longitude
+  if (minLatitude <= -90 || maxLatitude >= 90) {
+    return {
+      minLatitude: Math.max(minLatitude, -90),
+      maxLatitude: Math.min(maxLatitude, 90),
+      minLongitude: -180,
+      maxLongitude: 180,
+    };
+  }
+
+  const lngDelta = toDegrees(
+    Math.asin(Math.sin(angularRadius) / Math.cos(toRadians(latitude))),
+  );
+  const minLongitude = longitude - lngDelta;
+  const maxLongitude = longitude + lngDelta;
+
+  return {
+    minLatitude,
+    maxLatitude,
+    minLongitude: minLongitude < -180 ? minLongitude + 360 : minLongitude,
+    maxLongitude: maxLongitude > 180 ? maxLongitude - 360 : maxLongitude,
+  };
+};
+
+// Export rows only get a geometry when both coordinates are known
+export const pointGeometry = (
+  row: Record<string, unknown>,
+): GeoJsonGeometry | null =>
+  typeof row.latitude === "number" && typeof row.longitude === "number"
+    ? { type: "Point", coordinates: [row.longitude, row.latitude] }
+    : null;
+
+const polygonsOf = (geometry: BoundaryGeometry): PolygonCoordinates[] =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+export const geometryBoundingBox = (
+  geometry: BoundaryGeometry,
+): BoundingBox => {
+  const box: BoundingBox = {
+    minLatitude: Infinity,
+    maxLatitude: -Infinity,
+    minLongitude: Infinity,
+    maxLongitude: -Infinity,
+  };
+
+  // Holes lie inside their outer ring, so only outer rings matter. A loop
+  // rather than Math.min(...) keeps detailed coastlines off the call stack
+  for (const [outer] of polygonsOf(geometry)) {
+    for (const [longitude, latitude] of outer) {
+      box.minLatitude = Math.min(box.minLatitude, latitude);
+      box.maxLatitude = Math.max(box.maxLatitude, latitude);
+      box.minLongitude = Math.min(box.minLongitude, longitude);
+      box.maxLongitude = Math.max(box.maxLongitude, longitude);
+    }
+  }
+
+  return box;
+};
+
+// Even-odd ray casting; points exactly on an edge may fall either way
+const ringContains = (
+  ring: Position[],
+  { latitude, longitude }: Coordinates,
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > latitude !== yj > latitude &&
+      longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const containsPoint = (
+  geometry: BoundaryGeometry,
+  point: Coordinates,
+): boolean =>
+  polygonsOf(geometry).some(
+    ([outer, ...holes]) =>
+      ringContains(outer, point) &&
+      !holes.some((hole) => ringContains(hole, point)),
+  );
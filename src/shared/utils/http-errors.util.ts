@@ -40,6 +40,30 @@ export class ForbiddenError extends HttpError {
   }
 }
 
+export class ConflictError extends HttpError {
+  constructor(message: string = "Conflict", details?: unknown) {
+    super(409, message, details);
+  }
+}
+
+export class PreconditionFailedError extends HttpError {
+  constructor(message: string = "Precondition Failed", details?: unknown) {
+    super(412, message, details);
+  }
+}
+
+export class PreconditionRequiredError extends HttpError {
+  constructor(message: string = "Precondition Required", details?: unknown) {
+    super(428, message, details);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message: string = "Unsupported Media Type", details?: unknown) {
+    super(415, message, details);
+  }
+}
+
 export class ServerError extends HttpError {
   constructor(message: string = "Internal Server Error", details?: unknown) {
     super(500, message, details);
@@ -0,0 +1,201 @@
+import { type Request } from "express";
+import readline from "readline";
+import { type Readable } from "stream";
+import { BadRequestError } from "./http-errors.util";
+
+export type ImportFormat = "csv" | "ndjson";
+
+export interface ParsedImportRow {
+  line: number;
+  record?: Record<string, unknown>;
+  error?: string;
+}
+
+const CONTENT_TYPES: Record<string, ImportFormat> = {
+  "text/csv": "csv",
+  "application/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/ndjson": "ndjson",
+  "application/jsonl": "ndjson",
+};
+
+/**
+ * Picks the upload format from the explicit `format` option, falling back to
+ * the request Content-Type.
+ */
+export const resolveImportFormat = (
+  req: Request,
+  format?: ImportFormat,
+): ImportFormat => {
+  if (format) return format;
+
+  const contentType = req.headers["content-type"]?.split(";")[0].trim();
+  const resolved = contentType && CONTENT_TYPES[contentType];
+  if (!resolved) {
+    throw new BadRequestError(
+      "Unsupported import format, send text/csv or application/x-ndjson",
+    );
+  }
+  return resolved;
+};
+
+const splitCsvRecord = (text: string): string[] => {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values.map((value) => value.trim());
+};
+
+// A record is complete once every opened quote has been closed
+const hasOpenQuote = (text: string) =>
+  (text.match(/"/g)?.length ?? 0) % 2 === 1;
+
+async function* parseCsv(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<ParsedImportRow> {
+  let header: string[] | undefined;
+  let buffer = "";
+  let line = 0;
+  let startLine = 0;
+
+  for await (const raw of lines) {
+    line++;
+    buffer = buffer ? `${buffer}\n${raw}` : raw.replace(/^\uFEFF/, "");
+    if (!startLine) startLine = line;
+    if (hasOpenQuote(buffer)) continue;
+
+    const text = buffer;
+    const recordLine = startLine;
+    buffer = "";
+    startLine = 0;
+
+    if (!text.trim()) continue;
+
+    const values = splitCsvRecord(text);
+    if (!header) {
+      header = values;
+      continue;
+    }
+
+    if (values.length !== header.length) {
+      yield {
+        line: recordLine,
+        error: `Expected ${header.length} columns but found ${values.length}`,
+      };
+      continue;
+    }
+
+    // Empty cells are treated as missing values
+    yield {
+      line: recordLine,
+      record: Object.fromEntries(
+        header
+          .map((key, i) => [key, values[i]])
+          .filter(([, value]) => value !== ""),
+      ),
+    };
+  }
+
+  if (buffer) {
+    yield { line: startLine, error: "Unterminated quoted value" };
+  }
+}
+
+async function* parseNdjson(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<ParsedImportRow> {
+  let line = 0;
+
+  for await (const raw of lines) {
+    line++;
+    if (!raw.trim()) continue;
+
+    try {
+      const record = JSON.parse(raw);
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        yield { line, error: "Each line must be a JSON object" };
+        continue;
+      }
+      yield { line, record };
+    } catch (e) {
+      yield { line, error: "Invalid JSON" };
+    }
+  }
+}
+
+/**
+ * Reads an uploaded CSV (with a header row) or NDJSON body line by line, so
+ * large files are never buffered in memory.
+ */
+export const parseImportStream = (
+  input: Readable,
+  format: ImportFormat,
+): AsyncGenerator<ParsedImportRow> => {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  return format === "csv" ? parseCsv(lines) : parseNdjson(lines);
+};
+
+async function* parseTsv(
+  lines: AsyncIterable<string>,
+  columns: readonly string[],
+): AsyncGenerator<ParsedImportRow> {
+  let line = 0;
+
+  for await (const raw of lines) {
+    line++;
+    if (!raw.trim()) continue;
+
+    const values = raw.split("\t").map((value) => value.trim());
+    if (values.length !== columns.length) {
+      yield {
+        line,
+        error: `Expected ${columns.length} columns but found ${values.length}`,
+      };
+      continue;
+    }
+
+    yield {
+      line,
+      record: Object.fromEntries(
+        columns
+          .map((key, i) => [key, values[i]])
+          .filter(([, value]) => value !== ""),
+      ),
+    };
+  }
+}
+
+/**
+ * Reads a headerless tab-separated body, as published by GeoNames, naming
+ * the fields of each line after `columns`.
+ */
+export const parseTsvStream = (
+  input: Readable,
+  columns: readonly string[],
+): AsyncGenerator<ParsedImportRow> => {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  return parseTsv(lines, columns);
+};
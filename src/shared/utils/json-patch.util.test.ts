@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { type Request } from "express";
+import { z } from "zod";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  patchEntity,
+  resolvePatchFormat,
+} from "./json-patch.util";
+import {
+  BadRequestError,
+  ConflictError,
+  UnsupportedMediaTypeError,
+} from "./http-errors.util";
+
+describe("applyMergePatch", () => {
+  it("merges objects and removes nulls (RFC 7396)", () => {
+    expect(
+      applyMergePatch(
+        { title: "Goodbye!", author: { givenName: "John", familyName: "Doe" } },
+        { title: "Hello!", author: { familyName: null }, phone: "555" },
+      ),
+    ).toEqual({ title: "Hello!", author: { givenName: "John" }, phone: "555" });
+  });
+
+  it("replaces arrays and non-objects whole", () => {
+    expect(applyMergePatch({ tags: ["a", "b"] }, { tags: ["c"] })).toEqual({
+      tags: ["c"],
+    });
+    expect(applyMergePatch({ a: 1 }, "text")).toBe("text");
+  });
+
+  it("rejects prototype keys", () => {
+    expect(() =>
+      applyMergePatch({}, JSON.parse('{"__proto__": {"admin": true}}')),
+    ).toThrow(BadRequestError);
+  });
+});
+
+describe("applyJsonPatch", () => {
+  const document = { name: "Paris", tags: ["capital", "city"], meta: {} };
+
+  it("applies the operations in order (RFC 6902)", () => {
+    expect(
+      applyJsonPatch(document, [
+        { op: "replace", path: "/name", value: "Lyon" },
+        { op: "add", path: "/tags/-", value: "river" },
+        { op: "remove", path: "/tags/0" },
+        { op: "copy", from: "/name", path: "/meta/alias" },
+        { op: "move", from: "/meta/alias", path: "/alias" },
+        { op: "test", path: "/alias", value: "Lyon" },
+      ]),
+    ).toEqual({
+      name: "Lyon",
+      tags: ["city", "river"],
+      meta: {},
+      alias: "Lyon",
+    });
+  });
+
+  it("unescapes pointer tokens", () => {
+    expect(
+      applyJsonPatch({ "a/b": 1, "c~d": 2 }, [
+        { op: "remove", path: "/a~1b" },
+        { op: "replace", path: "/c~0d", value: 3 },
+      ]),
+    ).toEqual({ "c~d": 3 });
+  });
+
+  it("leaves the document untouched when an operation fails", () => {
+    expect(() =>
+      applyJsonPatch(document, [
+        { op: "replace", path: "/name", value: "Lyon" },
+        { op: "test", path: "/name", value: "Paris" },
+      ]),
+    ).toThrow(ConflictError);
+    expect(document.name).toBe("Paris");
+  });
+
+  it.each([
+    [{ op: "remove", path: "/missing" }],
+    [{ op: "replace", path: "/missing", value: 1 }],
+    [{ op: "add", path: "/tags/5", value: "x" }],
+    [{ op: "remove", path: "/tags/01" }],
+    [{ op: "move", from: "/meta", path: "/meta/child" }],
+  ])("conflicts on %j", (operation) => {
+    expect(() => applyJsonPatch(document, [operation])).toThrow(ConflictError);
+  });
+
+  it("rejects malformed patches", () => {
+    expect(() => applyJsonPatch(document, { op: "add" })).toThrow(
+      BadRequestError,
+    );
+  });
+});
+
+describe("resolvePatchFormat", () => {
+  const request = (contentType?: string) =>
+    ({ headers: { "content-type": contentType } }) as Request;
+
+  it("reads the content type", () => {
+    expect(resolvePatchFormat(request("application/merge-patch+json"))).toBe(
+      "merge-patch",
+    );
+    expect(
+      resolvePatchFormat(request("application/json-patch+json; charset=utf-8")),
+    ).toBe("json-patch");
+  });
+
+  it("rejects anything else", () => {
+    expect(() => resolvePatchFormat(request("application/json"))).toThrow(
+      UnsupportedMediaTypeError,
+    );
+  });
+});
+
+describe("patchEntity", () => {
+  const schema = z.object({
+    name: z.string().min(2),
+    capital: z.string().optional(),
+  });
+  const entity = { id: 1, name: "France", capital: "Paris", version: 4 };
+
+  it("returns removed fields as null", () => {
+    expect(
+      patchEntity("merge-patch", entity, { capital: null }, schema),
+    ).toEqual({ name: "France", capital: null });
+  });
+
+  it("clears a field set to null in either format", () => {
+    const replaced = patchEntity(
+      "json-patch",
+      entity,
+      [{ op: "replace", path: "/capital", value: null }],
+      schema,
+    );
+    expect(replaced).toEqual(
+      patchEntity("merge-patch", entity, { capital: null }, schema),
+    );
+    expect(() =>
+      patchEntity(
+        "json-patch",
+        entity,
+        [{ op: "replace", path: "/name", value: null }],
+        schema,
+      ),
+    ).toThrow(BadRequestError);
+  });
+
+  it("patches only the fields the schema accepts", () => {
+    expect(() =>
+      patchEntity(
+        "json-patch",
+        entity,
+        [{ op: "replace", path: "/version", value: 9 }],
+        schema,
+      ),
+    ).toThrow(ConflictError);
+  });
+
+  it("validates the result", () => {
+    expect(() =>
+      patchEntity("merge-patch", entity, { name: "F" }, schema),
+    ).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,270 @@
+import { type Request } from "express";
+import { ZodEffects, type ZodObject, type ZodRawShape, z } from "zod";
+import {
+  BadRequestError,
+  ConflictError,
+  UnsupportedMediaTypeError,
+} from "./http-errors.util";
+import {
+  v_json_patch,
+  type JsonPatchOperation,
+} from "./_zod-utils/v-json-patch";
+
+export type PatchFormat = "merge-patch" | "json-patch";
+
+const CONTENT_TYPES: Record<string, PatchFormat> = {
+  "application/merge-patch+json": "merge-patch",
+  "application/json-patch+json": "json-patch",
+};
+
+export const resolvePatchFormat = (req: Request): PatchFormat => {
+  const contentType = req.headers["content-type"]?.split(";")[0].trim();
+  const resolved = contentType && CONTENT_TYPES[contentType];
+  if (!resolved) {
+    throw new UnsupportedMediaTypeError(
+      "Send application/merge-patch+json or application/json-patch+json",
+    );
+  }
+  return resolved;
+};
+
+type Json = unknown;
+type Container = Record<string, Json> | Json[];
+
+const isObject = (value: Json): value is Record<string, Json> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasMember = (object: Record<string, Json>, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+// Keys that would reach Object.prototype instead of the document
+const assertSafeKey = (key: string) => {
+  if (key === "__proto__" || key === "constructor" || key === "prototype") {
+    throw new BadRequestError(`Invalid member name '${key}'`);
+  }
+};
+
+/** RFC 7396: objects merge recursively, `null` removes a member. */
+export const applyMergePatch = (target: Json, patch: Json): Json => {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, Json> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    assertSafeKey(key);
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+};
+
+// RFC 6901 reference tokens, with ~1 and ~0 unescaped
+const parsePointer = (pointer: string): string[] =>
+  pointer === ""
+    ? []
+    : pointer
+        .slice(1)
+        .split("/")
+        .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+const arrayIndex = (array: Json[], token: string, allowEnd: boolean) => {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new ConflictError(`Invalid array index '${token}'`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new ConflictError(`Array index ${index} is out of bounds`);
+  }
+  return index;
+};
+
+const getValue = (document: Json, pointer: string): Json => {
+  let current = document;
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && hasMember(current, token)) {
+      current = current[token];
+    } else {
+      throw new ConflictError(`Path '${pointer}' does not exist`);
+    }
+  }
+  return current;
+};
+
+// Resolves the container holding the last token of the pointer
+const getParent = (
+  document: Json,
+  pointer: string,
+): { parent: Container; key: string } => {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop()!;
+  tokens.forEach(assertSafeKey);
+  assertSafeKey(key);
+
+  const parentPointer = tokens
+    .map((token) => `/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+    .join("");
+  const parent = getValue(document, parentPointer);
+  if (!isObject(parent) && !Array.isArray(parent)) {
+    throw new ConflictError(`Path '${pointer}' does not exist`);
+  }
+  return { parent: parent as Container, key };
+};
+
+const addValue = (document: Json, pointer: string, value: Json): Json => {
+  if (pointer === "") return value;
+
+  const { parent, key } = getParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+};
+
+const removeValue = (document: Json, pointer: string): Json => {
+  if (pointer === "") return undefined;
+
+  const { parent, key } = getParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (hasMember(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new ConflictError(`Path '${pointer}' does not exist`);
+  }
+  return document;
+};
+
+const isEqual = (a: Json, b: Json): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasMember(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+const applyOperation = (document: Json, operation: JsonPatchOperation) => {
+  switch (operation.op) {
+    case "add":
+      return addValue(
+        document,
+        operation.path,
+        structuredClone(operation.value),
+      );
+    case "remove":
+      return removeValue(document, operation.path);
+    case "replace":
+      getValue(document, operation.path);
+      return addValue(
+        removeValue(document, operation.path),
+        operation.path,
+        structuredClone(operation.value),
+      );
+    case "move": {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new ConflictError("Cannot move a value into one of its children");
+      }
+      const value = getValue(document, operation.from);
+      return addValue(
+        removeValue(document, operation.from),
+        operation.path,
+        value,
+      );
+    }
+    case "copy":
+      return addValue(
+        document,
+        operation.path,
+        structuredClone(getValue(document, operation.from)),
+      );
+    case "test":
+      if (!isEqual(getValue(document, operation.path), operation.value)) {
+        throw new ConflictError(`Test failed at path '${operation.path}'`);
+      }
+      return document;
+  }
+};
+
+/**
+ * RFC 6902: applies the operations in order to a copy of the document. The
+ * patch is atomic, any failing operation rejects the whole patch.
+ */
+export const applyJsonPatch = (document: Json, patch: Json): Json => {
+  const parsed = v_json_patch.safeParse(patch);
+  if (!parsed.success) {
+    throw new BadRequestError(
+      "Invalid JSON Patch document",
+      parsed.error.format(),
+    );
+  }
+
+  return parsed.data.reduce(applyOperation, structuredClone(document));
+};
+
+// Optional fields can come back as `null` once a patch removed them
+export type PatchedEntity<T> = {
+  [K in keyof T]-?: undefined extends T[K]
+    ? Exclude<T[K], undefined> | null
+    : T[K];
+};
+
+/**
+ * Applies a PATCH body to the fields the create schema accepts and validates
+ * the full result against it. Fields the patch removed come back as `null`,
+ * so saving the result clears them instead of leaving them untouched.
+ */
+export const patchEntity = <T extends ZodRawShape>(
+  format: PatchFormat,
+  entity: object,
+  patch: Json,
+  schema: ZodObject<T> | ZodEffects<ZodObject<T>>,
+): PatchedEntity<z.infer<ZodObject<T>>> => {
+  // Refined schemas still describe their fields on the wrapped object
+  const shape =
+    schema instanceof ZodEffects ? schema.innerType().shape : schema.shape;
+  const fields = Object.keys(shape);
+  const source = entity as Record<string, Json>;
+
+  // Null columns are absent from the document, matching merge patch semantics
+  const document = Object.fromEntries(
+    fields
+      .filter((field) => source[field] !== null && source[field] !== undefined)
+      .map((field) => [field, source[field]]),
+  );
+
+  const patched =
+    format === "merge-patch"
+      ? applyMergePatch(document, patch)
+      : applyJsonPatch(document, patch);
+
+  // A field set to null is cleared, the same way merge patch removes it
+  const cleared = isObject(patched)
+    ? Object.fromEntries(
+        Object.entries(patched).filter(([, value]) => value !== null),
+      )
+    : patched;
+
+  const result = schema.safeParse(cleared);
+  if (!result.success) {
+    throw new BadRequestError("Validation failed", result.error.format());
+  }
+
+  return {
+    ...Object.fromEntries(fields.map((field) => [field, null])),
+    ...result.data,
+  } as PatchedEntity<z.infer<ZodObject<T>>>;
+};
@@ -0,0 +1,42 @@
+// Bounds the locales a single request can make us look up
+const MAX_LOCALES = 10;
+
+export const canonicalLocale = (tag: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(tag)[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Turns an Accept-Language header into the locales to try, best first. Each
+ * locale is followed by its less specific fallbacks, so "fr-CA, en;q=0.8"
+ * yields ["fr-CA", "fr", "en"]. Wildcards and `q=0` entries are dropped.
+ */
+export const parseAcceptLanguage = (header?: string): string[] => {
+  if (!header) return [];
+
+  const ranked = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.split(";").map((value) => value.trim());
+      const quality = params.find((param) => param.startsWith("q="));
+      return { tag, quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  const locales: string[] = [];
+  for (const { tag } of ranked) {
+    const subtags = canonicalLocale(tag)?.split("-") ?? [];
+    for (let length = subtags.length; length > 0; length--) {
+      const candidate = subtags.slice(0, length).join("-");
+      if (!locales.includes(candidate)) {
+        locales.push(candidate);
+      }
+    }
+  }
+
+  return locales.slice(0, MAX_LOCALES);
+};
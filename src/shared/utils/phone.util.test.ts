@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parsePhoneNumber, toDialPrefix, type DialCode } from "./phone.util";
+
+const dialCode = (
+  countryId: number,
+  country: string,
+  phoneCode: string,
+): DialCode => ({
+  countryId,
+  country,
+  name: country,
+  ...toDialPrefix(phoneCode),
+});
+
+const US = dialCode(1, "US", "+1");
+const CA = dialCode(2, "CA", "+1");
+const AS = dialCode(3, "AS", "+1-684");
+const GB = dialCode(4, "GB", "+44");
+const IT = dialCode(5, "IT", "+39");
+const SM = dialCode(6, "SM", "+378");
+const dialCodes = [US, CA, AS, GB, IT, SM];
+
+describe("toDialPrefix", () => {
+  it.each([
+    ["+44", { callingCode: "44", prefix: "44" }],
+    ["+1-684", { callingCode: "1", prefix: "1684" }],
+    ["1684", { callingCode: "1", prefix: "1684" }],
+    ["+378", { callingCode: "378", prefix: "378" }],
+  ])("reads %s", (phoneCode, expected) => {
+    expect(toDialPrefix(phoneCode)).toEqual(expected);
+  });
+});
+
+describe("parsePhoneNumber", () => {
+  it("matches international numbers on the longest prefix", () => {
+    const phone = parsePhoneNumber("+1 684 633 1234", { dialCodes });
+
+    expect(phone.country).toBe(AS);
+    expect(phone.candidates).toEqual(["AS"]);
+    expect(phone.e164).toBe("+16846331234");
+    expect(phone.valid).toBe(true);
+  });
+
+  it("lists every country sharing a calling code", () => {
+    const phone = parsePhoneNumber("+1 (201) 555-0123", {
+      dialCodes,
+      country: CA,
+    });
+
+    expect(phone.candidates).toEqual(["US", "CA"]);
+    expect(phone.country).toBe(CA);
+    expect(phone.nationalFormat).toBe("(201) 555-0123");
+  });
+
+  it("reads a 00 prefix as international", () => {
+    expect(parsePhoneNumber("0044 20 7946 0958", { dialCodes }).e164).toBe(
+      "+442079460958",
+    );
+  });
+
+  it.each([
+    ["020 7946 0958", GB, "+442079460958"],
+    ["1 (201) 555-0123", US, "+12015550123"],
+    ["06 1234567", IT, "+39061234567"],
+    ["0549 882555", SM, "+3780549882555"],
+  ])("reads national %s", (input, country, e164) => {
+    expect(parsePhoneNumber(input, { dialCodes, country }).e164).toBe(e164);
+  });
+
+  it("needs a country for national numbers", () => {
+    expect(parsePhoneNumber("020 7946 0958", { dialCodes }).valid).toBe(false);
+  });
+
+  it.each(["+1 201 555", "+99 1234 5678", "call 555-0123", "+44 12"])(
+    "rejects %s",
+    (input) => {
+      expect(parsePhoneNumber(input, { dialCodes }).valid).toBe(false);
+    },
+  );
+});
@@ -0,0 +1,162 @@
+export interface DialCode {
+  countryId: number;
+  country: string;
+  name: string;
+  callingCode: string;
+  // Calling code plus any area code that singles the country out, so
+  // "+1-684" has calling code "1" and prefix "1684"
+  prefix: string;
+}
+
+export interface PhoneNumber {
+  input: string;
+  e164: string | null;
+  valid: boolean;
+  country: DialCode | null;
+  // Every country sharing the calling code, e.g. all of +1
+  candidates: string[];
+  callingCode: string | null;
+  nationalNumber: string | null;
+  nationalFormat: string | null;
+}
+
+// E.164 caps a number at 15 digits including the calling code
+const MAX_DIGITS = 15;
+const MIN_NATIONAL_DIGITS = 4;
+const ALLOWED_CHARACTERS = /^\+?[\d\s().\-/]+$/;
+
+/**
+ * Dial codes of the live countries, kept in memory so synchronous zod
+ * refinements can use them. Loaded by `loadDialCodes` in shared/db.
+ */
+let registry: DialCode[] = [];
+
+export const setDialCodes = (dialCodes: DialCode[]) => {
+  registry = dialCodes;
+};
+
+export const getDialCodes = (): DialCode[] => registry;
+
+// The North American Numbering Plan, "(201) 555-0123"
+const isNanp = (callingCode: string) => callingCode === "1";
+
+// Italy, San Marino and the Vatican dial the leading 0 from abroad too, so
+// "06 1234567" in Rome is "+39 06 1234567"
+const KEEPS_LEADING_ZERO = new Set(["39", "378"]);
+
+const trunkPrefixOf = (callingCode: string): string | null => {
+  if (isNanp(callingCode)) {
+    return "1";
+  }
+  return KEEPS_LEADING_ZERO.has(callingCode) ? null : "0";
+};
+
+/**
+ * Reads a stored phone code such as "+44", "+1-684" or "1684". Codes inside
+ * +1 always share the calling code "1", whether or not a dash was stored.
+ */
+export const toDialPrefix = (
+  phoneCode: string,
+): Pick<DialCode, "callingCode" | "prefix"> => {
+  const [head, ...rest] = phoneCode.replace(/^[\s+]+/, "").split(/[\s-]+/);
+  const prefix = `${head}${rest.join("")}`.replace(/\D/g, "");
+  const callingCode = prefix.startsWith("1") ? "1" : head.replace(/\D/g, "");
+  return { callingCode, prefix };
+};
+
+const formatNational = (callingCode: string, digits: string): string => {
+  if (isNanp(callingCode) && digits.length === 10) {
+    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+  }
+
+  // Without per-country metadata, group from the right in fours
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= 4) {
+    groups.unshift(digits.slice(Math.max(0, end - 4), end));
+  }
+  return groups.join(" ");
+};
+
+/**
+ * Normalizes a raw number to E.164. Numbers starting with "+" or "00" are
+ * matched on the longest phone code prefix; anything else is read as a national
+ * number of `country`, dropping a leading trunk prefix ("0", or "1" in +1)
+ * where the country has one.
+ */
+export const parsePhoneNumber = (
+  input: string,
+  {
+    country,
+    dialCodes = registry,
+  }: { country?: DialCode; dialCodes?: DialCode[] } = {},
+): PhoneNumber => {
+  const result: PhoneNumber = {
+    input,
+    e164: null,
+    valid: false,
+    country: null,
+    candidates: [],
+    callingCode: null,
+    nationalNumber: null,
+    nationalFormat: null,
+  };
+
+  const trimmed = input.trim();
+  if (!ALLOWED_CHARACTERS.test(trimmed)) {
+    return result;
+  }
+
+  let digits = trimmed.replace(/\D/g, "");
+  const international = trimmed.startsWith("+") || digits.startsWith("00");
+  if (digits.startsWith("00") && !trimmed.startsWith("+")) {
+    digits = digits.slice(2);
+  }
+
+  if (international) {
+    let longest = 0;
+    for (const dialCode of dialCodes) {
+      if (digits.startsWith(dialCode.prefix)) {
+        longest = Math.max(longest, dialCode.prefix.length);
+      }
+    }
+    const matches = dialCodes.filter(
+      (dialCode) =>
+        dialCode.prefix.length === longest &&
+        digits.startsWith(dialCode.prefix),
+    );
+    if (!matches.length) {
+      return result;
+    }
+
+    result.country =
+      matches.find((dialCode) => dialCode.countryId === country?.countryId) ??
+      matches[0];
+    result.candidates = matches.map((dialCode) => dialCode.country);
+    result.callingCode = result.country.callingCode;
+    result.nationalNumber = digits.slice(result.callingCode.length);
+  } else {
+    if (!country) {
+      return result;
+    }
+
+    const trunkPrefix = trunkPrefixOf(country.callingCode);
+    result.country = country;
+    result.candidates = [country.country];
+    result.callingCode = country.callingCode;
+    result.nationalNumber =
+      trunkPrefix && digits.startsWith(trunkPrefix) ? digits.slice(1) : digits;
+  }
+
+  const { callingCode, nationalNumber } = result;
+  if (!nationalNumber) {
+    return result;
+  }
+
+  result.e164 = `+${callingCode}${nationalNumber}`;
+  result.nationalFormat = formatNational(callingCode, nationalNumber);
+  result.valid =
+    nationalNumber.length >= MIN_NATIONAL_DIGITS &&
+    callingCode.length + nationalNumber.length <= MAX_DIGITS &&
+    (!isNanp(callingCode) || nationalNumber.length === 10);
+  return result;
+};
@@ -0,0 +1,23 @@
+// Codes are stored and compared uppercase with single spaces, e.g. "SW1A 1AA"
+export const normalizePostalCode = (code: string): string =>
+  code.trim().toUpperCase().replace(/\s+/g, " ");
+
+const compile = (pattern: string) => new RegExp(`^(?:${pattern})$`);
+
+export const isValidPostalCodeRegex = (pattern: string): boolean => {
+  try {
+    compile(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks a normalized code against a country's format rule. The pattern must
+ * match the whole code, whether or not it carries its own anchors.
+ */
+export const matchesPostalCodeFormat = (
+  code: string,
+  pattern: string,
+): boolean => compile(pattern).test(code);
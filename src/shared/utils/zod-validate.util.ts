@@ -1,15 +1,23 @@
-import { ZodError, ZodSchema } from "zod";
+import { z, ZodError, ZodSchema } from "zod";
 import { BadRequestError } from "./http-errors.util";
 import { type Request } from "express";
 
-export const validateRequest = (
+export const validateRequest = <
+  TBody extends ZodSchema = ZodSchema,
+  TParams extends ZodSchema = ZodSchema,
+  TQuery extends ZodSchema = ZodSchema,
+>(
   req: Request,
   schemas: {
-    body?: ZodSchema;
-    params?: ZodSchema;
-    query?: ZodSchema;
+    body?: TBody;
+    params?: TParams;
+    query?: TQuery;
   },
-) => {
+): {
+  body: z.infer<TBody>;
+  params: z.infer<TParams>;
+  query: z.infer<TQuery>;
+} => {
   const { body, params, query } = schemas;
   const errors: { body?: any; params?: any; query?: any } = {};
 